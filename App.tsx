@@ -1,9 +1,67 @@
-import React, { useState, Suspense } from 'react';
+import React, { useState, useMemo, useEffect, useRef, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
-import { TreeState } from './types';
+import { CONFIG, CameraPose, EnvironmentId, GiftSurprise, OrnamentKind, PhotoInspection, QualitySetting, QualityTier, ScenePhoto, SnowDensity, Theme, TimelineSettings, TreeState, UploadProgress } from './types';
 import Experience from './components/Experience';
 import Overlay from './components/Overlay';
+import DropZone from './components/DropZone';
+import ImportPrompt from './components/ImportPrompt';
+import CountdownDisplay from './components/CountdownDisplay';
+import GiftCard from './components/GiftCard';
+import { SceneFileStatus } from './components/SceneFileControls';
+import {
+  SceneSnapshot,
+  SharedPhoto,
+  decodeSceneHash,
+  isShareablePhotoUrl,
+  toScenePhotos,
+  toSharedPhoto,
+} from './utils/sceneUrl';
+import { useSceneHash } from './hooks/useSceneHash';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { useLightboxNavigation } from './hooks/useLightboxNavigation';
+import { useDecorations } from './hooks/useDecorations';
+import { useCameraDirector } from './hooks/useCameraDirector';
+import { useKioskMode } from './hooks/useKioskMode';
+import { useSlideshow } from './hooks/useSlideshow';
+import { useCountdown } from './hooks/useCountdown';
+import { useGifts } from './hooks/useGifts';
+import { IncomingFiles, usePhotoDrop } from './hooks/usePhotoDrop';
+import { randomSeed } from './utils/random';
+import { loadTimelineSettings, saveTimelineSettings, sceneTimeline, timelineNow } from './utils/timeline';
+import { audioEngine } from './utils/audioEngine';
+import { QUALITY_PRESETS, initialAutoTier, loadQualitySetting, saveQualitySetting } from './utils/quality';
+import { PhotoImportMode } from './utils/photoLibrary';
+import { processImageFiles } from './utils/imagePipeline';
+import { downloadTextFile } from './utils/dom';
+import { kioskFromUrl, loadKioskSetting, saveKioskSetting } from './utils/kiosk';
+import { ENVIRONMENT_PRESETS, loadEnvironmentId, saveEnvironmentId } from './utils/environments';
+import { loadLightSettings, resolveLightShow, saveLightSettings } from './utils/lightShow';
+import { loadSlideshowSettings, saveSlideshowSettings } from './utils/slideshow';
+import { clockFromUrl, loadCountdownSettings, saveCountdownSettings, systemClock } from './utils/countdown';
+import {
+  SceneDocument,
+  SceneDocumentError,
+  createSceneDocument,
+  documentDecorations,
+  parseSceneDocument,
+  resolveDocumentPhotos,
+  sceneDocumentFileName,
+  serializeSceneDocument,
+  toDocumentPhoto,
+} from './utils/sceneDocument';
+import { Silhouette, SilhouetteError, silhouetteFromImage, silhouetteFromText } from './utils/silhouette';
+import {
+  CustomThemeInput,
+  DEFAULT_THEME,
+  THEME_PRESETS,
+  applyThemeCssVariables,
+  createCustomTheme,
+  findTheme,
+  isPresetTheme,
+  loadCustomThemes,
+  saveCustomThemes,
+} from './utils/themes';
 
 // Curated default photos using reliable Picsum seeds to prevent loading errors
 const DEFAULT_PHOTOS = [
@@ -14,10 +72,12 @@ const DEFAULT_PHOTOS = [
   "https://picsum.photos/seed/snow5/800/800",
   "https://picsum.photos/seed/star6/800/800" 
 ];
+const DEFAULT_SCENE_PHOTOS = toScenePhotos(DEFAULT_PHOTOS.map(url => ({ url })));
 
 // Top level error boundary for the canvas
 interface ErrorBoundaryProps {
   children: React.ReactNode;
+  onError?: () => void;
 }
 
 interface ErrorBoundaryState {
@@ -32,6 +92,9 @@ class AppErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundary
   static getDerivedStateFromError() {
     return { hasError: true };
   }
+  componentDidCatch() {
+    this.props.onError?.();
+  }
   render() {
     if (this.state.hasError) {
       return (
@@ -48,102 +111,703 @@ class AppErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundary
 }
 
 const App: React.FC = () => {
+  // A shared link (#scene=...) takes precedence over the defaults
+  const initialScene = useMemo(() => decodeSceneHash(window.location.hash), []);
+
   // Start in FORMED state (Tree is assembled, ready to explode)
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.FORMED);
-  const [snowEnabled, setSnowEnabled] = useState(true);
+  const [treeState, setTreeState] = useState<TreeState>(initialScene?.treeState ?? TreeState.FORMED);
+  const [snowEnabled, setSnowEnabled] = useState(initialScene?.snowEnabled ?? true);
+  const [snowDensity, setSnowDensity] = useState<SnowDensity>(initialScene?.snowDensity ?? 'normal');
   
-  // Initialize with DEFAULT_PHOTOS so it's never empty
-  const [userPhotos, setUserPhotos] = useState<string[]>(DEFAULT_PHOTOS);
-  const [photoOffset, setPhotoOffset] = useState(0); // For slideshow cycling
+  // Photos: a shared link's remote photos win, then the local library, then DEFAULT_PHOTOS so it's never empty
+  const library = usePhotoLibrary();
+  const [linkPhotos, setLinkPhotos] = useState<SharedPhoto[] | null>(initialScene?.photos ?? null);
+  const userPhotos = useMemo<ScenePhoto[]>(() => {
+    if (linkPhotos) return toScenePhotos(linkPhotos);
+    if (!library.isLoaded) return []; // Don't flash the defaults while the library loads
+    return library.photos.length > 0 ? library.photos : DEFAULT_SCENE_PHOTOS;
+  }, [linkPhotos, library.isLoaded, library.photos]);
+
+  // Library edits that couldn't be saved (the library re-reads itself, so only the message is left to show)
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const reportLibraryError = (edit: Promise<void>, message: string) => {
+    setLibraryError(null);
+    edit.catch((error) => {
+      console.error(message, error);
+      setLibraryError(message);
+    });
+  };
+  const [photoOffset, setPhotoOffset] = useState(initialScene?.photoOffset ?? 0); // For slideshow cycling
   const [isProcessing, setIsProcessing] = useState(false);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [seed, setSeed] = useState(initialScene?.seed ?? CONFIG.seed);
+
+  // The custom formation's shape: a typed message or an uploaded silhouette
+  const [silhouette, setSilhouette] = useState<Silhouette | null>(null);
+  const [isDrawingShape, setIsDrawingShape] = useState(false);
+  const [shapeError, setShapeError] = useState<string | null>(null);
+  const message = silhouette?.source.kind === 'text' ? silhouette.source.text : '';
+  // Until the shape is drawn (e.g. a link's message), the tree stands in for it
+  const formation = treeState === TreeState.CUSTOM && !silhouette ? TreeState.FORMED : treeState;
+
+  const applySilhouette = async (draw: () => Promise<Silhouette>) => {
+    setIsDrawingShape(true);
+    setShapeError(null);
+    try {
+      setSilhouette(await draw());
+      setTreeState(TreeState.CUSTOM);
+      return true;
+    } catch (error) {
+      console.error('Could not draw the shape:', error);
+      setShapeError(error instanceof SilhouetteError ? error.message : 'Could not draw that shape.');
+      return false;
+    } finally {
+      setIsDrawingShape(false);
+    }
+  };
+
+  // Draws a message from a link (or history) without changing the formation
+  const loadMessage = (text: string) => {
+    silhouetteFromText(text)
+      .then(setSilhouette)
+      .catch((error) => console.error('Could not draw the shared message:', error));
+  };
+
+  useEffect(() => {
+    if (initialScene?.message) loadMessage(initialScene.message);
+  }, []);
+
+  // A settled formation rings a chime over the music (silent while nothing plays)
+  useEffect(() => sceneTimeline.subscribe((event) => {
+    if (event.type === 'complete') audioEngine.chime();
+  }), []);
+
+  // Decorating mode: ornaments hung by hand, on the tree only
+  const [isDecorating, setIsDecorating] = useState(false);
+  const [decorKind, setDecorKind] = useState<OrnamentKind>('balls');
+  const [decorColor, setDecorColor] = useState(CONFIG.decorating.palette[0]);
+  const decorating = isDecorating && formation === TreeState.FORMED;
+  const decorations = useDecorations(decorating);
+
+  // Picking another formation pauses decorating; toggling back on brings the tree back
+  const toggleDecorating = () => {
+    if (!decorating) setTreeState(TreeState.FORMED);
+    setIsWrapping(false);
+    setIsDecorating(!decorating);
+  };
+
+  // Gift boxes with surprises: wrapped in wrapping mode (on the tree only), opened with a click
+  const gifts = useGifts(seed, initialScene ? initialScene.gifts ?? [] : null);
+  const [isWrapping, setIsWrapping] = useState(false);
+  const [selectedBox, setSelectedBox] = useState<number | null>(null);
+  const [shownGift, setShownGift] = useState<GiftSurprise | null>(null);
+  const wrapping = isWrapping && formation === TreeState.FORMED;
+  const selectedGift = gifts.gifts.find((g) => g.box === selectedBox) ?? null;
+
+  const toggleWrapping = () => {
+    if (!wrapping) setTreeState(TreeState.FORMED);
+    setIsDecorating(false);
+    setSelectedBox(null);
+    setIsWrapping(!wrapping);
+  };
+
+  const openGift = (box: number) => {
+    const gift = gifts.gifts.find((g) => g.box === box);
+    if (!gift) return;
+    gifts.markOpened(gift);
+    setShownGift(gift.surprise);
+  };
+
+  // Rendering quality: a fixed tier, or Auto stepping between tiers by measured frame rate
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting);
+  const [autoTier, setAutoTier] = useState<QualityTier>(initialAutoTier);
+  const qualityTier = qualitySetting === 'auto' ? autoTier : qualitySetting;
+  const quality = QUALITY_PRESETS[qualityTier];
+
+  useEffect(() => {
+    saveQualitySetting(qualitySetting);
+  }, [qualitySetting]);
+
+  // Garland lights: on/off and the show they play (saved locally)
+  const [lights, setLights] = useState(loadLightSettings);
+  const lightShow = useMemo(() => resolveLightShow(lights), [lights.showId, lights.customSource]);
+
+  useEffect(() => {
+    saveLightSettings(lights);
+  }, [lights]);
+
+  // Photo slideshow: autoplay, order and transition (saved locally). Holds still while a frame is hovered.
+  const [slideshow, setSlideshow] = useState(loadSlideshowSettings);
+  const [isHoveringPhoto, setIsHoveringPhoto] = useState(false);
+
+  useEffect(() => {
+    saveSlideshowSettings(slideshow);
+  }, [slideshow]);
+
+  const handleQualityChange = (setting: QualitySetting) => {
+    // Auto picks up from whatever tier is showing now
+    if (setting === 'auto') setAutoTier(qualityTier);
+    setQualitySetting(setting);
+  };
+
+  // Last pose reported by the orbit controls, and the pose the camera should jump to (link / history)
+  const [cameraPose, setCameraPose] = useState<CameraPose | undefined>(initialScene?.camera);
+  const [requestedCameraPose, setRequestedCameraPose] = useState<CameraPose | undefined>(initialScene?.camera);
+
+  // Themes: presets plus user-defined ones saved locally. One received through a link or a file is
+  // only kept for this visit; saving a theme is the only way one gets stored.
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+  const [sharedTheme, setSharedTheme] = useState<Theme | null>(initialScene?.customTheme ?? null);
+  const availableThemes = sharedTheme ? [...customThemes.filter(t => t.id !== sharedTheme.id), sharedTheme] : customThemes;
+  const [themeId, setThemeId] = useState(initialScene?.themeId ?? DEFAULT_THEME.id);
+  const theme = findTheme(themeId, availableThemes) ?? DEFAULT_THEME;
+
+  useEffect(() => {
+    saveCustomThemes(customThemes);
+  }, [customThemes]);
+
+  useEffect(() => {
+    applyThemeCssVariables(theme);
+  }, [theme]);
+
+  // Where the tree stands (saved locally); its sky replaces the theme's gradient
+  const [environmentId, setEnvironmentId] = useState<EnvironmentId>(loadEnvironmentId);
+  const background = ENVIRONMENT_PRESETS[environmentId].backdrop.gradient ?? theme.background;
+
+  useEffect(() => {
+    saveEnvironmentId(environmentId);
+  }, [environmentId]);
+
+  // How formation changes run (saved locally); the timeline picks them up from the next change
+  const [timelineSettings, setTimelineSettings] = useState<TimelineSettings>(loadTimelineSettings);
+
+  useEffect(() => {
+    sceneTimeline.configure(timelineSettings);
+    saveTimelineSettings(timelineSettings);
+  }, [timelineSettings]);
+
+  const handleSaveCustomTheme = (input: CustomThemeInput) => {
+    const custom = createCustomTheme(input);
+    setCustomThemes(prev => [...prev.filter(t => t.id !== custom.id), custom]);
+    if (sharedTheme?.id === custom.id) setSharedTheme(null);
+    setThemeId(custom.id);
+  };
+
+  const handleDeleteCustomTheme = (id: string) => {
+    setCustomThemes(prev => prev.filter(t => t.id !== id));
+    if (sharedTheme?.id === id) setSharedTheme(null);
+    if (id === themeId) setThemeId(DEFAULT_THEME.id);
+  };
+
+  const shareablePhotos = userPhotos.filter(p => isShareablePhotoUrl(p.url)).map(toSharedPhoto);
+  const isDefaultSet = userPhotos === DEFAULT_SCENE_PHOTOS;
+  const sceneHash = useSceneHash(
+    {
+      treeState,
+      snowEnabled,
+      snowDensity,
+      photoOffset,
+      seed,
+      // Default photos are implied by an empty list, keeping links short
+      photos: isDefaultSet ? undefined : shareablePhotos,
+      camera: cameraPose,
+      themeId: theme.id,
+      customTheme: isPresetTheme(theme.id) ? undefined : theme,
+      message: message || undefined,
+      gifts: gifts.gifts,
+    },
+    (scene: SceneSnapshot) => {
+      setTreeState(scene.treeState);
+      setSnowEnabled(scene.snowEnabled);
+      setSnowDensity(scene.snowDensity ?? 'normal');
+      // Links never carry local uploads, so a link without photos falls back to the library
+      setLinkPhotos(scene.photos ?? null);
+      setPhotoOffset(scene.photoOffset);
+      setSeed(scene.seed ?? CONFIG.seed);
+      setCameraPose(scene.camera);
+      setRequestedCameraPose(scene.camera);
+      if (scene.customTheme) setSharedTheme(scene.customTheme);
+      setThemeId(scene.themeId ?? DEFAULT_THEME.id);
+      if (scene.message && scene.message !== message) loadMessage(scene.message);
+      gifts.replace(scene.gifts ?? []);
+    }
+  );
+
+  // Scene files (.tree.json): the link's scene plus hand-placed ornaments and local photo references
+  const [sceneFileStatus, setSceneFileStatus] = useState<SceneFileStatus | null>(null);
+
+  const handleSaveScene = () => {
+    const document = createSceneDocument({
+      seed,
+      // Uploaded silhouettes stay local, so without a message the file shows the tree
+      formation: treeState === TreeState.CUSTOM && !message ? TreeState.FORMED : treeState,
+      message: message || undefined,
+      theme,
+      decorations: decorations.decorations,
+      photos: isDefaultSet ? [] : userPhotos.map((photo) => toDocumentPhoto(photo, library.photos)),
+      photoOffset,
+      snowEnabled,
+      snowDensity,
+      camera: cameraPose,
+      gifts: gifts.gifts,
+    });
+    downloadTextFile(sceneDocumentFileName(), serializeSceneDocument(document));
+  };
+
+  const applySceneDocument = (document: SceneDocument) => {
+    const notes: string[] = [];
+    const { tree } = document;
+
+    setSeed(tree.seed);
+    if (tree.message && tree.message !== message) loadMessage(tree.message);
+    setTreeState(tree.formation);
+    if (document.theme.custom) setSharedTheme(document.theme.custom);
+    setThemeId(document.theme.id);
+    decorations.replace(documentDecorations(document));
+    gifts.replace(document.gifts);
+    setSnowEnabled(document.snow.enabled);
+    setSnowDensity(document.snow.density);
+    if (document.camera) {
+      setCameraPose(document.camera);
+      setRequestedCameraPose(document.camera);
+    }
+
+    const { photos, missing } = resolveDocumentPhotos(document, library.photos);
+    setLinkPhotos(photos);
+    setPhotoOffset(document.photoOffset);
+    if (missing.length > 0) {
+      notes.push(`${missing.length} photo${missing.length > 1 ? 's are' : ' is'} not in this device's library: ${missing.join(', ')}.`);
+    }
+    if (tree.height !== CONFIG.treeHeight || tree.radius !== CONFIG.treeRadius) {
+      notes.push('The ornaments were placed on a different-sized tree and have been scaled to fit this one.');
+    }
+    return notes;
+  };
 
-  const toggleState = () => {
-    setTreeState((prev) => (prev === TreeState.CHAOS ? TreeState.FORMED : TreeState.CHAOS));
+  const handleLoadScene = async (file: File) => {
+    try {
+      const document = parseSceneDocument(await file.text());
+      setSceneFileStatus({ kind: 'info', title: `Loaded ${file.name}.`, details: applySceneDocument(document) });
+    } catch (error) {
+      console.error('Could not load the scene file:', error);
+      setSceneFileStatus({
+        kind: 'error',
+        title: `Could not load ${file.name}.`,
+        details: error instanceof SceneDocumentError ? error.problems : ['The file could not be read.'],
+      });
+    }
   };
 
+  // A clean load confirms itself briefly; notes and errors stay until dismissed
+  useEffect(() => {
+    if (sceneFileStatus?.kind !== 'info' || sceneFileStatus.details.length > 0) return;
+    const timer = setTimeout(() => setSceneFileStatus(null), 2500);
+    return () => clearTimeout(timer);
+  }, [sceneFileStatus]);
+
   const toggleSnow = () => {
     setSnowEnabled((prev) => !prev);
   };
 
-  const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files && files.length > 0) {
-      setIsProcessing(true);
-      
-      // Cleanup old object URLs to avoid memory leaks (only if they are blob URLs)
-      userPhotos.forEach(url => {
-        if (url.startsWith('blob:')) {
-          URL.revokeObjectURL(url);
-        }
-      });
-      
-      const newPhotos: string[] = [];
-      const fileArray = Array.from(files);
-
-      // Directly create ObjectURLs
-      fileArray.forEach((file: File) => {
-        if (file.type && file.type.startsWith('image/')) {
-           newPhotos.push(URL.createObjectURL(file));
-        }
+  // Batches that arrive while one is processing (a second drop, a paste) wait their turn. Each
+  // batch's rows follow the earlier ones in the upload list, from `offset`.
+  const uploadQueue = useRef<{ files: File[]; mode: PhotoImportMode; offset: number }[]>([]);
+  const isUploading = useRef(false);
+  const uploadCount = useRef(0);
+
+  const uploadBatch = async (files: File[], mode: PhotoImportMode, offset: number) => {
+    const updateUpload = (index: number, update: Partial<UploadProgress>) => {
+      setUploads(prev => prev.map((u, i) => (i === offset + index ? { ...u, ...update } : u)));
+    };
+    const failBatch = (error: string, onlyDone: boolean) => {
+      setUploads(prev => prev.map((u, i) =>
+        i >= offset && i < offset + files.length && (onlyDone ? u.status === 'done' : u.status !== 'done')
+          ? { ...u, status: 'error', error }
+          : u
+      ));
+    };
+
+    let results;
+    try {
+      // Orient, square and downscale off the main thread, reporting each file as it goes
+      results = await processImageFiles(files, CONFIG.photoProcessing, (index, { progress, error, done }) => {
+        updateUpload(index, {
+          progress,
+          status: error ? 'error' : done ? 'done' : 'processing',
+          error,
+        });
       });
-      
-      if (newPhotos.length > 0) {
-        setUserPhotos(newPhotos);
-        setPhotoOffset(0); // Reset slideshow
+    } catch (error) {
+      console.error('Could not process photos:', error);
+      failBatch('Could not process the photo.', false);
+      return;
+    }
+
+    const processed = results.filter(r => !r.error);
+    if (processed.length === 0) return;
+    try {
+      await library.add(
+        processed.map(({ file, processed }) => ({ file, texture: processed?.texture, thumbnail: processed?.thumbnail })),
+        mode
+      );
+      setLinkPhotos(null); // Own photos replace whatever a link brought in
+      if (mode === 'replace') setPhotoOffset(0); // Reset slideshow
+    } catch (error) {
+      console.error('Could not save photos:', error);
+      failBatch('Could not save the photo to the library.', true);
+    }
+  };
+
+  const processUploadQueue = async () => {
+    isUploading.current = true;
+    setIsProcessing(true);
+    try {
+      for (let batch = uploadQueue.current.shift(); batch; batch = uploadQueue.current.shift()) {
+        await uploadBatch(batch.files, batch.mode, batch.offset);
       }
-      
+    } finally {
+      isUploading.current = false;
       setIsProcessing(false);
     }
   };
 
+  const handlePhotoUpload = (files: File[], mode: PhotoImportMode) => {
+    if (files.length === 0) return;
+    const queued = files.map((file): UploadProgress => ({ name: file.name, status: 'queued', progress: 0 }));
+    if (isUploading.current) {
+      setUploads(prev => [...prev, ...queued]);
+    } else {
+      uploadCount.current = 0;
+      setUploads(queued);
+    }
+    uploadQueue.current.push({ files, mode, offset: uploadCount.current });
+    uploadCount.current += files.length;
+    if (!isUploading.current) void processUploadQueue();
+  };
+
+  // Dropped folders/files and pasted images wait for an add-vs-replace choice. More arriving while
+  // it's asked join the same batch, so nothing is dropped without the choice.
+  const [pendingImport, setPendingImport] = useState<IncomingFiles | null>(null);
+  const { isDragging } = usePhotoDrop((incoming) => setPendingImport(prev => prev
+    ? { images: [...prev.images, ...incoming.images], skipped: prev.skipped + incoming.skipped }
+    : incoming));
+
+  const handleImportChoice = (mode: PhotoImportMode) => {
+    if (pendingImport) handlePhotoUpload(pendingImport.images, mode);
+    setPendingImport(null);
+  };
+
+  // A clean batch clears itself; batches with errors stay until dismissed
+  useEffect(() => {
+    if (isProcessing || uploads.length === 0 || uploads.some(u => u.status === 'error')) return;
+    const timer = setTimeout(() => setUploads([]), 2500);
+    return () => clearTimeout(timer);
+  }, [isProcessing, uploads]);
+
+  // Lightbox: the clicked frame flies to the camera; arrows/swipes page through the whole library
+  const [inspection, setInspection] = useState<PhotoInspection | null>(null);
+
+  useEffect(() => {
+    // Photo deleted or list swapped underneath the lightbox
+    if (inspection && inspection.photoIndex >= userPhotos.length) setInspection(null);
+  }, [inspection, userPhotos.length]);
+
+  const stepInspection = (direction: 1 | -1) => {
+    setInspection(prev => prev && {
+      ...prev,
+      photoIndex: (prev.photoIndex + direction + userPhotos.length) % userPhotos.length,
+    });
+  };
+
+  useLightboxNavigation(inspection !== null, {
+    onPrev: () => stepInspection(-1),
+    onNext: () => stepInspection(1),
+    onClose: () => setInspection(null),
+  });
+
+  // Presentation: the camera director plays its shots, each setting the formation it needs.
+  // Stopping puts back the formation from before. Neither adds history entries, so Back after a
+  // presentation goes to the scene before it rather than through the shots.
+  const director = useCameraDirector();
+  const formationBeforePresenting = useRef<TreeState | null>(null);
+
+  useEffect(() => {
+    if (director.status === 'idle') {
+      if (formationBeforePresenting.current !== null) {
+        sceneHash.replaceNext();
+        setTreeState(formationBeforePresenting.current);
+      }
+      formationBeforePresenting.current = null;
+    } else if (director.shot) {
+      sceneHash.replaceNext();
+      setTreeState(director.shot.formation);
+    }
+  }, [director.status, director.shot]);
+
+  const togglePresenting = () => {
+    if (director.status !== 'idle') {
+      director.stop();
+      return;
+    }
+    formationBeforePresenting.current = treeState;
+    setIsDecorating(false);
+    setIsWrapping(false);
+    setInspection(null);
+    director.play();
+  };
+
   const handleNextPhoto = () => {
     if (userPhotos.length === 0) return;
     setPhotoOffset(prev => (prev + 1) % userPhotos.length);
   };
 
+  // Slideshow and kiosk steps aren't the visitor's: they replace the history entry instead of adding one
+  const autoNextPhoto = () => {
+    sceneHash.replaceNext();
+    handleNextPhoto();
+  };
+
   const handlePrevPhoto = () => {
     if (userPhotos.length === 0) return;
     setPhotoOffset(prev => (prev - 1 + userPhotos.length) % userPhotos.length);
   };
 
+  const photoOrder = useSlideshow(slideshow, userPhotos.length, seed, isHoveringPhoto || inspection !== null, {
+    onStep: autoNextPhoto,
+    onFinish: () => setSlideshow(prev => ({ ...prev, playing: false })),
+  });
+
+  // Countdown to an event (?now=... in the URL sets the clock, to rehearse the finale). At zero the
+  // tree bursts and fireworks go up; after `finaleSeconds` it re-forms. Neither change is the
+  // visitor's, so both replace the history entry.
+  const [countdownSettings, setCountdownSettings] = useState(loadCountdownSettings);
+  const [countdownClock] = useState(() => clockFromUrl(window.location.search) ?? systemClock);
+  const [finale, setFinale] = useState<{ greeting: string; startedAt: number } | null>(null);
+
+  useEffect(() => {
+    saveCountdownSettings(countdownSettings);
+  }, [countdownSettings]);
+
+  const countdown = useCountdown(countdownSettings, countdownClock, {
+    onZero: (event) => {
+      // The finale takes over the scene: no presentation to put a formation back afterwards
+      formationBeforePresenting.current = null;
+      director.stop();
+      setInspection(null);
+      setIsDecorating(false);
+      setIsWrapping(false);
+      setShownGift(null);
+      sceneHash.replaceNext();
+      setTreeState(TreeState.CHAOS);
+      setFinale({ greeting: event.greeting, startedAt: timelineNow() });
+    },
+  });
+
+  useEffect(() => {
+    if (!finale) return;
+    const timer = window.setTimeout(() => {
+      sceneHash.replaceNext();
+      setTreeState(TreeState.FORMED);
+      setFinale(null);
+    }, CONFIG.countdown.finaleSeconds * 1000);
+    return () => window.clearTimeout(timer);
+  }, [finale]);
+
+  // Kiosk mode (?kiosk in the URL, or the saved setting): runs the show unattended with the UI hidden.
+  // Its changes replace the history entry, so a screen left running all day doesn't pile them up.
+  const [kioskEnabled, setKioskEnabled] = useState(() => kioskFromUrl(window.location.search) ?? loadKioskSetting());
+  const kiosk = useKioskMode(kioskEnabled, treeState === TreeState.CHAOS, {
+    onCycleFormation: () => {
+      // The finale re-forms the tree itself
+      if (finale) return;
+      sceneHash.replaceNext();
+      setTreeState(prev => (prev === TreeState.CHAOS ? TreeState.FORMED : TreeState.CHAOS));
+    },
+    // A playing slideshow already keeps the photos moving
+    onNextPhoto: () => {
+      if (!slideshow.playing) autoNextPhoto();
+    },
+    onTakeOver: () => {
+      setInspection(null);
+      setIsDecorating(false);
+      setIsWrapping(false);
+      setShownGift(null);
+      director.stop();
+    },
+  });
+
+  const toggleKiosk = () => {
+    saveKioskSetting(!kioskEnabled);
+    setKioskEnabled(!kioskEnabled);
+  };
+
   return (
     <>
-      <div className="w-full h-full relative bg-gradient-to-b from-[#001005] to-[#002010]">
-        <AppErrorBoundary>
+      <div
+        className="w-full h-full relative"
+        style={{
+          background: `linear-gradient(to bottom, ${background.top}, ${background.bottom})`,
+          cursor: kiosk.isUnattended ? 'none' : undefined,
+        }}
+      >
+        {/* Keyed so the kiosk can rebuild the canvas (and clear a crash) without a reload */}
+        <AppErrorBoundary key={kiosk.canvasKey} onError={kiosk.onCanvasError}>
           <Canvas
-            shadows
-            dpr={[1, 2]} // Limit DPR to 2 for performance
+            onCreated={({ gl }) => kiosk.onCanvasCreated(gl)}
+            shadows={quality.shadows}
+            dpr={quality.dpr} // Never above 2, even on Ultra
             camera={{ position: [0, 4, 20], fov: 45 }}
             gl={{ antialias: false, stencil: false, alpha: false }}
           >
             <Suspense fallback={null}>
               <Experience 
-                treeState={treeState} 
+                treeState={formation} 
                 snowEnabled={snowEnabled}
-                userPhotos={userPhotos}
+                snowDensity={snowDensity}
+                photos={userPhotos}
                 photoOffset={photoOffset}
+                photoOrder={photoOrder}
+                photoTransition={slideshow.transition}
+                onPhotoHoverChange={setIsHoveringPhoto}
+                theme={theme}
+                environmentId={environmentId}
+                seed={seed}
+                inspection={inspection}
+                onInspect={setInspection}
+                cameraPose={requestedCameraPose}
+                onCameraChange={setCameraPose}
+                customShape={silhouette?.shape}
+                qualityTier={qualityTier}
+                onAutoQualityChange={qualitySetting === 'auto' ? setAutoTier : undefined}
+                decorations={decorations.decorations}
+                lightShow={lights.enabled ? lightShow : null}
+                fireworksAt={finale?.startedAt ?? null}
+                gifts={{
+                  wrapped: gifts.gifts.map((g) => g.box),
+                  opened: gifts.openedBoxes,
+                  onOpen: openGift,
+                  wrapping: wrapping ? { selected: selectedBox, onPick: setSelectedBox } : undefined,
+                }}
+                decorating={decorating ? {
+                  onPlace: (position) => decorations.place(decorKind, decorColor, position),
+                  onDrag: decorations.drag,
+                  onDrop: decorations.drop,
+                  onRemove: decorations.remove,
+                } : undefined}
               />
             </Suspense>
           </Canvas>
         </AppErrorBoundary>
         
         <Overlay 
-          treeState={treeState} 
-          onToggle={toggleState} 
+          treeState={formation} 
+          onSelectFormation={setTreeState} 
+          hasCustomShape={silhouette !== null}
+          message={message}
+          isDrawingShape={isDrawingShape}
+          shapeError={shapeError}
+          onSpellMessage={(text) => applySilhouette(() => silhouetteFromText(text))}
+          onUploadShape={(file) => applySilhouette(() => silhouetteFromImage(file))}
           snowEnabled={snowEnabled}
           onToggleSnow={toggleSnow}
+          snowDensity={snowDensity}
+          onSnowDensityChange={setSnowDensity}
           onUploadPhotos={handlePhotoUpload}
+          libraryPhotos={library.photos}
+          onDeletePhoto={(id) => reportLibraryError(library.remove(id), 'Could not delete the photo.')}
+          onReorderPhotos={(ids) => reportLibraryError(library.reorder(ids), 'Could not save the new photo order.')}
+          onUpdatePhoto={(id, patch) => reportLibraryError(library.update(id, patch), 'Could not save the caption.')}
+          libraryError={libraryError}
+          onDismissLibraryError={() => setLibraryError(null)}
+          defaultCaptionColor={theme.frame.caption}
           hasPhotos={userPhotos.length > 0}
           onNextPhoto={handleNextPhoto}
           onPrevPhoto={handlePrevPhoto}
+          slideshow={slideshow}
+          onSlideshowChange={setSlideshow}
+          countdown={countdownSettings}
+          onCountdownChange={setCountdownSettings}
+          lightbox={inspection && userPhotos[inspection.photoIndex]
+            ? { photo: userPhotos[inspection.photoIndex], index: inspection.photoIndex, total: userPhotos.length }
+            : null}
+          onLightboxPrev={() => stepInspection(-1)}
+          onLightboxNext={() => stepInspection(1)}
+          onCloseLightbox={() => setInspection(null)}
           isProcessing={isProcessing}
+          uploads={uploads}
+          onDismissUploads={() => setUploads([])}
+          themes={[...THEME_PRESETS, ...availableThemes]}
+          activeThemeId={theme.id}
+          onSelectTheme={setThemeId}
+          onSaveCustomTheme={handleSaveCustomTheme}
+          onDeleteCustomTheme={handleDeleteCustomTheme}
+          seed={seed}
+          onSeedChange={setSeed}
+          onShuffleSeed={() => setSeed(randomSeed())}
+          qualitySetting={qualitySetting}
+          qualityTier={qualityTier}
+          onQualityChange={handleQualityChange}
+          environmentId={environmentId}
+          onEnvironmentChange={setEnvironmentId}
+          timelineSettings={timelineSettings}
+          onTimelineChange={setTimelineSettings}
+          isDecorating={decorating}
+          onToggleDecorating={toggleDecorating}
+          decorKind={decorKind}
+          onDecorKindChange={setDecorKind}
+          decorColor={decorColor}
+          onDecorColorChange={setDecorColor}
+          decorationCount={decorations.decorations.length}
+          canUndo={decorations.canUndo}
+          canRedo={decorations.canRedo}
+          onUndo={decorations.undo}
+          onRedo={decorations.redo}
+          onClearDecorations={decorations.clear}
+          isWrapping={wrapping}
+          onToggleWrapping={toggleWrapping}
+          giftEditor={{
+            selectedBox,
+            surprise: selectedGift?.surprise ?? null,
+            wrappedCount: gifts.gifts.length,
+            photos: userPhotos,
+            onSave: (surprise) => {
+              if (selectedBox !== null) gifts.wrap(selectedBox, surprise);
+            },
+            onRemove: () => {
+              if (selectedBox !== null) gifts.wrap(selectedBox, null);
+            },
+          }}
+          lights={lights}
+          onLightsChange={setLights}
+          isHidden={kiosk.isUnattended}
+          isKiosk={kioskEnabled}
+          onToggleKiosk={toggleKiosk}
+          isPresenting={director.status !== 'idle'}
+          onTogglePresenting={togglePresenting}
+          onSaveScene={handleSaveScene}
+          onLoadScene={handleLoadScene}
+          sceneFileStatus={sceneFileStatus}
+          onDismissSceneFileStatus={() => setSceneFileStatus(null)}
         />
         
+        <CountdownDisplay countdown={countdown} celebrating={finale?.greeting ?? null} />
+        {shownGift && <GiftCard surprise={shownGift} library={library.photos} onClose={() => setShownGift(null)} />}
+
+        {isDragging && <DropZone />}
+        {pendingImport && (
+          <ImportPrompt
+            imageCount={pendingImport.images.length}
+            skippedCount={pendingImport.skipped}
+            onChoose={handleImportChoice}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         <Loader 
-          containerStyles={{ background: '#001005' }}
-          innerStyles={{ border: '1px solid #FFD700', width: '200px' }}
-          barStyles={{ background: '#FFD700' }}
-          dataStyles={{ fontFamily: 'Cinzel', color: '#FFD700' }}
+          containerStyles={{ background: theme.background.top }}
+          innerStyles={{ border: `1px solid ${theme.ui.accent}`, width: '200px' }}
+          barStyles={{ background: theme.ui.accent }}
+          dataStyles={{ fontFamily: 'Cinzel', color: theme.ui.accent }}
         />
       </div>
     </>
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Environment, Lightformer } from '@react-three/drei';
+import * as THREE from 'three';
+import { EnvironmentPreset } from '../types';
+import { createRng } from '../utils/random';
+
+interface BackdropProps {
+  environment: EnvironmentPreset;
+  // Sky colors when the environment has no gradient of its own
+  themeBackground: { top: string; bottom: string };
+}
+
+const SKY_RADIUS = 250;
+const FLOOR_RADIUS = 90;
+
+// Reflections for the metal and glass: a cube map rendered once from the preset's glowing panels
+const Reflections: React.FC<{ environment: EnvironmentPreset }> = ({ environment }) => (
+  // Remounted per preset, so the one-frame capture runs again
+  <Environment key={environment.id} frames={1} resolution={256} background={false}>
+    <color attach="background" args={[environment.reflections.background]} />
+    {environment.reflections.lightformers.map((former, i) => (
+      <Lightformer
+        key={i}
+        form={former.form}
+        position={former.position}
+        scale={former.scale}
+        color={former.color}
+        intensity={former.intensity}
+      />
+    ))}
+  </Environment>
+);
+
+// Vertical gradient on the inside of a big sphere, behind everything else
+const Sky: React.FC<{ top: string; bottom: string }> = ({ top, bottom }) => {
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTop: { value: new THREE.Color() },
+      uBottom: { value: new THREE.Color() },
+    },
+    vertexShader: `
+      varying float vHeight;
+      void main() {
+        vHeight = normalize(position).y;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform vec3 uTop;
+      uniform vec3 uBottom;
+      varying float vHeight;
+      void main() {
+        // Horizon color below the horizon, fading to the top color overhead
+        gl_FragColor = vec4(mix(uBottom, uTop, smoothstep(-0.05, 0.6, vHeight)), 1.0);
+      }
+    `,
+    side: THREE.BackSide,
+    depthWrite: false,
+  }), []);
+
+  useEffect(() => {
+    material.uniforms.uTop.value.set(top).convertLinearToSRGB();
+    material.uniforms.uBottom.value.set(bottom).convertLinearToSRGB();
+  }, [material, top, bottom]);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  return (
+    <mesh material={material} renderOrder={-2} frustumCulled={false}>
+      <sphereGeometry args={[SKY_RADIUS, 32, 16]} />
+    </mesh>
+  );
+};
+
+// A ring of snowed-in cottages with lit windows, all facing the tree
+const Village: React.FC = () => {
+  const houses = useMemo(() => {
+    const random = createRng(1, 'village');
+    return Array.from({ length: 16 }, (_, i) => {
+      const angle = (i / 16) * Math.PI * 2 + (random() - 0.5) * 0.25;
+      const distance = 38 + random() * 18;
+      const x = Math.sin(angle) * distance;
+      const z = Math.cos(angle) * distance;
+      return {
+        position: [x, 0, z] as [number, number, number],
+        facing: Math.atan2(-x, -z),
+        width: 4 + random() * 3,
+        height: 3 + random() * 2,
+        depth: 4 + random() * 2,
+        windows: 1 + Math.floor(random() * 3),
+      };
+    });
+  }, []);
+
+  return (
+    <group>
+      {houses.map((house, i) => (
+        <group key={i} position={house.position} rotation={[0, house.facing, 0]}>
+          <mesh position={[0, house.height / 2, 0]}>
+            <boxGeometry args={[house.width, house.height, house.depth]} />
+            <meshStandardMaterial color="#3A2A22" roughness={0.9} />
+          </mesh>
+          {/* Four-sided cone turned square to the walls makes the roof */}
+          <mesh position={[0, house.height + 1.2, 0]} rotation={[0, Math.PI / 4, 0]} scale={[house.width * 0.75, 2.4, house.depth * 0.75]}>
+            <coneGeometry args={[1, 1, 4]} />
+            <meshStandardMaterial color="#E8EEF6" roughness={1} />
+          </mesh>
+          {Array.from({ length: house.windows }, (_, w) => (
+            <mesh key={w} position={[((w + 0.5) / house.windows - 0.5) * house.width * 0.8, house.height * 0.5, house.depth / 2 + 0.02]}>
+              <planeGeometry args={[0.8, 1]} />
+              <meshBasicMaterial color={[2.2, 1.3, 0.5]} toneMapped={false} />
+            </mesh>
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// A brick fireplace behind the tree, its fire flickering on its own light
+const Hearth: React.FC = () => {
+  const lightRef = useRef<THREE.PointLight>(null);
+  const fireRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  useFrame((state) => {
+    const t = state.clock.elapsedTime;
+    const flicker = 0.8 + 0.12 * Math.sin(t * 7.3) + 0.08 * Math.sin(t * 13.1 + 1.7);
+    if (lightRef.current) lightRef.current.intensity = 60 * flicker;
+    if (fireRef.current) fireRef.current.color.setRGB(3 * flicker, 1.2 * flicker, 0.3 * flicker);
+  });
+
+  return (
+    <group position={[0, 0, -20]}>
+      <mesh position={[0, 3, 0]}>
+        <boxGeometry args={[9, 6, 1.5]} />
+        <meshStandardMaterial color="#5A2E20" roughness={0.95} />
+      </mesh>
+      {/* Mantel */}
+      <mesh position={[0, 6.2, 0.3]}>
+        <boxGeometry args={[10, 0.4, 2]} />
+        <meshStandardMaterial color="#2A1A10" roughness={0.6} />
+      </mesh>
+      <mesh position={[0, 1.5, 0.76]}>
+        <planeGeometry args={[4, 2.6]} />
+        <meshBasicMaterial ref={fireRef} toneMapped={false} />
+      </mesh>
+      <pointLight ref={lightRef} position={[0, 1.5, 2]} color="#FF7A2E" distance={30} decay={2} />
+    </group>
+  );
+};
+
+// Gilded columns ringing the dance floor
+const Columns: React.FC = () => (
+  <group>
+    {Array.from({ length: 12 }, (_, i) => {
+      const angle = (i / 12) * Math.PI * 2;
+      return (
+        <group key={i} position={[Math.sin(angle) * 34, 0, Math.cos(angle) * 34]}>
+          <mesh position={[0, 9, 0]}>
+            <cylinderGeometry args={[0.8, 0.9, 18, 20]} />
+            <meshStandardMaterial color="#E8DCC4" roughness={0.4} />
+          </mesh>
+          {[0.3, 17.7].map((y) => (
+            <mesh key={y} position={[0, y, 0]}>
+              <boxGeometry args={[2.2, 0.6, 2.2]} />
+              <meshStandardMaterial color="#B8912F" metalness={0.8} roughness={0.3} />
+            </mesh>
+          ))}
+        </group>
+      );
+    })}
+  </group>
+);
+
+// Everything around the tree that comes with the environment: reflections, sky, floor, scenery.
+// Sits at the scene group's floor level but doesn't turn with it.
+const Backdrop: React.FC<BackdropProps> = ({ environment, themeBackground }) => {
+  const { top, bottom } = environment.backdrop.gradient ?? themeBackground;
+  const { floor } = environment.ground;
+
+  return (
+    <>
+      <Reflections environment={environment} />
+      <Sky top={top} bottom={bottom} />
+
+      <group position={[0, -5, 0]}>
+        {floor && (
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.02, 0]} receiveShadow>
+            <circleGeometry args={[FLOOR_RADIUS, 64]} />
+            <meshStandardMaterial color={floor.color} roughness={floor.roughness} metalness={floor.metalness} />
+          </mesh>
+        )}
+        {environment.backdrop.scenery === 'village' && <Village />}
+        {environment.backdrop.scenery === 'hearth' && <Hearth />}
+        {environment.backdrop.scenery === 'columns' && <Columns />}
+      </group>
+    </>
+  );
+};
+
+export default Backdrop;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { CountdownSettings } from '../types';
+import { COUNTDOWN_EVENTS, isCountdownEventId } from '../utils/countdown';
+
+interface CountdownControlProps {
+  settings: CountdownSettings;
+  onChange: (settings: CountdownSettings) => void;
+}
+
+const inputClass = 'bg-black/20 border border-luxury-gold/30 rounded-sm px-2 py-1 text-luxury-gold outline-none focus:border-luxury-gold backdrop-blur-sm';
+
+// Countdown on/off and what it counts to (the clock itself is shown by CountdownDisplay)
+const CountdownControl: React.FC<CountdownControlProps> = ({ settings, onChange }) => (
+  <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <button
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+      aria-pressed={settings.enabled}
+      title="Count down to an event; at zero the tree bursts into fireworks"
+      className={`px-2 py-1 rounded-sm border transition-all backdrop-blur-sm ${
+        settings.enabled
+          ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+          : 'bg-black/20 text-luxury-gold border-luxury-gold/30 hover:border-luxury-gold'
+      }`}
+    >
+      Countdown
+    </button>
+    {settings.enabled && (
+      <>
+        <select
+          value={settings.event}
+          onChange={(e) => {
+            if (isCountdownEventId(e.target.value)) onChange({ ...settings, event: e.target.value });
+          }}
+          aria-label="Count down to"
+          className={`${inputClass} uppercase`}
+        >
+          {COUNTDOWN_EVENTS.map(({ id, label }) => (
+            <option key={id} value={id} className="bg-black">{label}</option>
+          ))}
+        </select>
+        {settings.event === 'custom' && (
+          <>
+            <input
+              type="text"
+              value={settings.customLabel}
+              maxLength={40}
+              placeholder="Event name"
+              onChange={(e) => onChange({ ...settings, customLabel: e.target.value })}
+              aria-label="Event name"
+              className={`${inputClass} w-32 normal-case tracking-normal placeholder:text-luxury-gold/40`}
+            />
+            <input
+              type="datetime-local"
+              value={settings.customTarget}
+              onChange={(e) => onChange({ ...settings, customTarget: e.target.value })}
+              aria-label="Event date and time"
+              className={`${inputClass} normal-case tracking-normal [color-scheme:dark]`}
+            />
+          </>
+        )}
+      </>
+    )}
+  </div>
+);
+
+export default CountdownControl;
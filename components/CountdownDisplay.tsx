@@ -0,0 +1,40 @@
+import React from 'react';
+import { CountdownState } from '../hooks/useCountdown';
+import { splitRemaining } from '../utils/countdown';
+
+interface CountdownDisplayProps {
+  countdown: CountdownState | null;
+  // Greeting for the event that just arrived, while its finale plays
+  celebrating: string | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Time left to the event, big and centred. Stays up in kiosk mode, when the other controls hide.
+const CountdownDisplay: React.FC<CountdownDisplayProps> = ({ countdown, celebrating }) => {
+  if (celebrating) {
+    return (
+      <div className="absolute top-16 inset-x-0 z-10 text-center pointer-events-none" aria-live="polite">
+        <p className="font-display text-4xl md:text-5xl tracking-widest text-luxury-goldLight drop-shadow-[0_0_18px_rgba(255,215,0,0.6)] animate-pulse">
+          {celebrating}
+        </p>
+      </div>
+    );
+  }
+
+  const target = countdown?.target;
+  if (!countdown || !target || countdown.remainingMs <= 0) return null;
+  const { days, hours, minutes, seconds } = splitRemaining(countdown.remainingMs);
+
+  return (
+    <div className="absolute top-16 inset-x-0 z-10 text-center pointer-events-none">
+      <p className="font-display text-xs tracking-[0.3em] uppercase text-luxury-gold/70">{target.label} in</p>
+      <p className="font-display text-3xl md:text-4xl tracking-widest text-luxury-goldLight tabular-nums" role="timer">
+        {days > 0 && <span>{days}d </span>}
+        {pad(hours)}:{pad(minutes)}:{pad(seconds)}
+      </p>
+    </div>
+  );
+};
+
+export default CountdownDisplay;
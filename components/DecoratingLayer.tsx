@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CONFIG, PlacedOrnament } from '../types';
+
+type Vec3 = [number, number, number];
+
+export interface DecoratingHandlers {
+  onPlace: (position: Vec3) => void;
+  onDrag: (id: string, position: Vec3) => void;
+  onDrop: () => void;
+  onRemove: (id: string) => void;
+}
+
+interface DecoratingLayerProps extends DecoratingHandlers {
+  decorations: PlacedOrnament[];
+  // Lets the scene hold the camera still while an ornament is being dragged
+  onDraggingChange: (isDragging: boolean) => void;
+}
+
+const CLICK_TOLERANCE = 4; // px; more than this between press and release is an orbit, not a click
+
+/**
+ * Decorating mode's hit targets: an invisible cone over the foliage to hang ornaments on and
+ * drag them across, plus an invisible handle on every hand-placed ornament (the instances are
+ * posed on the GPU, so they can't be picked directly). Click places, drag moves, right-click removes.
+ */
+const DecoratingLayer: React.FC<DecoratingLayerProps> = ({ decorations, onPlace, onDrag, onDrop, onRemove, onDraggingChange }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [isOverTree, setIsOverTree] = useState(false);
+
+  const handlersRef = useRef({ onDrop, onDraggingChange });
+  handlersRef.current = { onDrop, onDraggingChange };
+
+  // Hit points come in world space; decorations live in the scene group's space
+  const toLocal = (point: THREE.Vector3): Vec3 => {
+    const local = groupRef.current ? groupRef.current.worldToLocal(point.clone()) : point;
+    return [local.x, local.y, local.z];
+  };
+
+  // The drag ends wherever the pointer is released, on the tree or not
+  useEffect(() => {
+    if (!draggingId) return;
+    handlersRef.current.onDraggingChange(true);
+
+    const handlePointerUp = () => {
+      handlersRef.current.onDrop();
+      setDraggingId(null);
+    };
+
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      handlersRef.current.onDraggingChange(false);
+    };
+  }, [draggingId]);
+
+  useEffect(() => {
+    document.body.style.cursor = draggingId ? 'grabbing' : hoveredId ? 'grab' : isOverTree ? 'crosshair' : 'auto';
+  }, [draggingId, hoveredId, isOverTree]);
+
+  useEffect(() => () => {
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  const handleTreeClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_TOLERANCE || e.nativeEvent.button !== 0) return;
+    e.stopPropagation();
+    onPlace(toLocal(e.point));
+  };
+
+  const handleTreeMove = (e: ThreeEvent<PointerEvent>) => {
+    if (draggingId) onDrag(draggingId, toLocal(e.point));
+  };
+
+  const handleOrnamentDown = (id: string) => (e: ThreeEvent<PointerEvent>) => {
+    if (e.nativeEvent.button !== 0) return;
+    e.stopPropagation();
+    setDraggingId(id);
+  };
+
+  const handleOrnamentContextMenu = (id: string) => (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    e.nativeEvent.preventDefault();
+    onRemove(id);
+  };
+
+  const { treeHeight, treeRadius } = CONFIG;
+
+  return (
+    <group ref={groupRef}>
+      {/* The tree's surface (open cone, base at y=0) */}
+      <mesh
+        position={[0, treeHeight / 2, 0]}
+        onClick={handleTreeClick}
+        onPointerMove={handleTreeMove}
+        onPointerOver={() => setIsOverTree(true)}
+        onPointerOut={() => setIsOverTree(false)}
+      >
+        <coneGeometry args={[treeRadius, treeHeight, 48, 1, true]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      {decorations.map(({ id, position }) => (
+        <mesh
+          key={id}
+          position={position}
+          onPointerDown={handleOrnamentDown(id)}
+          // Swallow the click so releasing on the ornament doesn't hang another one
+          onClick={(e) => e.stopPropagation()}
+          onContextMenu={handleOrnamentContextMenu(id)}
+          onPointerOver={() => setHoveredId(id)}
+          onPointerOut={() => setHoveredId((prev) => (prev === id ? null : prev))}
+        >
+          <sphereGeometry args={[0.6, 8, 8]} />
+          <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default DecoratingLayer;
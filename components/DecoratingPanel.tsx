@@ -0,0 +1,93 @@
+import React from 'react';
+import { CONFIG, OrnamentKind } from '../types';
+import { ORNAMENT_KINDS } from '../utils/decorations';
+
+interface DecoratingPanelProps {
+  kind: OrnamentKind;
+  onKindChange: (kind: OrnamentKind) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  count: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+}
+
+const actionButton = `
+  px-3 py-1 border border-luxury-gold/50 text-luxury-gold/80 rounded-sm
+  hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold transition-all
+  disabled:opacity-40 disabled:pointer-events-none
+`;
+
+// Pick an ornament and a color, then hang it on the tree by hand
+const DecoratingPanel: React.FC<DecoratingPanelProps> = ({
+  kind,
+  onKindChange,
+  color,
+  onColorChange,
+  count,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClear,
+}) => (
+  <div className="w-[min(34rem,92vw)] mb-6 p-3 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <div role="radiogroup" aria-label="Ornament" className="flex flex-wrap gap-2">
+      {ORNAMENT_KINDS.map(({ id, label }) => (
+        <button
+          key={id}
+          role="radio"
+          aria-checked={id === kind}
+          onClick={() => onKindChange(id)}
+          className={`px-3 py-1 rounded-sm border transition-all ${
+            id === kind
+              ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+              : 'border-luxury-gold/40 text-luxury-gold/80 hover:border-luxury-gold'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+
+    <div className="mt-3 flex items-center gap-3">
+      <div role="radiogroup" aria-label="Ornament color" className="flex gap-1.5">
+        {CONFIG.decorating.palette.map((swatch) => (
+          <button
+            key={swatch}
+            role="radio"
+            aria-checked={swatch === color}
+            aria-label={swatch}
+            onClick={() => onColorChange(swatch)}
+            style={{ background: swatch }}
+            className={`w-5 h-5 rounded-full border transition-all ${
+              swatch === color ? 'border-luxury-goldLight scale-110 ring-1 ring-luxury-gold' : 'border-black/40 hover:scale-110'
+            }`}
+          />
+        ))}
+      </div>
+
+      <div className="ml-auto flex gap-2">
+        <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className={actionButton}>
+          Undo
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className={actionButton}>
+          Redo
+        </button>
+        <button onClick={onClear} disabled={count === 0} className={actionButton}>
+          Clear
+        </button>
+      </div>
+    </div>
+
+    <p className="mt-2 normal-case tracking-normal text-luxury-gold/50">
+      Click the tree to hang an ornament, drag to move it, right-click to take it off.{' '}
+      {count} / {CONFIG.decorating.maxPlaced} placed.
+    </p>
+  </div>
+);
+
+export default DecoratingPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useCameraDirector } from '../hooks/useCameraDirector';
+
+interface DirectorBarProps {
+  onStop: () => void;
+}
+
+const actionButton = `
+  px-3 py-1 border border-luxury-gold/50 text-luxury-gold/80 rounded-sm
+  hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold transition-all
+`;
+
+// The running presentation: which shot is on, and pause / resume / stop
+const DirectorBar: React.FC<DirectorBarProps> = ({ onStop }) => {
+  const { status, shot, shotIndex, shotCount, pause, resume } = useCameraDirector();
+  if (status === 'idle' || !shot) return null;
+
+  return (
+    <div className="mb-6 px-3 py-2 flex items-center gap-3 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <span aria-live="polite">
+        {shotIndex + 1}/{shotCount} · {shot.label}
+      </span>
+      {status === 'paused' && <span className="text-luxury-gold/50 normal-case tracking-normal">You have the camera</span>}
+      {status === 'playing' ? (
+        <button onClick={pause} className={actionButton}>
+          Pause
+        </button>
+      ) : (
+        <button onClick={resume} className={actionButton}>
+          Resume
+        </button>
+      )}
+      <button onClick={onStop} className={actionButton}>
+        Stop
+      </button>
+    </div>
+  );
+};
+
+export default DirectorBar;
@@ -0,0 +1,78 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { CameraPose, TreeState } from '../types';
+import { getStarPosition } from '../utils/formations';
+import { generatePhotoLayout } from '../utils/layouts';
+import { buildShotSequence, cameraDirector } from '../utils/cameraDirector';
+
+interface DirectorCameraProps {
+  seed: number;
+  // Photo frames on the tree, for the fly-by
+  photoCount: number;
+}
+
+const inverse = new THREE.Matrix4();
+const worldTarget = new THREE.Vector3();
+const scratch = new THREE.Vector3();
+
+// Flies the camera along the director's shots while a presentation plays. Lives inside the scene
+// group, so the shots (written in the group's space) follow it when it turns. Pressing on the
+// canvas or scrolling pauses the presentation and hands the camera straight to the orbit controls.
+const DirectorCamera: React.FC<DirectorCameraProps> = ({ seed, photoCount }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+  const domElement = useThree((state) => state.gl.domElement);
+  const current = useMemo<CameraPose>(() => ({ position: [0, 0, 0], target: [0, 0, 0] }), []);
+  const pose = useMemo<CameraPose>(() => ({ position: [0, 0, 0], target: [0, 0, 0] }), []);
+  const lastTarget = useRef(new THREE.Vector3());
+
+  useEffect(() => {
+    const photos = generatePhotoLayout(photoCount, seed).map((targets) => targets[TreeState.FORMED].position);
+    cameraDirector.setShots(buildShotSequence({ star: getStarPosition(TreeState.FORMED), photos }));
+  }, [seed, photoCount]);
+
+  useEffect(() => {
+    // Capture phase, so the controls are already on when their own listener sees the same press
+    const takeOver = () => {
+      if (cameraDirector.getState().status !== 'playing') return;
+      cameraDirector.pause();
+      if (controls) {
+        controls.enabled = true;
+        controls.target.copy(lastTarget.current);
+      }
+    };
+    domElement.addEventListener('pointerdown', takeOver, { capture: true });
+    domElement.addEventListener('wheel', takeOver, { capture: true, passive: true });
+    return () => {
+      domElement.removeEventListener('pointerdown', takeOver, { capture: true });
+      domElement.removeEventListener('wheel', takeOver, { capture: true });
+    };
+  }, [domElement, controls]);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group || cameraDirector.getState().status !== 'playing') return;
+
+    // Where the camera is now, in the group's space (for blending into the next shot)
+    group.updateWorldMatrix(true, false);
+    inverse.copy(group.matrixWorld).invert();
+    scratch.copy(camera.position).applyMatrix4(inverse).toArray(current.position);
+    scratch.copy(controls?.target ?? lastTarget.current).applyMatrix4(inverse).toArray(current.target);
+
+    if (!cameraDirector.advance(Math.min(delta, 0.1), current, pose)) return;
+
+    camera.position.set(...pose.position).applyMatrix4(group.matrixWorld);
+    worldTarget.set(...pose.target).applyMatrix4(group.matrixWorld);
+    camera.lookAt(worldTarget);
+    lastTarget.current.copy(worldTarget);
+    // Keep the controls looking at the same spot, so taking over doesn't jump
+    controls?.target.copy(worldTarget);
+  });
+
+  return <group ref={groupRef} />;
+};
+
+export default DirectorCamera;
@@ -0,0 +1,13 @@
+import React from 'react';
+
+// Full-screen hint while files are dragged over the page (the window handles the drop itself)
+const DropZone: React.FC = () => (
+  <div className="absolute inset-4 z-30 pointer-events-none flex items-center justify-center border-2 border-dashed border-luxury-gold/70 rounded-md bg-black/50 backdrop-blur-sm">
+    <div className="text-center">
+      <p className="font-display text-luxury-gold text-2xl tracking-widest uppercase">Drop Photos</p>
+      <p className="mt-2 font-serif text-luxury-goldLight/80">Images and whole folders are welcome</p>
+    </div>
+  </div>
+);
+
+export default DropZone;
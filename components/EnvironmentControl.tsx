@@ -0,0 +1,29 @@
+import React from 'react';
+import { EnvironmentId } from '../types';
+import { ENVIRONMENT_IDS, ENVIRONMENT_PRESETS, isEnvironmentId } from '../utils/environments';
+
+interface EnvironmentControlProps {
+  environmentId: EnvironmentId;
+  onChange: (id: EnvironmentId) => void;
+}
+
+// Where the tree stands (lighting, reflections, fog, floor and sky all come with it)
+const EnvironmentControl: React.FC<EnvironmentControlProps> = ({ environmentId, onChange }) => (
+  <div className="absolute top-36 left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <label htmlFor="environment">Setting</label>
+    <select
+      id="environment"
+      value={environmentId}
+      onChange={(e) => {
+        if (isEnvironmentId(e.target.value)) onChange(e.target.value);
+      }}
+      className="bg-black/20 border border-luxury-gold/30 rounded-sm px-2 py-1 text-luxury-gold uppercase outline-none focus:border-luxury-gold backdrop-blur-sm"
+    >
+      {ENVIRONMENT_IDS.map((id) => (
+        <option key={id} value={id} className="bg-black">{ENVIRONMENT_PRESETS[id].label}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default EnvironmentControl;
@@ -1,90 +1,276 @@
-import React, { Suspense } from 'react';
-import { Environment, OrbitControls, ContactShadows, Stars } from '@react-three/drei';
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, ContactShadows, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
-import { TreeState } from '../types';
+import * as THREE from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { CONFIG, CameraPose, EnvironmentId, LightStep, PhotoInspection, PhotoTransition, PlacedOrnament, QualityTier, ScenePhoto, SnowDensity, Theme, TreeState } from '../types';
+import { FormationShape, isAssembled, isFlatFormation } from '../utils/formations';
+import { sceneTimeline } from '../utils/timeline';
+import { QUALITY_PRESETS, QualityGovernor } from '../utils/quality';
+import { ENVIRONMENT_PRESETS } from '../utils/environments';
+import { maxPhotoSlots } from '../utils/layouts';
+import { useSnowCover } from '../hooks/useSnowCover';
+import { useCameraDirector } from '../hooks/useCameraDirector';
 import TreeParticles from './TreeParticles';
 import Ornaments from './Ornaments';
 import Photos from './Photos';
 import Snow from './Snow';
+import SnowGround from './SnowGround';
 import LuckyStar from './LuckyStar';
+import Garlands from './Garlands';
+import Backdrop from './Backdrop';
+import Fireworks from './Fireworks';
+import DirectorCamera from './DirectorCamera';
+import DecoratingLayer, { DecoratingHandlers } from './DecoratingLayer';
+import { GiftBoxState } from './GiftBoxes';
 
 interface ExperienceProps {
   treeState: TreeState;
   snowEnabled: boolean;
-  userPhotos: string[];
+  snowDensity: SnowDensity;
+  photos: ScenePhoto[];
   photoOffset?: number;
+  // Slideshow play order (when shuffled) and how frames change picture
+  photoOrder?: number[];
+  photoTransition: PhotoTransition;
+  // The pointer moved onto / off every photo frame
+  onPhotoHoverChange?: (hovered: boolean) => void;
+  theme: Theme;
+  // Where the tree stands: lights, reflections, fog, floor and sky
+  environmentId: EnvironmentId;
+  seed: number;
+  inspection: PhotoInspection | null;
+  onInspect: (inspection: PhotoInspection) => void;
+  cameraPose?: CameraPose;
+  onCameraChange?: (pose: CameraPose) => void;
+  // The user's message / silhouette, for the CUSTOM formation
+  customShape?: FormationShape;
+  qualityTier: QualityTier;
+  // Auto quality: measure the frame rate and report the tier it calls for
+  onAutoQualityChange?: (tier: QualityTier) => void;
+  // Hand-placed ornaments, and the edit handlers while decorating mode is on
+  decorations: PlacedOrnament[];
+  decorating?: DecoratingHandlers;
+  // Gift boxes with surprises, which open on click (or get picked, while wrapping)
+  gifts: GiftBoxState;
+  // The garlands' light show; null while the lights are off
+  lightShow: LightStep[] | null;
+  // Timeline time the countdown finale's fireworks started; null when there are none
+  fireworksAt: number | null;
 }
 
-const Experience: React.FC<ExperienceProps> = ({ treeState, snowEnabled, userPhotos, photoOffset = 0 }) => {
-  const isFormed = treeState === TreeState.FORMED;
+// Moves the camera (and orbit target) whenever a new pose is requested, e.g. from a shared link
+const CameraSync: React.FC<{ pose?: CameraPose }> = ({ pose }) => {
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+
+  useEffect(() => {
+    if (!pose) return;
+    camera.position.set(...pose.position);
+    if (controls?.target) {
+      controls.target.set(...pose.target);
+      controls.update();
+    } else {
+      camera.lookAt(...pose.target);
+    }
+  }, [pose, camera, controls]);
+
+  return null;
+};
+
+// Advances the shared timeline once per frame, so its events reach the UI and audio
+const TimelineDriver: React.FC = () => {
+  useFrame(() => sceneTimeline.tick());
+  return null;
+};
+
+// A tab that slept (or a kiosk screen that blanked) wakes with one huge frame delta. Dropping it
+// lets everything that eases by delta carry on from where it was instead of overshooting.
+const SleepRecovery: React.FC = () => {
+  const clock = useThree((state) => state.clock);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') clock.getDelta();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [clock]);
+
+  return null;
+};
+
+// Feeds frame times to the governor while quality is on Auto
+const AdaptiveQuality: React.FC<{ tier: QualityTier; onChange: (tier: QualityTier) => void }> = ({ tier, onChange }) => {
+  const [governor] = useState(() => new QualityGovernor(tier));
+
+  useFrame((_, delta) => {
+    const next = governor.sample(delta);
+    if (next) onChange(next);
+  });
+
+  return null;
+};
+
+// The scene group. Flat formations (heart, wreath, ...) have a front, so the group turns it toward
+// wherever the viewer is when one is picked. The tree looks the same from every side.
+const FacingGroup: React.FC<{ treeState: TreeState; children: React.ReactNode }> = ({ treeState, children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+  const targetYaw = useRef(0);
+
+  useEffect(() => {
+    if (!isFlatFormation(treeState)) return;
+    const target = controls?.target ?? new THREE.Vector3();
+    const yaw = Math.atan2(camera.position.x - target.x, camera.position.z - target.z);
+    // Turn the short way round from wherever the group is now
+    const current = groupRef.current?.rotation.y ?? 0;
+    targetYaw.current = current + THREE.MathUtils.euclideanModulo(yaw - current + Math.PI, Math.PI * 2) - Math.PI;
+  }, [treeState]);
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, targetYaw.current, delta * 1.5);
+  });
+
+  return <group ref={groupRef} position={[0, -5, 0]}>{children}</group>;
+};
+
+const Experience: React.FC<ExperienceProps> = ({ treeState, snowEnabled, snowDensity, photos, photoOffset = 0, photoOrder, photoTransition, onPhotoHoverChange, theme, environmentId, seed, inspection, onInspect, cameraPose, onCameraChange, customShape, qualityTier, onAutoQualityChange, decorations, decorating, gifts, lightShow, fireworksAt }) => {
+  const quality = QUALITY_PRESETS[qualityTier];
+  const environment = ENVIRONMENT_PRESETS[environmentId];
+  const { lights, fog, ground } = environment;
+  const density = CONFIG.snow.density[snowDensity];
+  const snowCover = useSnowCover(snowEnabled, density, isAssembled(treeState));
+  const [isDraggingOrnament, setIsDraggingOrnament] = useState(false);
+  // While a presentation plays, the director has the camera
+  const isPresenting = useCameraDirector().status === 'playing';
+
+  // Every change of formation, layout or message is one choreographed transition
+  const transition = useMemo(() => sceneTimeline.create(), [treeState, seed, customShape]);
+  useEffect(() => {
+    sceneTimeline.start(transition);
+  }, [transition]);
+
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const handleControlsEnd = () => {
+    const controls = controlsRef.current;
+    if (!controls || !onCameraChange) return;
+    const { position } = controls.object;
+    const { target } = controls;
+    onCameraChange({
+      position: [position.x, position.y, position.z],
+      target: [target.x, target.y, target.z],
+    });
+  };
 
   return (
     <>
-      {/* Lighting & Environment */}
-      <Environment preset="lobby" background={false} />
+      {/* Lighting & Environment (the rig comes with the environment; unset colors follow the theme) */}
+      <Backdrop environment={environment} themeBackground={theme.background} />
+      {fog && <fog key={environment.id} attach="fog" args={[fog.color, fog.near, fog.far]} />}
       
       {/* Starry Background */}
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      {environment.backdrop.stars && (
+        <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      )}
       
-      <ambientLight intensity={0.5} color="#002010" />
+      <ambientLight intensity={lights.ambient.intensity} color={lights.ambient.color ?? theme.lights.ambient} />
       <spotLight
-        position={[10, 20, 10]}
-        angle={0.3}
+        position={lights.spot.position}
+        angle={lights.spot.angle}
         penumbra={1}
-        intensity={200}
-        castShadow
-        color="#FFD700"
+        intensity={lights.spot.intensity}
+        castShadow={quality.shadows}
+        color={lights.spot.color ?? theme.lights.spot}
       />
-      <pointLight position={[-10, 5, -10]} intensity={50} color="#00ff88" />
+      <pointLight position={lights.fill.position} intensity={lights.fill.intensity} color={lights.fill.color ?? theme.lights.fill} />
+
+      <TimelineDriver />
+      <SleepRecovery />
+      {onAutoQualityChange && <AdaptiveQuality tier={qualityTier} onChange={onAutoQualityChange} />}
 
       {/* Snow Effect */}
-      {snowEnabled && <Snow />}
+      {snowEnabled && <Snow seed={seed} count={Math.round(quality.snowCount * density)} />}
+
+      {/* Countdown finale */}
+      {fireworksAt !== null && <Fireworks startedAt={fireworksAt} seed={seed} theme={theme} />}
 
       {/* Main Content */}
-      <group position={[0, -5, 0]}>
-        <TreeParticles isFormed={isFormed} />
-        <Ornaments isFormed={isFormed} />
+      <FacingGroup treeState={treeState}>
+        {/* A new needle count means new morph buffers, so the foliage remounts */}
+        <TreeParticles key={quality.particleCount} count={quality.particleCount} treeState={treeState} theme={theme} seed={seed} customShape={customShape} transition={transition} snowCover={snowCover} />
+        <Ornaments treeState={treeState} theme={theme} seed={seed} customShape={customShape} transition={transition} quality={quality} decorations={decorations} gifts={gifts} />
         
         {/* CRITICAL FIX: Wrap Photos in Suspense so textures/fonts don't block the Tree */}
         <Suspense fallback={null}>
-            {/* Pass userPhotos and offset. Photos component handles empty check internally. */}
-            <Photos isFormed={isFormed} count={12} userPhotos={userPhotos} photoOffset={photoOffset} />
+            {/* Pass photos and offset. Photos component handles empty check internally. */}
+            <Photos treeState={treeState} count={CONFIG.maxPhotoFrames} photos={photos} photoOffset={photoOffset} theme={theme} seed={seed} inspection={inspection} onInspect={onInspect} customShape={customShape} transition={transition} photoOrder={photoOrder} photoTransition={photoTransition} onHoverChange={onPhotoHoverChange} />
         </Suspense>
 
-        <LuckyStar isFormed={isFormed} />
+        {lightShow && <Garlands treeState={treeState} seed={seed} steps={lightShow} transition={transition} />}
+
+        <DirectorCamera seed={seed} photoCount={Math.min(photos.length, CONFIG.maxPhotoFrames, maxPhotoSlots())} />
+
+        <LuckyStar treeState={treeState} theme={theme} customShape={customShape} transition={transition} />
+
+        {decorating && <DecoratingLayer decorations={decorations} onDraggingChange={setIsDraggingOrnament} {...decorating} />}
         
-        <ContactShadows 
-            opacity={0.7} 
-            scale={20} 
-            blur={2} 
-            far={4} 
-            resolution={256} 
-            color="#000000" 
-        />
-      </group>
+        {/* Settled snow; stays mounted so it can melt after the snow stops */}
+        <SnowGround cover={snowCover} />
+
+        {quality.contactShadowResolution > 0 && (
+          <ContactShadows 
+              opacity={ground.shadows.opacity} 
+              scale={20} 
+              blur={ground.shadows.blur} 
+              far={ground.shadows.far} 
+              resolution={quality.contactShadowResolution} 
+              color={ground.shadows.color} 
+          />
+        )}
+      </FacingGroup>
 
       {/* Camera Controls */}
       <OrbitControls 
+        ref={controlsRef}
+        makeDefault
+        onEnd={handleControlsEnd}
+        // Hold the camera still while a photo is open so swipes don't orbit, and while an ornament is dragged.
+        // Off during a presentation too; pressing on the canvas takes over (see DirectorCamera).
+        enabled={!inspection && !isDraggingOrnament && !isPresenting}
         enablePan={false}
         minPolarAngle={Math.PI / 4}
         maxPolarAngle={Math.PI / 1.8}
         minDistance={10}
         maxDistance={35}
-        autoRotate={isFormed}
+        // Only the tree spins; the flat formations hold still facing the viewer. It also holds
+        // still while decorating, so the spot under the pointer stays put.
+        autoRotate={treeState === TreeState.FORMED && !inspection && !decorating && !isPresenting}
         autoRotateSpeed={0.5}
       />
+      <CameraSync pose={cameraPose} />
 
-      {/* Post Processing */}
-      <EffectComposer enableNormalPass={false}>
-        <Bloom 
-          luminanceThreshold={0.8} 
-          mipmapBlur 
-          intensity={1.5} 
-          radius={0.6}
-        />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
-        <Noise opacity={0.05} />
-      </EffectComposer>
+      {/* Post Processing (Bloom only on Medium, none on Low) */}
+      {quality.postprocessing === 'bloom' && (
+        <EffectComposer enableNormalPass={false} multisampling={quality.multisampling}>
+          <Bloom luminanceThreshold={0.8} mipmapBlur intensity={1.5} radius={0.6} />
+        </EffectComposer>
+      )}
+      {quality.postprocessing === 'full' && (
+        <EffectComposer enableNormalPass={false} multisampling={quality.multisampling}>
+          <Bloom 
+            luminanceThreshold={0.8} 
+            mipmapBlur 
+            intensity={1.5} 
+            radius={0.6}
+          />
+          <Vignette eskil={false} offset={0.1} darkness={1.1} />
+          <Noise opacity={0.05} />
+        </EffectComposer>
+      )}
     </>
   );
 };
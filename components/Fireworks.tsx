@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CONFIG, Theme } from '../types';
+import { createRng } from '../utils/random';
+import { timelineNow } from '../utils/timeline';
+
+interface FireworksProps {
+  // Timeline time the show started; null when there's no show
+  startedAt: number | null;
+  seed: number;
+  theme: Theme;
+}
+
+type Range = [number, number];
+
+const DEAD = 0;
+const ROCKET = 1;
+const SPARK = 2;
+const TRAIL = 3;
+
+interface Launch {
+  at: number;
+  from: [number, number, number];
+  to: [number, number, number];
+  flight: number;
+  // Palette indices: most sparks take the first, some the second
+  colors: [number, number];
+}
+
+// Round, soft-edged dots with additive blending, so overlapping sparks pile up into the bloom
+class FireworksMaterial extends THREE.ShaderMaterial {
+  declare uniforms: { [uniform: string]: THREE.IUniform };
+
+  constructor() {
+    super({
+      uniforms: {
+        // Half the drawing buffer height: turns world size into pixels like PointsMaterial does
+        uScale: { value: 500 },
+      },
+      vertexShader: `
+        uniform float uScale;
+        attribute vec3 aColor;
+        attribute float aAlpha;
+        attribute float aSize;
+        varying vec3 vColor;
+        varying float vAlpha;
+        void main() {
+          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+          gl_PointSize = aSize * uScale / -mvPosition.z;
+          gl_Position = projectionMatrix * mvPosition;
+          vColor = aColor;
+          vAlpha = aAlpha;
+        }
+      `,
+      fragmentShader: `
+        varying vec3 vColor;
+        varying float vAlpha;
+        void main() {
+          float r = length(gl_PointCoord - 0.5) * 2.0;
+          float alpha = (1.0 - smoothstep(0.0, 1.0, r)) * vAlpha;
+          if (alpha < 0.01) discard;
+          gl_FragColor = vec4(vColor * alpha, alpha);
+        }
+      `,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+  }
+
+  set uScale(value: number) {
+    this.uniforms.uScale.value = value;
+  }
+}
+
+const trailColor = new THREE.Color();
+
+const between = (random: () => number, [min, max]: Range) => min + random() * (max - min);
+
+// The whole show, worked out up front from the seed: when each rocket goes, from where, to where
+const planLaunches = (seed: number, paletteSize: number): Launch[] => {
+  const { rockets, launchSeconds, launchRadius, burstHeight, flightSeconds } = CONFIG.fireworks;
+  const random = createRng(seed, 'fireworks');
+  return Array.from({ length: rockets }, (_, i) => {
+    const angle = random() * Math.PI * 2;
+    const radius = between(random, launchRadius);
+    // Lean in towards the tree, so the bursts open above it
+    const lean = 0.4 + random() * 0.3;
+    return {
+      // Evenly spread, with some jitter (the first one goes straight away)
+      at: i === 0 ? 0 : ((i + (random() - 0.5) * 0.8) / rockets) * launchSeconds,
+      from: [Math.sin(angle) * radius, 0, Math.cos(angle) * radius] as [number, number, number],
+      to: [Math.sin(angle) * radius * lean, between(random, burstHeight), Math.cos(angle) * radius * lean] as [number, number, number],
+      flight: between(random, flightSeconds),
+      colors: [Math.floor(random() * paletteSize), Math.floor(random() * paletteSize)] as [number, number],
+    };
+  }).sort((a, b) => a.at - b.at);
+};
+
+/**
+ * Fireworks for the countdown finale: rockets go up from a ring round the tree, trailing sparks,
+ * and burst in the theme's colours. Simulated on the CPU in a fixed pool; when the pool is full,
+ * new trail points are simply skipped.
+ */
+const Fireworks: React.FC<FireworksProps> = ({ startedAt, seed, theme }) => {
+  const { maxParticles } = CONFIG.fireworks;
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const material = useMemo(() => new FireworksMaterial(), []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Simulation state, one slot per particle
+  const sim = useMemo(() => ({
+    kind: new Uint8Array(maxParticles),
+    position: new Float32Array(maxParticles * 3),
+    velocity: new Float32Array(maxParticles * 3),
+    color: new Float32Array(maxParticles * 3),
+    age: new Float32Array(maxParticles),
+    life: new Float32Array(maxParticles),
+    size: new Float32Array(maxParticles),
+    // Time until the particle next leaves a trail point
+    trailIn: new Float32Array(maxParticles),
+    // Rockets: which launch they are
+    launch: new Int16Array(maxParticles),
+    live: 0,
+    free: 0,
+  }), [maxParticles]);
+
+  // What the GPU draws: the live particles, packed at the front
+  const buffers = useMemo(() => ({
+    position: new Float32Array(maxParticles * 3),
+    color: new Float32Array(maxParticles * 3),
+    alpha: new Float32Array(maxParticles),
+    size: new Float32Array(maxParticles),
+  }), [maxParticles]);
+
+  // Theme colours, pushed well past white so they bloom
+  const palette = useMemo(() => {
+    const hexes = [...theme.ornaments.balls, theme.star.color];
+    return hexes.map((hex) => new THREE.Color(hex).convertLinearToSRGB().multiplyScalar(CONFIG.fireworks.intensity));
+  }, [theme]);
+
+  const launches = useMemo(() => planLaunches(seed, palette.length), [seed, palette.length]);
+  const nextLaunch = useRef(0);
+
+  // A new show clears whatever is left of the last one
+  useEffect(() => {
+    sim.kind.fill(DEAD);
+    sim.live = 0;
+    nextLaunch.current = 0;
+  }, [startedAt, sim]);
+
+  const spawn = (kind: number, x: number, y: number, z: number, life: number, size: number, color: THREE.Color) => {
+    if (sim.live >= maxParticles) return -1;
+    // Look for a dead slot, starting after the last one used
+    for (let n = 0; n < maxParticles; n++) {
+      const i = (sim.free + n) % maxParticles;
+      if (sim.kind[i] !== DEAD) continue;
+      sim.free = (i + 1) % maxParticles;
+      sim.live++;
+      sim.kind[i] = kind;
+      sim.position[i * 3] = x;
+      sim.position[i * 3 + 1] = y;
+      sim.position[i * 3 + 2] = z;
+      sim.velocity[i * 3] = sim.velocity[i * 3 + 1] = sim.velocity[i * 3 + 2] = 0;
+      sim.color[i * 3] = color.r;
+      sim.color[i * 3 + 1] = color.g;
+      sim.color[i * 3 + 2] = color.b;
+      sim.age[i] = 0;
+      sim.life[i] = life;
+      sim.size[i] = size;
+      sim.trailIn[i] = 0;
+      return i;
+    }
+    return -1;
+  };
+
+  // The rocket in `slot` has reached the top of its flight
+  const burst = (slot: number) => {
+    const { sparksPerBurst, sparkSpeed, sparkSeconds } = CONFIG.fireworks;
+    const launch = launches[sim.launch[slot]];
+    const random = createRng(seed, `fireworks:burst:${sim.launch[slot]}`);
+    const base = slot * 3;
+    for (let s = 0; s < sparksPerBurst; s++) {
+      const color = palette[random() < 0.75 ? launch.colors[0] : launch.colors[1]];
+      const i = spawn(SPARK, sim.position[base], sim.position[base + 1], sim.position[base + 2], between(random, sparkSeconds), 0.22, color);
+      if (i < 0) return;
+      // Even spread over the sphere
+      const u = random() * 2 - 1;
+      const phi = random() * Math.PI * 2;
+      const ring = Math.sqrt(1 - u * u);
+      const speed = between(random, sparkSpeed);
+      sim.velocity[i * 3] = ring * Math.cos(phi) * speed;
+      sim.velocity[i * 3 + 1] = u * speed;
+      sim.velocity[i * 3 + 2] = ring * Math.sin(phi) * speed;
+      sim.trailIn[i] = random() * CONFIG.fireworks.trailEvery;
+    }
+  };
+
+  useFrame((state, rawDelta) => {
+    const geometry = geometryRef.current;
+    if (!geometry) return;
+    material.uScale = (state.size.height * state.viewport.dpr) / 2;
+    const delta = Math.min(rawDelta, 0.05);
+    const { gravity, drag, trailEvery, trailSeconds } = CONFIG.fireworks;
+
+    // Launch whatever is due
+    if (startedAt !== null) {
+      const elapsed = timelineNow() - startedAt;
+      while (nextLaunch.current < launches.length && launches[nextLaunch.current].at <= elapsed) {
+        const launch = launches[nextLaunch.current];
+        const i = spawn(ROCKET, ...launch.from, launch.flight, 0.3, palette[launch.colors[0]]);
+        if (i >= 0) {
+          // Thrown so that gravity brings it to its burst point just as the flight ends
+          const t = launch.flight;
+          sim.velocity[i * 3] = (launch.to[0] - launch.from[0]) / t;
+          sim.velocity[i * 3 + 1] = (launch.to[1] - launch.from[1]) / t + 0.5 * gravity * t;
+          sim.velocity[i * 3 + 2] = (launch.to[2] - launch.from[2]) / t;
+          sim.launch[i] = nextLaunch.current;
+        }
+        nextLaunch.current++;
+      }
+    }
+
+    const dragFactor = Math.exp(-drag * delta);
+    let live = 0;
+
+    for (let i = 0; i < maxParticles; i++) {
+      const kind = sim.kind[i];
+      if (kind === DEAD) continue;
+
+      sim.age[i] += delta;
+      if (sim.age[i] >= sim.life[i]) {
+        sim.kind[i] = DEAD;
+        sim.live--;
+        if (kind === ROCKET) burst(i);
+        continue;
+      }
+
+      const p = i * 3;
+      if (kind !== TRAIL) {
+        if (kind === SPARK) {
+          sim.velocity[p] *= dragFactor;
+          sim.velocity[p + 1] *= dragFactor;
+          sim.velocity[p + 2] *= dragFactor;
+        }
+        sim.velocity[p + 1] -= gravity * delta;
+
+        // Leave a fading trail behind
+        sim.trailIn[i] -= delta;
+        if (sim.trailIn[i] <= 0) {
+          sim.trailIn[i] += trailEvery;
+          trailColor.setRGB(sim.color[p], sim.color[p + 1], sim.color[p + 2]).multiplyScalar(kind === ROCKET ? 0.6 : 0.35);
+          spawn(TRAIL, sim.position[p], sim.position[p + 1], sim.position[p + 2], trailSeconds, sim.size[i] * 0.7, trailColor);
+        }
+      } else {
+        // Trail embers sink a little as they fade
+        sim.velocity[p + 1] = -0.4;
+      }
+      sim.position[p] += sim.velocity[p] * delta;
+      sim.position[p + 1] += sim.velocity[p + 1] * delta;
+      sim.position[p + 2] += sim.velocity[p + 2] * delta;
+
+      // Sparks and trails fade out; sparks flicker as they die
+      const left = 1 - sim.age[i] / sim.life[i];
+      let alpha = kind === ROCKET ? 1 : left * left;
+      if (kind === SPARK && left < 0.4) alpha *= 0.6 + 0.4 * Math.sin((sim.age[i] + i) * 40);
+
+      const o = live * 3;
+      buffers.position[o] = sim.position[p];
+      buffers.position[o + 1] = sim.position[p + 1];
+      buffers.position[o + 2] = sim.position[p + 2];
+      buffers.color[o] = sim.color[p];
+      buffers.color[o + 1] = sim.color[p + 1];
+      buffers.color[o + 2] = sim.color[p + 2];
+      buffers.alpha[live] = alpha;
+      buffers.size[live] = sim.size[i];
+      live++;
+    }
+
+    geometry.setDrawRange(0, live);
+    if (live === 0) return;
+    for (const name of ['position', 'aColor', 'aAlpha', 'aSize']) {
+      const attribute = geometry.getAttribute(name) as THREE.BufferAttribute;
+      attribute.clearUpdateRanges();
+      attribute.addUpdateRange(0, live * attribute.itemSize);
+      attribute.needsUpdate = true;
+    }
+  });
+
+  return (
+    <group position={[0, -5, 0]}>
+      {/* Positions change every frame, so the initial bounds don't hold */}
+      <points frustumCulled={false}>
+        <bufferGeometry ref={geometryRef}>
+          <bufferAttribute attach="attributes-position" count={maxParticles} array={buffers.position} itemSize={3} usage={THREE.DynamicDrawUsage} />
+          <bufferAttribute attach="attributes-aColor" count={maxParticles} array={buffers.color} itemSize={3} usage={THREE.DynamicDrawUsage} />
+          <bufferAttribute attach="attributes-aAlpha" count={maxParticles} array={buffers.alpha} itemSize={1} usage={THREE.DynamicDrawUsage} />
+          <bufferAttribute attach="attributes-aSize" count={maxParticles} array={buffers.size} itemSize={1} usage={THREE.DynamicDrawUsage} />
+        </bufferGeometry>
+        <primitive object={material} attach="material" />
+      </points>
+    </group>
+  );
+};
+
+export default Fireworks;
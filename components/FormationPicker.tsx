@@ -0,0 +1,61 @@
+import React from 'react';
+import { TreeState } from '../types';
+import { FORMATIONS } from '../utils/formations';
+
+interface FormationPickerProps {
+  active: TreeState;
+  onSelect: (formation: TreeState) => void;
+  // Whether the custom formation has a message / silhouette yet
+  hasCustom: boolean;
+  isEditingCustom: boolean;
+  onEditCustom: () => void;
+}
+
+// One button per formation; the scene morphs from whatever it shows now
+const FormationPicker: React.FC<FormationPickerProps> = ({ active, onSelect, hasCustom, isEditingCustom, onEditCustom }) => (
+  <div role="radiogroup" aria-label="Formation" className="flex flex-wrap justify-center gap-2 mb-6 pointer-events-auto">
+    {FORMATIONS.map(({ id, label }) => {
+      const isActive = id === active;
+      const isCustom = id === TreeState.CUSTOM;
+      return (
+        <div key={id} className="flex">
+          <button
+            role="radio"
+            aria-checked={isActive}
+            // Without a message yet, the custom formation asks for one first
+            onClick={() => (isCustom && !hasCustom ? onEditCustom() : onSelect(id))}
+            className={`
+              px-4 py-1.5
+              border text-luxury-gold
+              font-display font-bold tracking-widest uppercase text-xs
+              transition-all duration-300 backdrop-blur-md
+              rounded-sm ${isCustom ? 'rounded-r-none' : ''}
+              ${isActive
+                ? 'bg-luxury-gold text-luxury-green border-luxury-gold shadow-[0_0_10px_rgba(255,215,0,0.15)]'
+                : 'bg-luxury-gold/5 border-luxury-gold/50 hover:bg-luxury-gold/20 hover:border-luxury-gold'}
+            `}
+          >
+            {label}
+          </button>
+          {isCustom && (
+            <button
+              onClick={onEditCustom}
+              aria-label="Edit message"
+              aria-expanded={isEditingCustom}
+              title="Edit message"
+              className={`
+                px-2 border border-l-0 border-luxury-gold/50 text-luxury-gold rounded-sm rounded-l-none
+                hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-md
+                ${isEditingCustom ? 'bg-luxury-gold/20' : 'bg-luxury-gold/5'}
+              `}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"></path><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"></path></svg>
+            </button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default FormationPicker;
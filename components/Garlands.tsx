@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CONFIG, LightStep, TreeState } from '../types';
+import { generateGarlandLayout } from '../utils/layouts';
+import { Bulb, LightShow, Rgb } from '../utils/lightShow';
+import { Transition, heightTier, timelineNow } from '../utils/timeline';
+
+interface GarlandsProps {
+  treeState: TreeState;
+  seed: number;
+  // The show to play (see utils/lightShow.ts)
+  steps: LightStep[];
+  // The bulbs light up behind the ornaments and go out ahead of the foliage
+  transition: Transition;
+}
+
+const tempObject = new THREE.Object3D();
+const tempColor = new THREE.Color();
+
+// String lights spiralling up the tree. The bulbs are unlit spheres pushed well past 1.0, so the
+// Bloom pass gives them their glow - no real lights, however many bulbs there are.
+const Garlands: React.FC<GarlandsProps> = ({ treeState, seed, steps, transition }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const { strands, bulbsPerStrand, bulbSize, intensity } = CONFIG.garlands;
+  const count = strands * bulbsPerStrand;
+  const isTree = treeState === TreeState.FORMED;
+
+  const layout = useMemo(() => generateGarlandLayout(strands, bulbsPerStrand, seed), [strands, bulbsPerStrand, seed]);
+  const bulbs = useMemo<Bulb[]>(
+    () => Array.from({ length: count }, (_, i) => ({
+      index: i % bulbsPerStrand,
+      along: layout.along[i],
+      strand: layout.strands[i],
+      random: layout.randoms[i],
+    })),
+    [layout, count, bulbsPerStrand]
+  );
+  const show = useMemo(() => new LightShow(steps), [steps]);
+
+  // How lit each bulb is (0..1), and where it stood when the current transition began
+  const visibility = useMemo(() => new Float32Array(count), [count]);
+  const fromVisibility = useMemo(() => new Float32Array(count), [count]);
+  const lastTransition = useRef<Transition | null>(null);
+  const rgb = useMemo<Rgb>(() => [0, 0, 0], []);
+
+  const geometry = useMemo(() => new THREE.SphereGeometry(bulbSize, 8, 6), [bulbSize]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    if (lastTransition.current !== transition) {
+      lastTransition.current = transition;
+      fromVisibility.set(visibility);
+    }
+
+    const now = timelineNow();
+    const time = state.clock.elapsedTime;
+    const { positions } = layout;
+
+    for (let i = 0; i < count; i++) {
+      const tier = heightTier(positions[i * 3 + 1]);
+      const from = fromVisibility[i];
+      visibility[i] = isTree
+        ? from + (1 - from) * transition.trackProgress('ornaments', tier, now)
+        : from * (1 - transition.trackProgress('foliage', tier, now));
+
+      const v = visibility[i];
+      tempObject.position.set(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+      tempObject.scale.setScalar(v);
+      tempObject.updateMatrix();
+      mesh.setMatrixAt(i, tempObject.matrix);
+
+      show.sample(bulbs[i], time, rgb);
+      const gain = intensity * v;
+      mesh.setColorAt(i, tempColor.setRGB(rgb[0] * gain, rgb[1] * gain, rgb[2] * gain));
+    }
+
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} frustumCulled={false}>
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+export default Garlands;
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { useCursor } from '@react-three/drei';
+import * as THREE from 'three';
+import { CONFIG, TreeState } from '../types';
+import { OrnamentLayout } from '../utils/layouts';
+import { Transition, heightTier, timelineNow } from '../utils/timeline';
+import { createRng } from '../utils/random';
+
+type Vec3 = [number, number, number];
+
+// Which gift boxes hold surprises, and what clicking one does
+export interface GiftBoxState {
+  wrapped: number[];
+  // Opened by this visitor before (or just now): shown with the lid off
+  opened: number[];
+  onOpen: (box: number) => void;
+  // Wrapping mode: any box on show can be picked to put a surprise in
+  wrapping?: { selected: number | null; onPick: (box: number) => void };
+}
+
+// Spring feel and size of the generated boxes, so these move like the instanced ones
+export interface GiftBoxPhysics {
+  scale: number;
+  stiffness: number;
+  damping: number;
+  noise: number;
+}
+
+interface GiftBoxesProps {
+  gifts: GiftBoxState;
+  // Every generated box, and where each one's spring pulls it in the formation being shown
+  layouts: OrnamentLayout[];
+  // Only the first this many can be picked for wrapping: the ones this tier draws, up to the boxes every tier has
+  shownCount: number;
+  anchors: Vec3[];
+  colors: string[];
+  physics: GiftBoxPhysics;
+  isFormed: boolean;
+  transition: Transition;
+  // Confetti colors
+  palette: string[];
+}
+
+interface GiftBoxProps {
+  layout: OrnamentLayout;
+  anchor: Vec3;
+  color: string;
+  physics: GiftBoxPhysics;
+  isFormed: boolean;
+  transition: Transition;
+  isOpened: boolean;
+  isSelected: boolean;
+  onClick: () => void;
+  // The lid just came off here: throw confetti
+  onBurst: (origin: Vec3) => void;
+}
+
+const ribbonColor = new THREE.Color(CONFIG.gifts.ribbon);
+const scratch = new THREE.Vector3();
+
+// A box on the tree that opens. It runs the same spring as the GPU-simulated ornaments (on the CPU,
+// since it needs its position for clicks and confetti), so it flies with them between formations.
+const GiftBox: React.FC<GiftBoxProps> = ({ layout, anchor, color, physics, isFormed, transition, isOpened, isSelected, onClick, onBurst }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const lidRef = useRef<THREE.Group>(null);
+  const ribbonRef = useRef<THREE.MeshStandardMaterial>(null);
+  const [hovered, setHovered] = useState(false);
+  useCursor(hovered);
+
+  const sim = useMemo(() => ({
+    position: new THREE.Vector3(...layout.positions[TreeState.FORMED]),
+    velocity: new THREE.Vector3(),
+    from: new THREE.Vector3(...layout.positions[TreeState.FORMED]),
+    dest: new THREE.Vector3(),
+    rotation: new THREE.Euler(...layout.rotation),
+    transition: null as Transition | null,
+  }), [layout]);
+
+  // Already open when it appears: no lid, no show. Opened now: the lid pops and confetti flies.
+  const openedAt = useRef<number | null>(isOpened ? -Infinity : null);
+  useEffect(() => {
+    if (!isOpened) {
+      openedAt.current = null;
+      return;
+    }
+    if (openedAt.current !== null) return;
+    openedAt.current = timelineNow();
+    onBurst(sim.position.toArray() as Vec3);
+  }, [isOpened]);
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    const now = timelineNow();
+    const step = Math.min(delta, 0.1) * 60;
+
+    // A new transition: set off from wherever the box is now
+    if (transition !== sim.transition) {
+      sim.transition = transition;
+      sim.from.copy(sim.position);
+    }
+    const progress = transition.trackProgress('ornaments', heightTier(anchor[1]), now);
+    sim.dest.lerpVectors(sim.from, scratch.set(...anchor), progress);
+    sim.velocity.addScaledVector(sim.dest.sub(sim.position), physics.stiffness / layout.mass);
+    if (!isFormed) {
+      const t = state.clock.elapsedTime;
+      const phase = layout.phase;
+      sim.velocity.x += Math.sin(t * 0.5 + phase) * physics.noise;
+      sim.velocity.y += Math.cos(t * 0.3 + phase * 2) * physics.noise;
+      sim.velocity.z += Math.sin(t * 0.7 + phase * 0.5) * physics.noise;
+    }
+    sim.velocity.multiplyScalar(physics.damping);
+    sim.position.addScaledVector(sim.velocity, step);
+
+    // Tumble in chaos, a slow turn once assembled
+    const [sx, sy, sz] = isFormed ? [0, 0.01, 0] : layout.rotVelocity;
+    sim.rotation.set(sim.rotation.x + sx * step, sim.rotation.y + sy * step, sim.rotation.z + sz * step);
+
+    group.position.copy(sim.position);
+    group.rotation.copy(sim.rotation);
+
+    // The ribbon glows (into the bloom) until the box has been opened
+    if (ribbonRef.current) {
+      const glow = isOpened ? 0.15 : 1.1 + 0.5 * Math.sin(state.clock.elapsedTime * 2.5 + layout.phase);
+      ribbonRef.current.emissiveIntensity = hovered || isSelected ? glow + 0.8 : glow;
+    }
+
+    // The lid pops up and off, spinning, and shrinks away
+    const lid = lidRef.current;
+    if (lid) {
+      const since = openedAt.current === null ? null : now - openedAt.current;
+      lid.visible = since === null || since < CONFIG.gifts.lidSeconds;
+      if (since !== null && lid.visible) {
+        const t = since;
+        lid.position.set(t * 1.4, 0.41 + t * 4.5 - t * t * 5, 0);
+        lid.rotation.set(0, 0, -t * 6);
+        lid.scale.setScalar(1 - THREE.MathUtils.smoothstep(t, CONFIG.gifts.lidSeconds * 0.5, CONFIG.gifts.lidSeconds));
+      } else if (since === null) {
+        lid.position.set(0, 0.41, 0);
+        lid.rotation.set(0, 0, 0);
+        lid.scale.setScalar(1);
+      }
+    }
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onClick();
+  };
+
+  return (
+    <group
+      ref={groupRef}
+      scale={physics.scale}
+      onClick={handleClick}
+      onPointerOver={(e) => {
+        e.stopPropagation();
+        setHovered(true);
+      }}
+      onPointerOut={() => setHovered(false)}
+    >
+      {/* Box, open at the top once the lid is off */}
+      <mesh position={[0, -0.1, 0]}>
+        <boxGeometry args={[1, 0.8, 1]} />
+        <meshStandardMaterial color={color} metalness={0.4} roughness={0.4} />
+      </mesh>
+      {/* Ribbon bands round the box */}
+      <mesh position={[0, -0.1, 0]}>
+        <boxGeometry args={[1.02, 0.82, 0.14]} />
+        <meshStandardMaterial ref={ribbonRef} color={ribbonColor} emissive={ribbonColor} metalness={0.6} roughness={0.3} />
+      </mesh>
+      <mesh position={[0, -0.1, 0]}>
+        <boxGeometry args={[0.14, 0.82, 1.02]} />
+        <meshStandardMaterial color={ribbonColor} emissive={ribbonColor} emissiveIntensity={0.4} metalness={0.6} roughness={0.3} />
+      </mesh>
+
+      {/* Lid with its bow */}
+      <group ref={lidRef} position={[0, 0.41, 0]}>
+        <mesh>
+          <boxGeometry args={[1.08, 0.22, 1.08]} />
+          <meshStandardMaterial color={color} metalness={0.4} roughness={0.4} />
+        </mesh>
+        <mesh>
+          <boxGeometry args={[1.1, 0.24, 0.14]} />
+          <meshStandardMaterial color={ribbonColor} emissive={ribbonColor} emissiveIntensity={0.4} metalness={0.6} roughness={0.3} />
+        </mesh>
+        <mesh>
+          <boxGeometry args={[0.14, 0.24, 1.1]} />
+          <meshStandardMaterial color={ribbonColor} emissive={ribbonColor} emissiveIntensity={0.4} metalness={0.6} roughness={0.3} />
+        </mesh>
+        {[-1, 1].map((side) => (
+          <mesh key={side} position={[side * 0.16, 0.24, 0]} rotation={[0, 0, side * 0.5]}>
+            <torusGeometry args={[0.15, 0.05, 8, 16]} />
+            <meshStandardMaterial color={ribbonColor} emissive={ribbonColor} emissiveIntensity={0.6} metalness={0.6} roughness={0.3} />
+          </mesh>
+        ))}
+      </group>
+
+      {isSelected && (
+        <mesh position={[0, 0, 0]}>
+          <boxGeometry args={[1.4, 1.4, 1.4]} />
+          <meshBasicMaterial color={ribbonColor} wireframe transparent opacity={0.6} toneMapped={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+interface ConfettiProps {
+  origin: Vec3;
+  salt: number;
+  palette: string[];
+  onDone: () => void;
+}
+
+const confettiMatrix = new THREE.Matrix4();
+const confettiQuat = new THREE.Quaternion();
+const confettiEuler = new THREE.Euler();
+const confettiScale = new THREE.Vector3();
+const confettiPos = new THREE.Vector3();
+
+// Paper scraps thrown up out of an opened box, fluttering down and fading out
+const Confetti: React.FC<ConfettiProps> = ({ origin, salt, palette, onDone }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const { confetti: count, confettiSeconds } = CONFIG.gifts;
+  const startedAt = useMemo(() => timelineNow(), []);
+  const pieces = useMemo(() => {
+    const random = createRng(salt, 'confetti');
+    return Array.from({ length: count }, () => {
+      const angle = random() * Math.PI * 2;
+      const spread = 1 + random() * 2.5;
+      return {
+        velocity: [Math.cos(angle) * spread, 4 + random() * 4, Math.sin(angle) * spread] as Vec3,
+        spin: [random() * 12 - 6, random() * 12 - 6, random() * 12 - 6] as Vec3,
+        color: palette[Math.floor(random() * palette.length)],
+      };
+    });
+  }, [salt, count, palette]);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const color = new THREE.Color();
+    pieces.forEach((piece, i) => mesh.setColorAt(i, color.set(piece.color)));
+    mesh.instanceColor!.needsUpdate = true;
+  }, [pieces]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const t = timelineNow() - startedAt;
+    if (t >= confettiSeconds) {
+      onDone();
+      return;
+    }
+    // Air slows the scraps quickly; they then drift down at their own pace
+    const drag = 2.2;
+    const travelled = (1 - Math.exp(-drag * t)) / drag;
+    const fade = 1 - THREE.MathUtils.smoothstep(t, confettiSeconds * 0.6, confettiSeconds);
+    pieces.forEach(({ velocity, spin }, i) => {
+      confettiPos.set(
+        origin[0] + velocity[0] * travelled,
+        origin[1] + velocity[1] * travelled - 0.9 * t * t,
+        origin[2] + velocity[2] * travelled
+      );
+      confettiQuat.setFromEuler(confettiEuler.set(spin[0] * t, spin[1] * t, spin[2] * t));
+      confettiScale.setScalar(fade);
+      mesh.setMatrixAt(i, confettiMatrix.compose(confettiPos, confettiQuat, confettiScale));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+      <planeGeometry args={[0.14, 0.08]} />
+      <meshBasicMaterial side={THREE.DoubleSide} toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+// The gift boxes that hold surprises (taken out of the instanced boxes), their confetti, and while
+// wrapping, a pick target over every other box on show
+const GiftBoxes: React.FC<GiftBoxesProps> = ({ gifts, layouts, shownCount, anchors, colors, physics, isFormed, transition, palette }) => {
+  const [bursts, setBursts] = useState<{ id: number; origin: Vec3 }[]>([]);
+  const nextBurst = useRef(1);
+  const [hoveredTarget, setHoveredTarget] = useState<number | null>(null);
+  useCursor(hoveredTarget !== null);
+
+  const confettiPalette = useMemo(() => [...palette, CONFIG.gifts.ribbon, '#FFFFFF'], [palette]);
+  const { wrapping } = gifts;
+
+  return (
+    <group>
+      {gifts.wrapped.map((box) => layouts[box] && (
+        <GiftBox
+          key={box}
+          layout={layouts[box]}
+          anchor={anchors[box]}
+          color={colors[box]}
+          physics={physics}
+          isFormed={isFormed}
+          transition={transition}
+          isOpened={gifts.opened.includes(box)}
+          isSelected={wrapping?.selected === box}
+          onClick={() => (wrapping ? wrapping.onPick(box) : gifts.onOpen(box))}
+          onBurst={(origin) => {
+            const id = nextBurst.current++;
+            setBursts((prev) => [...prev, { id, origin }]);
+          }}
+        />
+      ))}
+
+      {bursts.map(({ id, origin }) => (
+        <Confetti
+          key={id}
+          origin={origin}
+          salt={id}
+          palette={confettiPalette}
+          onDone={() => setBursts((prev) => prev.filter((b) => b.id !== id))}
+        />
+      ))}
+
+      {wrapping && layouts.map((_, box) => {
+        if (box >= shownCount || gifts.wrapped.includes(box)) return null;
+        const isActive = wrapping.selected === box || hoveredTarget === box;
+        return (
+          <mesh
+            key={box}
+            position={anchors[box]}
+            onClick={(e) => {
+              e.stopPropagation();
+              wrapping.onPick(box);
+            }}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              setHoveredTarget(box);
+            }}
+            onPointerOut={() => setHoveredTarget((prev) => (prev === box ? null : prev))}
+          >
+            <boxGeometry args={[physics.scale * 1.5, physics.scale * 1.5, physics.scale * 1.5]} />
+            <meshBasicMaterial color={ribbonColor} wireframe transparent opacity={isActive ? 0.7 : 0} depthWrite={false} toneMapped={false} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+};
+
+export default GiftBoxes;
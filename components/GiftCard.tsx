@@ -0,0 +1,80 @@
+import React, { useEffect } from 'react';
+import { GiftSurprise, LibraryPhoto } from '../types';
+import { giftPhotoUrl } from '../utils/gifts';
+
+interface GiftCardProps {
+  surprise: GiftSurprise;
+  // Photo surprises kept by id are looked up here
+  library: LibraryPhoto[];
+  onClose: () => void;
+}
+
+const actionButton = `
+  px-4 py-1.5 border border-luxury-gold/60 text-luxury-gold
+  hover:bg-luxury-gold hover:text-luxury-green
+  font-display font-bold tracking-wider uppercase text-xs
+  transition-all duration-300 rounded-sm
+`;
+
+// What was inside the gift box that was just opened
+const GiftCard: React.FC<GiftCardProps> = ({ surprise, library, onClose }) => {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const photoUrl = surprise.kind === 'photo' ? giftPhotoUrl(surprise, library) : null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="gift-card-title"
+        onClick={(e) => e.stopPropagation()}
+        className="p-6 w-[min(26rem,90vw)] border border-luxury-gold/40 bg-black/70 backdrop-blur-md rounded-sm text-center"
+      >
+        <p id="gift-card-title" className="font-display text-luxury-gold tracking-widest uppercase">
+          A Surprise For You
+        </p>
+
+        {surprise.kind === 'message' && (
+          <p className="mt-4 font-serif text-lg text-luxury-goldLight whitespace-pre-line break-words">{surprise.text}</p>
+        )}
+
+        {surprise.kind === 'photo' && (
+          <figure className="mt-4">
+            {photoUrl ? (
+              <img src={photoUrl} alt={surprise.caption ?? ''} className="mx-auto max-h-[50vh] border-4 border-luxury-goldLight/80" />
+            ) : (
+              <p className="font-serif text-sm text-luxury-goldLight/70">This photo is not in this device's library.</p>
+            )}
+            {surprise.caption && (
+              <figcaption className="mt-2 font-serif text-luxury-goldLight">{surprise.caption}</figcaption>
+            )}
+          </figure>
+        )}
+
+        {surprise.kind === 'link' && (
+          <a
+            href={surprise.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-4 inline-block font-serif text-lg text-luxury-goldLight underline underline-offset-4 break-all hover:text-luxury-gold"
+          >
+            {surprise.label ?? surprise.url}
+          </a>
+        )}
+
+        <div className="flex justify-center mt-5">
+          <button autoFocus onClick={onClose} className={actionButton}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GiftCard;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { CONFIG, GiftSurprise, ScenePhoto } from '../types';
+import { GIFT_KINDS, MAX_GIFT_LABEL_LENGTH, MAX_GIFT_MESSAGE_LENGTH, isWebUrl, photoSurprise } from '../utils/gifts';
+
+export interface GiftEditorProps {
+  // The box picked on the tree, and what's in it already
+  selectedBox: number | null;
+  surprise: GiftSurprise | null;
+  wrappedCount: number;
+  // Photos that can go in a box (the ones on the tree)
+  photos: ScenePhoto[];
+  onSave: (surprise: GiftSurprise) => void;
+  onRemove: () => void;
+}
+
+const actionButton = `
+  px-3 py-1 border border-luxury-gold/50 text-luxury-gold/80 rounded-sm
+  hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold transition-all
+  disabled:opacity-40 disabled:pointer-events-none
+`;
+
+const field = `
+  w-full px-2 py-1 bg-black/40 border border-luxury-gold/30 rounded-sm
+  font-serif normal-case tracking-normal text-sm text-luxury-goldLight placeholder:text-luxury-gold/30
+  focus:outline-none focus:border-luxury-gold
+`;
+
+// Which photo a surprise points at, if it's one of these
+const photoIndexOf = (surprise: GiftSurprise | null, photos: ScenePhoto[]) => {
+  if (surprise?.kind !== 'photo') return -1;
+  return photos.findIndex((p) => (surprise.url ? p.url === surprise.url : p.id === surprise.libraryId));
+};
+
+// Put a message, a photo or a link in the gift box picked on the tree. Remounted per box (keyed),
+// so the draft always starts from that box's surprise.
+const GiftEditor: React.FC<GiftEditorProps> = ({ selectedBox, surprise, wrappedCount, photos, onSave, onRemove }) => {
+  const [kind, setKind] = useState<GiftSurprise['kind']>(surprise?.kind ?? 'message');
+  const [text, setText] = useState(surprise?.kind === 'message' ? surprise.text : '');
+  const [photoIndex, setPhotoIndex] = useState(() => photoIndexOf(surprise, photos));
+  const [url, setUrl] = useState(surprise?.kind === 'link' ? surprise.url : '');
+  const [label, setLabel] = useState(surprise?.kind === 'link' ? surprise.label ?? '' : '');
+
+  const isFull = surprise === null && wrappedCount >= CONFIG.gifts.max;
+  const draft = ((): GiftSurprise | null => {
+    switch (kind) {
+      case 'message':
+        return text.trim() ? { kind, text: text.trim() } : null;
+      case 'photo':
+        return photos[photoIndex] ? photoSurprise(photos[photoIndex]) : null;
+      case 'link':
+        return isWebUrl(url.trim()) ? { kind, url: url.trim(), ...(label.trim() ? { label: label.trim() } : {}) } : null;
+    }
+  })();
+
+  return (
+    <div className="w-[min(34rem,92vw)] mb-6 p-3 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      {selectedBox === null ? (
+        <p className="normal-case tracking-normal text-luxury-gold/50">
+          Click a gift box on the tree to hide a surprise in it. Boxes with one get a glowing ribbon.{' '}
+          {wrappedCount} / {CONFIG.gifts.max} wrapped.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="mr-1">Box {selectedBox + 1}</span>
+            <div role="radiogroup" aria-label="Surprise" className="flex gap-2">
+              {GIFT_KINDS.map(({ id, label: kindLabel }) => (
+                <button
+                  key={id}
+                  role="radio"
+                  aria-checked={id === kind}
+                  onClick={() => setKind(id)}
+                  className={`px-3 py-1 rounded-sm border transition-all ${
+                    id === kind
+                      ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+                      : 'border-luxury-gold/40 text-luxury-gold/80 hover:border-luxury-gold'
+                  }`}
+                >
+                  {kindLabel}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-3">
+            {kind === 'message' && (
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={MAX_GIFT_MESSAGE_LENGTH}
+                rows={3}
+                placeholder="Write a note to find inside..."
+                aria-label="Message"
+                className={`${field} resize-none`}
+              />
+            )}
+            {kind === 'photo' && (
+              photos.length > 0 ? (
+                <div role="radiogroup" aria-label="Photo" className="flex gap-1.5 overflow-x-auto pb-1">
+                  {photos.map((photo, i) => (
+                    <button
+                      key={photo.id}
+                      role="radio"
+                      aria-checked={i === photoIndex}
+                      aria-label={photo.caption || `Photo ${i + 1}`}
+                      onClick={() => setPhotoIndex(i)}
+                      className={`shrink-0 w-12 h-12 rounded-sm border overflow-hidden transition-all ${
+                        i === photoIndex ? 'border-luxury-goldLight ring-1 ring-luxury-gold' : 'border-luxury-gold/20 hover:border-luxury-gold/60'
+                      }`}
+                    >
+                      <img src={photo.url} alt="" className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="normal-case tracking-normal text-luxury-gold/50">Add some photos first.</p>
+              )
+            )}
+            {kind === 'link' && (
+              <div className="flex flex-col gap-2">
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://..."
+                  aria-label="Link address"
+                  className={field}
+                />
+                <input
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  maxLength={MAX_GIFT_LABEL_LENGTH}
+                  placeholder="Label (optional)"
+                  aria-label="Link label"
+                  className={field}
+                />
+                {url.trim() !== '' && !isWebUrl(url.trim()) && (
+                  <p role="alert" className="normal-case tracking-normal text-red-300">Links need an http:// or https:// address.</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-3 flex items-center gap-2">
+            <span className="normal-case tracking-normal text-luxury-gold/50">
+              {isFull ? `All ${CONFIG.gifts.max} surprises are used.` : `${wrappedCount} / ${CONFIG.gifts.max} wrapped.`}
+            </span>
+            <div className="ml-auto flex gap-2">
+              <button onClick={onRemove} disabled={surprise === null} className={actionButton}>
+                Remove
+              </button>
+              <button onClick={() => draft && onSave(draft)} disabled={!draft || isFull} className={actionButton}>
+                {surprise ? 'Save' : 'Wrap'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GiftEditor;
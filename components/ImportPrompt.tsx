@@ -0,0 +1,54 @@
+import React from 'react';
+import { PhotoImportMode } from '../utils/photoLibrary';
+
+interface ImportPromptProps {
+  imageCount: number;
+  skippedCount: number;
+  onChoose: (mode: PhotoImportMode) => void;
+  onCancel: () => void;
+}
+
+const actionButton = `
+  px-4 py-1.5 border border-luxury-gold/60 text-luxury-gold
+  hover:bg-luxury-gold hover:text-luxury-green
+  font-display font-bold tracking-wider uppercase text-xs
+  transition-all duration-300 rounded-sm
+`;
+
+// Asks whether dropped/pasted photos join the library or replace it
+const ImportPrompt: React.FC<ImportPromptProps> = ({ imageCount, skippedCount, onChoose, onCancel }) => (
+  <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onCancel}>
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-prompt-title"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+      className="p-6 min-w-[18rem] border border-luxury-gold/40 bg-black/70 backdrop-blur-md rounded-sm text-center"
+    >
+      <p id="import-prompt-title" className="font-display text-luxury-gold tracking-widest uppercase">
+        {imageCount > 0 ? `${imageCount} ${imageCount === 1 ? 'Photo' : 'Photos'} Ready` : 'No Photos Found'}
+      </p>
+      {skippedCount > 0 && (
+        <p className="mt-2 font-serif text-sm text-luxury-goldLight/70">
+          {skippedCount} {skippedCount === 1 ? 'file is' : 'files are'} not an image and will be skipped.
+        </p>
+      )}
+      <div className="flex justify-center gap-3 mt-5">
+        {imageCount > 0 && (
+          <>
+            <button autoFocus onClick={() => onChoose('add')} className={actionButton}>Add to Library</button>
+            <button onClick={() => onChoose('replace')} className={actionButton}>Replace Library</button>
+          </>
+        )}
+        <button onClick={onCancel} className={`${actionButton} border-luxury-gold/30 text-luxury-gold/70`}>
+          {imageCount > 0 ? 'Cancel' : 'OK'}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ImportPrompt;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { CONFIG } from '../types';
+
+interface KioskControlProps {
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+// Kiosk mode on/off. Once on, the scene runs itself and this UI hides until someone moves the mouse.
+const KioskControl: React.FC<KioskControlProps> = ({ enabled, onToggle }) => (
+  <div className="absolute top-[11.5rem] left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <button
+      onClick={onToggle}
+      aria-pressed={enabled}
+      title="Cycle the tree and photos unattended, full screen, with the controls hidden until someone touches it"
+      className={`px-2 py-1 rounded-sm border transition-all backdrop-blur-sm ${
+        enabled
+          ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+          : 'bg-black/20 text-luxury-gold border-luxury-gold/30 hover:border-luxury-gold'
+      }`}
+    >
+      Kiosk
+    </button>
+    {enabled && <span className="text-luxury-gold/60">Takes over after {CONFIG.kiosk.idleSeconds}s idle</span>}
+  </div>
+);
+
+export default KioskControl;
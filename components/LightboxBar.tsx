@@ -0,0 +1,42 @@
+import React from 'react';
+import { ScenePhoto } from '../types';
+import { DEFAULT_CAPTION } from '../utils/captions';
+
+interface LightboxBarProps {
+  photo: ScenePhoto;
+  index: number;
+  total: number;
+  onPrev: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+const navButton = 'p-3 rounded-full border border-luxury-gold/30 bg-black/20 text-luxury-gold hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm';
+
+// Caption, position and controls for the photo open in the lightbox
+const LightboxBar: React.FC<LightboxBarProps> = ({ photo, index, total, onPrev, onNext, onClose }) => (
+  <div className="flex items-center gap-8 mb-8 pointer-events-auto">
+    <button onClick={onPrev} className={navButton} aria-label="Previous Photo">
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
+    </button>
+
+    <div className="flex flex-col items-center gap-1 min-w-[12rem] text-center" aria-live="polite">
+      <span className="font-serif text-luxury-goldLight text-lg">{photo.caption || DEFAULT_CAPTION}</span>
+      <span className="font-display text-xs tracking-widest text-luxury-gold/70">
+        {index + 1} / {total}
+      </span>
+      <button
+        onClick={onClose}
+        className="mt-1 font-display text-[10px] tracking-widest uppercase text-luxury-gold/60 hover:text-luxury-gold"
+      >
+        Close (Esc)
+      </button>
+    </div>
+
+    <button onClick={onNext} className={navButton} aria-label="Next Photo">
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
+    </button>
+  </div>
+);
+
+export default LightboxBar;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { CUSTOM_SHOW_ID, LIGHT_SHOW_PRESETS, LightSettings, LightShowError, parseLightShow } from '../utils/lightShow';
+
+interface LightsControlsProps {
+  settings: LightSettings;
+  onChange: (settings: LightSettings) => void;
+}
+
+const toggleButton = (active: boolean) => `
+  px-2 py-1 rounded-sm border transition-all backdrop-blur-sm
+  ${active
+    ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+    : 'bg-black/20 text-luxury-gold border-luxury-gold/30 hover:border-luxury-gold'}
+`;
+
+// Garland lights on/off, which show they play, and an editor for writing your own
+const LightsControls: React.FC<LightsControlsProps> = ({ settings, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(settings.customSource);
+  const [error, setError] = useState<string | null>(null);
+
+  const openEditor = () => {
+    setDraft(settings.customSource);
+    setError(null);
+    setIsEditing((prev) => !prev);
+  };
+
+  // Only a show that parses replaces the running one
+  const applyDraft = () => {
+    try {
+      parseLightShow(draft);
+    } catch (err) {
+      setError(err instanceof LightShowError ? err.message : 'That show could not be read.');
+      return;
+    }
+    setError(null);
+    setIsEditing(false);
+    onChange({ ...settings, enabled: true, showId: CUSTOM_SHOW_ID, customSource: draft });
+  };
+
+  return (
+    <div className="absolute bottom-6 right-6 flex flex-col items-end gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      {isEditing && (
+        <div className="w-72 p-2 border border-luxury-gold/20 bg-black/40 backdrop-blur-md rounded-sm normal-case tracking-normal">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            spellCheck={false}
+            aria-label="Custom light show"
+            className="w-full p-1 bg-black/40 border border-luxury-gold/30 rounded-sm text-luxury-goldLight font-mono text-[11px] focus:outline-none focus:border-luxury-gold"
+          />
+          <p className="mt-1 text-luxury-gold/60">
+            One step per line: pattern and seconds, then optional speed=1.5 or colors=#ff0000,#ffffff.
+          </p>
+          {error && <p role="alert" className="mt-1 text-red-300">{error}</p>}
+          <div className="mt-2 flex justify-end gap-2 uppercase tracking-wider">
+            <button onClick={() => setIsEditing(false)} className={toggleButton(false)}>
+              Cancel
+            </button>
+            <button onClick={applyDraft} className={toggleButton(false)}>
+              Play
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          aria-pressed={settings.enabled}
+          className={toggleButton(settings.enabled)}
+        >
+          Lights
+        </button>
+        <select
+          value={settings.showId}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, showId: e.target.value })}
+          aria-label="Light show"
+          className="px-2 py-1 rounded-sm border border-luxury-gold/30 bg-black/40 text-luxury-gold uppercase tracking-wider disabled:opacity-40 focus:outline-none focus:border-luxury-gold"
+        >
+          {LIGHT_SHOW_PRESETS.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+          <option value={CUSTOM_SHOW_ID}>My Show</option>
+        </select>
+        <button onClick={openEditor} aria-expanded={isEditing} className={toggleButton(isEditing)}>
+          Edit
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LightsControls;
@@ -1,15 +1,28 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONFIG } from '../types';
+import { Theme, TreeState } from '../types';
+import { FormationShape, getStarPosition, isAssembled } from '../utils/formations';
+import { useAudioReactive } from '../hooks/useAudioReactive';
+import { Transition, timelineNow } from '../utils/timeline';
 
 interface LuckyStarProps {
-  isFormed: boolean;
+  treeState: TreeState;
+  theme: Theme;
+  customShape?: FormationShape;
+  // The choreography the star follows (it lands last, on top of everything)
+  transition: Transition;
 }
 
-const LuckyStar: React.FC<LuckyStarProps> = ({ isFormed }) => {
+const LuckyStar: React.FC<LuckyStarProps> = ({ treeState, theme, customShape, transition }) => {
   const meshRef = useRef<THREE.Group>(null);
   const pointLightRef = useRef<THREE.PointLight>(null);
+  const isFormed = isAssembled(treeState);
+  const fromPos = useRef(new THREE.Vector3());
+  const lastTransition = useRef<Transition | null>(null);
+
+  // Each formation has its own spot for the star (top of the tree, heart's dip, ...)
+  const targetPos = useMemo(() => new THREE.Vector3(...getStarPosition(treeState, customShape)), [treeState, customShape]);
 
   // Generate a 5-pointed star shape
   const starGeometry = useMemo(() => {
@@ -48,20 +61,25 @@ const LuckyStar: React.FC<LuckyStarProps> = ({ isFormed }) => {
     starGeometry.center();
   }, [starGeometry]);
 
+  const audio = useAudioReactive();
+
   useFrame((state, delta) => {
     if (!meshRef.current) return;
 
     const time = state.clock.elapsedTime;
     
-    // Target Position: Top of tree (FORMED) vs Center of universe (CHAOS)
-    // Tree height is 14.
-    // CHANGED: Chaos position moved to y=5 (was y=0) so it floats higher
-    const targetPos = isFormed 
-      ? new THREE.Vector3(0, CONFIG.treeHeight + 0.5, 0) 
-      : new THREE.Vector3(0, 5, 0); 
+    if (lastTransition.current !== transition) {
+      lastTransition.current = transition;
+      fromPos.current.copy(meshRef.current.position);
+    }
 
-    // Smoothly interpolate position
-    meshRef.current.position.lerp(targetPos, delta * 2.0);
+    // Follow the timeline while its star track runs, then keep easing toward the spot
+    const progress = transition.trackProgress('star', 0, timelineNow());
+    if (progress < 1) {
+      meshRef.current.position.lerpVectors(fromPos.current, targetPos, progress);
+    } else {
+      meshRef.current.position.lerp(targetPos, delta * 2.0);
+    }
 
     // Rotation Logic
     if (isFormed) {
@@ -82,11 +100,13 @@ const LuckyStar: React.FC<LuckyStarProps> = ({ isFormed }) => {
         ? 1.0 + Math.sin(time * 3) * 0.05
         : 1.5 + Math.sin(time * 10) * 0.2; // Bigger and faster pulse in Chaos
     
-    meshRef.current.scale.setScalar(pulse);
+    // Beats punch the scale on top of the idle pulse
+    meshRef.current.scale.setScalar(pulse + audio('starPulse') * 0.3);
 
     // Light Intensity Pulse
     if (pointLightRef.current) {
-        pointLightRef.current.intensity = isFormed ? 60 + Math.sin(time * 4) * 20 : 300;
+        const base = isFormed ? 60 + Math.sin(time * 4) * 20 : 300;
+        pointLightRef.current.intensity = base + audio('starLight') * 200;
         pointLightRef.current.distance = isFormed ? 20 : 60;
     }
   });
@@ -96,8 +116,8 @@ const LuckyStar: React.FC<LuckyStarProps> = ({ isFormed }) => {
       {/* The Core Star */}
       <mesh geometry={starGeometry} castShadow>
         <meshPhysicalMaterial 
-            color="#FFD700"
-            emissive="#FFAA00"
+            color={theme.star.color}
+            emissive={theme.star.emissive}
             emissiveIntensity={1.5}
             metalness={1}
             roughness={0.1}
@@ -109,7 +129,7 @@ const LuckyStar: React.FC<LuckyStarProps> = ({ isFormed }) => {
       {/* Inner light source */}
       <pointLight 
         ref={pointLightRef} 
-        color="#FFD700" 
+        color={theme.star.light} 
         decay={2}
       />
     </group>
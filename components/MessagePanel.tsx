@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { MAX_MESSAGE_LENGTH } from '../utils/silhouette';
+
+interface MessagePanelProps {
+  // Current message, when the custom formation is a text
+  message: string;
+  isBusy: boolean;
+  error: string | null;
+  onSpell: (text: string) => void;
+  onUploadShape: (file: File) => void;
+}
+
+const actionButton = `
+  px-3 py-1 border border-luxury-gold/50 text-luxury-gold/80 rounded-sm
+  hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold transition-all
+  disabled:opacity-40 disabled:pointer-events-none
+`;
+
+// Type a greeting or upload a logo; the particles morph into it
+const MessagePanel: React.FC<MessagePanelProps> = ({ message, isBusy, error, onSpell, onUploadShape }) => {
+  const [draft, setDraft] = useState(message);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim()) onSpell(draft);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onUploadShape(file);
+  };
+
+  return (
+    <div className="w-[min(32rem,90vw)] mb-6 p-3 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <form onSubmit={handleSubmit} className="flex items-center gap-3">
+        <input
+          type="text"
+          value={draft}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Happy New Year"
+          onChange={(e) => setDraft(e.target.value)}
+          aria-label="Message"
+          className="flex-1 bg-transparent border-b border-luxury-gold/40 px-1 py-0.5 outline-none normal-case tracking-normal text-sm text-luxury-goldLight placeholder:text-luxury-gold/40"
+        />
+        <button type="submit" disabled={isBusy || !draft.trim()} className={actionButton}>
+          Spell It
+        </button>
+        <button type="button" disabled={isBusy} onClick={() => fileInputRef.current?.click()} className={actionButton}>
+          Upload Shape
+        </button>
+      </form>
+
+      <p className="mt-2 normal-case tracking-normal text-luxury-gold/50">
+        {isBusy ? 'Drawing the shape...' : 'A short message, or an SVG/PNG silhouette such as a logo.'}
+      </p>
+      {error && (
+        <p role="alert" className="mt-1 normal-case tracking-normal text-red-300">
+          {error}
+        </p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".svg,.png,image/svg+xml,image/png"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+};
+
+export default MessagePanel;
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
+
+// Play/pause, volume and track choice; the scene reacts to whatever is playing
+const MusicControls: React.FC = () => {
+  const player = useAudioPlayer();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Decoding a track or starting the audio can fail (an unreadable file, a blocked audio context)
+  const run = (action: Promise<void>, message: string) => {
+    setError(null);
+    action.catch((cause) => {
+      console.error(message, cause);
+      setError(message);
+    });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(player.loadFile(file), `Could not play ${file.name}.`);
+  };
+
+  const buttonClass = 'p-1.5 rounded-sm border border-luxury-gold/30 bg-black/20 text-luxury-gold hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm';
+
+  return (
+    <div className="absolute bottom-6 left-6 flex flex-col gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => (player.isPlaying ? player.pause() : run(player.play(), 'Could not start the music.'))}
+          aria-label={player.isPlaying ? 'Pause music' : 'Play music'}
+          title={player.isPlaying ? 'Pause music' : 'Play music'}
+          className={buttonClass}
+        >
+          {player.isPlaying ? (
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 3 20 12 6 21 6 3"></polygon></svg>
+          )}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={player.volume}
+          onChange={(e) => player.setVolume(Number(e.target.value))}
+          aria-label="Volume"
+          className="w-24 accent-luxury-gold"
+        />
+        <span className="max-w-[10rem] truncate normal-case tracking-normal" title={player.trackName}>
+          {player.trackName}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => run(player.selectMusicBox(), 'Could not start the music box.')}
+          disabled={player.source === 'musicBox'}
+          className={`${buttonClass} px-2 ${player.source === 'musicBox' ? 'bg-luxury-gold/20' : ''}`}
+        >
+          Music Box
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} px-2`}>
+          Upload Track
+        </button>
+      </div>
+
+      {error && <p role="alert" className="max-w-[16rem] normal-case tracking-normal text-red-300">{error}</p>}
+
+      <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFileChange} />
+    </div>
+  );
+};
+
+export default MusicControls;
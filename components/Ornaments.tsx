@@ -1,263 +1,409 @@
-import React, { useRef, useMemo, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONFIG } from '../types';
+import { OrnamentKind, PlacedOrnament, QualityPreset, Theme, TreeState } from '../types';
+import {
+  OrnamentLayout,
+  OrnamentPlacement,
+  generateCustomOrnamentAnchors,
+  generateOrnamentLayout,
+  generatePlacedOrnamentLayout,
+} from '../utils/layouts';
+import { FormationShape, isAssembled } from '../utils/formations';
+import { useAudioReactive } from '../hooks/useAudioReactive';
+import { Transition } from '../utils/timeline';
+import {
+  OrnamentSimulator,
+  SimulatedOrnament,
+  createOrnamentInstancing,
+  createOrnamentSimulation,
+  createOrnamentSimUniforms,
+} from '../utils/ornamentSimulation';
+import GiftBoxes, { GiftBoxState } from './GiftBoxes';
 
 interface OrnamentGroupProps {
-  isFormed: boolean;
+  treeState: TreeState;
+  theme: Theme;
+  seed: number;
+  // The user's message / silhouette, for the CUSTOM formation
+  customShape?: FormationShape;
+  // The choreography ornaments follow when the formation changes
+  transition: Transition;
+  // Counts, shadows and materials for the current quality tier
+  quality: QualityPreset;
+  // Ornaments hung by hand in decorating mode
+  decorations: PlacedOrnament[];
+  // Boxes with surprises in them; these are drawn (and clicked) on their own
+  gifts: GiftBoxState;
 }
 
-// Generate data with physics properties
-const usePhysicsOrnaments = (count: number, type: 'inner' | 'outer' | 'scatter') => {
-  return useMemo(() => {
-    const data = [];
-    for (let i = 0; i < count; i++) {
-      // Chaos Position (Exploded state)
-      const r = Math.cbrt(Math.random()) * 18 + 5; // Wide scatter
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      const cx = r * Math.sin(phi) * Math.cos(theta);
-      const cy = r * Math.sin(phi) * Math.sin(theta); 
-      const cz = r * Math.cos(phi);
-
-      // Target Position (Tree state)
-      const h = CONFIG.treeHeight;
-      const y = Math.random() * h * 0.9;
-      let levelRadius = (1 - y / h) * CONFIG.treeRadius;
-      
-      if (type === 'inner') levelRadius *= 0.5 + Math.random() * 0.3;
-      if (type === 'outer') levelRadius *= 0.9 + Math.random() * 0.2;
-
-      const angle = Math.random() * Math.PI * 2;
-      const tx = levelRadius * Math.cos(angle);
-      const ty = y;
-      const tz = levelRadius * Math.sin(angle);
-
-      // Random Rotation
-      const rot = new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
-
-      data.push({
-        chaosPos: new THREE.Vector3(cx, cy, cz),
-        targetPos: new THREE.Vector3(tx, ty, tz),
-        currentPos: new THREE.Vector3(tx, ty, tz),
-        velocity: new THREE.Vector3(0, 0, 0),
-        rotation: rot,
-        rotVelocity: new THREE.Vector3((Math.random()-0.5)*0.2, (Math.random()-0.5)*0.2, (Math.random()-0.5)*0.2),
-        mass: 0.5 + Math.random() * 1.5,
-        phase: Math.random() * Math.PI * 2
-      });
-    }
-    return data;
-  }, [count, type]);
+type Vec3 = [number, number, number];
+
+// Full count, placement, size and spring feel of each kind (the kind also salts its layout)
+const KINDS: Record<OrnamentKind, {
+  count: number;
+  placement: OrnamentPlacement;
+  scale: number;
+  stiffness: number;
+  damping: number;
+  noise: number;
+}> = {
+  balls: { count: 120, placement: 'outer', scale: 1.0, stiffness: 0.05, damping: 0.92, noise: 0.02 },
+  boxes: { count: 40, placement: 'scatter', scale: 0.6, stiffness: 0.04, damping: 0.90, noise: 0.03 },
+  diamonds: { count: 50, placement: 'outer', scale: 0.5, stiffness: 0.06, damping: 0.94, noise: 0.04 },
+  rings: { count: 60, placement: 'outer', scale: 0.4, stiffness: 0.05, damping: 0.93, noise: 0.02 },
+  icicles: { count: 60, placement: 'inner', scale: 0.5, stiffness: 0.05, damping: 0.93, noise: 0.02 },
 };
 
-const Ornaments: React.FC<OrnamentGroupProps> = ({ isFormed }) => {
-  // 1. Spheres (Reduced Size)
-  const ballCount = 120;
-  const balls = usePhysicsOrnaments(ballCount, 'outer');
-  const ballMesh = useRef<THREE.InstancedMesh>(null);
+// Order of the kinds in the simulation textures
+const KIND_ORDER = Object.keys(KINDS) as OrnamentKind[];
 
-  // 2. Gift Boxes
-  const boxCount = 40;
-  const boxes = usePhysicsOrnaments(boxCount, 'scatter');
-  const boxMesh = useRef<THREE.InstancedMesh>(null);
+const mapKinds = <T,>(fn: (kind: OrnamentKind) => T) =>
+  Object.fromEntries(KIND_ORDER.map((kind) => [kind, fn(kind)])) as Record<OrnamentKind, T>;
 
-  // 3. Diamonds
-  const diamondCount = 50;
-  const diamonds = usePhysicsOrnaments(diamondCount, 'outer');
-  const diamondMesh = useRef<THREE.InstancedMesh>(null);
+// Every kind's anchors, one after another, in simulation order
+const flattenAnchors = (
+  layouts: Record<OrnamentKind, OrnamentLayout[]>,
+  anchorOf: (kind: OrnamentKind, layout: OrnamentLayout, index: number) => Vec3
+) => {
+  const all = KIND_ORDER.flatMap((kind) => layouts[kind].map((layout, i) => anchorOf(kind, layout, i)));
+  const out = new Float32Array(all.length * 3);
+  all.forEach((anchor, i) => out.set(anchor, i * 3));
+  return out;
+};
 
-  // 4. Rings (New)
-  const ringCount = 60;
-  const rings = usePhysicsOrnaments(ringCount, 'outer');
-  const ringMesh = useRef<THREE.InstancedMesh>(null);
+// Room round the anchors for spring overshoot, chaos noise and the ornaments' own size
+const BOUNDS_MARGIN = 3;
+const boundsPoint = new THREE.Vector3();
+
+// Paint every instance from a palette, cycling through its colors
+const applyPalette = (mesh: THREE.InstancedMesh | null, palette: string[]) => {
+  if (!mesh || palette.length === 0) return;
+  const color = new THREE.Color();
+  for (let i = 0; i < mesh.count; i++) {
+    mesh.setColorAt(i, color.set(palette[i % palette.length]));
+  }
+  mesh.instanceColor!.needsUpdate = true;
+};
+
+interface OrnamentSetProps {
+  layouts: Record<OrnamentKind, OrnamentLayout[]>;
+  // Where each ornament's spring pulls it now (xyz, in simulation order)
+  anchors: Float32Array;
+  // Cycled over each kind's instances
+  colors: Record<OrnamentKind, string[]>;
+  isFormed: boolean;
+  transition: Transition;
+  quality: QualityPreset;
+  // Multiplies every kind's size (many ornaments are drawn smaller)
+  size?: number;
+}
+
+// One GPU simulation and an instanced mesh per kind. The generated ornaments and the hand-placed
+// ones are separate sets, so hanging an ornament never restarts the generated ones.
+const OrnamentSet: React.FC<OrnamentSetProps> = ({ layouts, anchors, colors, isFormed, transition, quality, size = 1 }) => {
+  const gl = useThree((state) => state.gl);
+  const { shadows, physicalMaterials } = quality;
+
+  const counts = useMemo(() => mapKinds((kind) => layouts[kind].length), [layouts]);
+  const offsets = useMemo(() => {
+    let offset = 0;
+    return mapKinds((kind) => {
+      const start = offset;
+      offset += counts[kind];
+      return start;
+    });
+  }, [counts]);
+
+  // 1. Physics on the GPU; rebuilt (and restarted from the tree) for new layouts
+  const simUniforms = useMemo(createOrnamentSimUniforms, []);
+  const [simulation, setSimulation] = useState<OrnamentSimulator | null>(null);
 
-  // 5. Icicles (New)
-  const icicleCount = 60;
-  const icicles = usePhysicsOrnaments(icicleCount, 'inner');
+  useEffect(() => {
+    const ornaments = KIND_ORDER.flatMap((kind) => {
+      const { stiffness, damping, noise } = KINDS[kind];
+      return layouts[kind].map((layout): SimulatedOrnament => ({
+        position: layout.positions[TreeState.FORMED],
+        rotation: layout.rotation,
+        rotVelocity: layout.rotVelocity,
+        springK: stiffness / layout.mass,
+        damping,
+        noise,
+        phase: layout.phase,
+      }));
+    });
+    const sim = createOrnamentSimulation(gl, ornaments);
+    setSimulation(sim);
+    return () => sim.dispose();
+  }, [gl, layouts]);
+
+  useEffect(() => {
+    simulation?.setAnchors(anchors);
+  }, [simulation, anchors]);
+
+  // 2. Materials read each instance's pose from the simulation
+  const instancing = useMemo(() => mapKinds((kind) => createOrnamentInstancing(simUniforms, KINDS[kind].scale * size)), [simUniforms, size]);
+
+  useEffect(() => {
+    KIND_ORDER.forEach((kind) => {
+      instancing[kind].uniforms.uIndexOffset.value = offsets[kind];
+    });
+  }, [instancing, offsets]);
+
+  useEffect(() => () => KIND_ORDER.forEach((kind) => instancing[kind].depthMaterial.dispose()), [instancing]);
+
+  const ballMesh = useRef<THREE.InstancedMesh>(null);
+  const boxMesh = useRef<THREE.InstancedMesh>(null);
+  const diamondMesh = useRef<THREE.InstancedMesh>(null);
+  const ringMesh = useRef<THREE.InstancedMesh>(null);
   const icicleMesh = useRef<THREE.InstancedMesh>(null);
 
-  const tempObj = useMemo(() => new THREE.Object3D(), []);
-  const tempVec = useMemo(() => new THREE.Vector3(), []);
+  // The simulation places the instances (their matrices stay identity), so three.js can't work out
+  // where they are. Every mesh gets a sphere round all the places its ornaments head for instead,
+  // grown as the anchors move, so a set out of view (or out of a shadow camera's) is still culled.
+  const bounds = useMemo(() => {
+    const box = new THREE.Box3();
+    KIND_ORDER.forEach((kind) => layouts[kind].forEach(({ positions }) => {
+      Object.values(positions).forEach((p) => box.expandByPoint(boundsPoint.set(...p)));
+    }));
+    return { box, sphere: new THREE.Sphere() };
+  }, [layouts]);
 
-  useFrame((state, delta) => {
-    const dt = Math.min(delta, 0.1); 
-    const time = state.clock.elapsedTime;
-
-    // Physics Update Function
-    const updatePhysics = (
-      items: any[], 
-      mesh: THREE.InstancedMesh, 
-      scaleBase: number,
-      stiffness: number,
-      damping: number,
-      noiseStrength: number,
-      orientToUp: boolean = false
-    ) => {
-      for (let i = 0; i < items.length; i++) {
-        const item = items[i];
-        
-        const dest = isFormed ? item.targetPos : item.chaosPos;
-        
-        // Spring Force
-        tempVec.copy(dest).sub(item.currentPos).multiplyScalar(stiffness / item.mass);
-        item.velocity.add(tempVec);
-
-        // Chaos Noise
-        if (!isFormed) {
-          const noiseX = Math.sin(time * 0.5 + item.phase) * noiseStrength;
-          const noiseY = Math.cos(time * 0.3 + item.phase * 2) * noiseStrength;
-          const noiseZ = Math.sin(time * 0.7 + item.phase * 0.5) * noiseStrength;
-          item.velocity.add(new THREE.Vector3(noiseX, noiseY, noiseZ));
-        }
-
-        // Damping
-        item.velocity.multiplyScalar(damping);
-
-        // Update Position
-        item.currentPos.add(item.velocity.clone().multiplyScalar(dt * 60));
-
-        // Update Rotation
-        if (!isFormed) {
-            item.rotation.x += item.rotVelocity.x;
-            item.rotation.y += item.rotVelocity.y;
-            item.rotation.z += item.rotVelocity.z;
-        } else {
-            item.rotation.y += 0.01;
-            // Dampen other rotations back to 0 if needed, or just let them spin on Y
-        }
-
-        tempObj.position.copy(item.currentPos);
-        
-        if (orientToUp && isFormed) {
-             // For Icicles, point down
-             tempObj.rotation.set(Math.PI, 0, 0); // Point down
-        } else {
-             tempObj.rotation.copy(item.rotation);
-        }
-        
-        const s = scaleBase + Math.sin(time + i) * 0.05;
-        tempObj.scale.setScalar(s);
-
-        tempObj.updateMatrix();
-        mesh.setMatrixAt(i, tempObj.matrix);
-      }
-      mesh.instanceMatrix.needsUpdate = true;
-    };
+  useEffect(() => {
+    const { box, sphere } = bounds;
+    for (let i = 0; i < anchors.length; i += 3) box.expandByPoint(boundsPoint.fromArray(anchors, i));
+    box.getBoundingSphere(sphere);
+    if (!sphere.isEmpty()) sphere.radius += BOUNDS_MARGIN;
+    [ballMesh, boxMesh, diamondMesh, ringMesh, icicleMesh].forEach((mesh) => {
+      if (mesh.current) mesh.current.boundingSphere = sphere;
+    });
+  }, [bounds, anchors, counts]);
 
-    if (ballMesh.current) updatePhysics(balls, ballMesh.current, 1.0, 0.05, 0.92, 0.02);
-    if (boxMesh.current) updatePhysics(boxes, boxMesh.current, 0.6, 0.04, 0.90, 0.03);
-    if (diamondMesh.current) updatePhysics(diamonds, diamondMesh.current, 0.5, 0.06, 0.94, 0.04);
-    if (ringMesh.current) updatePhysics(rings, ringMesh.current, 0.4, 0.05, 0.93, 0.02);
-    if (icicleMesh.current) updatePhysics(icicles, icicleMesh.current, 0.5, 0.05, 0.93, 0.02, true);
-    
-    // Initial Colors (run once check)
-    if (ballMesh.current && !ballMesh.current.userData.colored) {
-        for(let i=0; i<ballCount; i++) {
-             const c = i % 3 === 0 ? CONFIG.colors.red : (i % 3 === 1 ? CONFIG.colors.gold : '#B8860B');
-             ballMesh.current.setColorAt(i, new THREE.Color(c));
-        }
-        ballMesh.current.instanceColor!.needsUpdate = true;
-        ballMesh.current.userData.colored = true;
-    }
-    
-    if (boxMesh.current && !boxMesh.current.userData.colored) {
-        for(let i=0; i<boxCount; i++) {
-             const c = i % 2 === 0 ? '#003311' : CONFIG.colors.gold;
-             boxMesh.current.setColorAt(i, new THREE.Color(c));
-        }
-        boxMesh.current.instanceColor!.needsUpdate = true;
-        boxMesh.current.userData.colored = true;
-    }
-    
-    if (diamondMesh.current && !diamondMesh.current.userData.colored) {
-        for(let i=0; i<diamondCount; i++) {
-             diamondMesh.current.setColorAt(i, new THREE.Color('#E0FFFF'));
-        }
-        diamondMesh.current.instanceColor!.needsUpdate = true;
-        diamondMesh.current.userData.colored = true;
-    }
-
-    if (ringMesh.current && !ringMesh.current.userData.colored) {
-        for(let i=0; i<ringCount; i++) {
-             ringMesh.current.setColorAt(i, new THREE.Color(CONFIG.colors.gold));
-        }
-        ringMesh.current.instanceColor!.needsUpdate = true;
-        ringMesh.current.userData.colored = true;
-    }
-
-    if (icicleMesh.current && !icicleMesh.current.userData.colored) {
-        for(let i=0; i<icicleCount; i++) {
-             icicleMesh.current.setColorAt(i, new THREE.Color('#FFFFFF'));
-        }
-        icicleMesh.current.instanceColor!.needsUpdate = true;
-        icicleMesh.current.userData.colored = true;
-    }
+  // Instance Colors (re-applied whenever the colors or the meshes change)
+  useEffect(() => {
+    applyPalette(ballMesh.current, colors.balls);
+    applyPalette(boxMesh.current, colors.boxes);
+    applyPalette(diamondMesh.current, colors.diamonds);
+    applyPalette(ringMesh.current, colors.rings);
+    applyPalette(icicleMesh.current, colors.icicles);
+  }, [colors, counts]);
 
+  const audio = useAudioReactive();
+
+  useFrame((state, delta) => {
+    if (!simulation) return;
+    // Music makes the ornaments wobble harder
+    simUniforms.uTime.value = state.clock.elapsedTime;
+    simUniforms.uWobble.value = 0.05 + audio('ornamentWobble') * 0.15;
+    // Icicles hang straight down once assembled
+    instancing.icicles.uniforms.uPointDown.value = isFormed ? 1 : 0;
+    simulation.step(transition, !isFormed, state.clock.elapsedTime, delta, simUniforms);
+  });
+
+  // Shared by every kind's mesh (culled against `bounds` above)
+  const meshProps = (kind: OrnamentKind) => ({
+    args: [undefined, undefined, counts[kind]] as [undefined, undefined, number],
+    visible: simulation !== null,
+    castShadow: shadows,
+    customDepthMaterial: instancing[kind].depthMaterial,
   });
 
   return (
     <group>
       {/* 1. Balls - Reduced Size (0.5 radius) */}
-      <instancedMesh ref={ballMesh} args={[undefined, undefined, ballCount]} castShadow receiveShadow>
-        <sphereGeometry args={[0.5, 32, 32]} />
-        <meshPhysicalMaterial 
-            metalness={0.7} 
-            roughness={0.1} 
-            clearcoat={1.0}
-            envMapIntensity={2.0} 
-        />
-      </instancedMesh>
+      {counts.balls > 0 && (
+        <instancedMesh ref={ballMesh} {...meshProps('balls')} receiveShadow={shadows}>
+          <sphereGeometry args={[0.5, quality.sphereSegments, quality.sphereSegments]} />
+          {physicalMaterials ? (
+            <meshPhysicalMaterial 
+                metalness={0.7} 
+                roughness={0.1} 
+                clearcoat={1.0}
+                envMapIntensity={2.0} 
+                onBeforeCompile={instancing.balls.onBeforeCompile}
+            />
+          ) : (
+            <meshStandardMaterial metalness={0.7} roughness={0.1} envMapIntensity={2.0} onBeforeCompile={instancing.balls.onBeforeCompile} />
+          )}
+        </instancedMesh>
+      )}
 
       {/* 2. Boxes */}
-      <instancedMesh ref={boxMesh} args={[undefined, undefined, boxCount]} castShadow>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshStandardMaterial 
-            metalness={0.4} 
-            roughness={0.4} 
-            envMapIntensity={1}
-        />
-      </instancedMesh>
-
-      {/* 3. Diamonds */}
-      <instancedMesh ref={diamondMesh} args={[undefined, undefined, diamondCount]} castShadow>
-         <octahedronGeometry args={[1, 0]} />
-         <meshPhysicalMaterial 
-            color="#ffffff"
-            metalness={0.1}
-            roughness={0}
-            transmission={0.9}
-            thickness={2.0}
-            ior={1.5}
-            envMapIntensity={2}
-         />
-      </instancedMesh>
+      {counts.boxes > 0 && (
+        <instancedMesh ref={boxMesh} {...meshProps('boxes')}>
+          <boxGeometry args={[1, 1, 1]} />
+          <meshStandardMaterial 
+              metalness={0.4} 
+              roughness={0.4} 
+              envMapIntensity={1}
+              onBeforeCompile={instancing.boxes.onBeforeCompile}
+          />
+        </instancedMesh>
+      )}
+
+      {/* 3. Diamonds (glass needs an extra transmission pass; lower tiers fake it with opacity) */}
+      {counts.diamonds > 0 && (
+        <instancedMesh ref={diamondMesh} {...meshProps('diamonds')}>
+           <octahedronGeometry args={[1, 0]} />
+           {physicalMaterials ? (
+             <meshPhysicalMaterial 
+                color="#ffffff"
+                metalness={0.1}
+                roughness={0}
+                transmission={0.9}
+                thickness={2.0}
+                ior={1.5}
+                envMapIntensity={2}
+                onBeforeCompile={instancing.diamonds.onBeforeCompile}
+             />
+           ) : (
+             <meshStandardMaterial color="#ffffff" metalness={0.3} roughness={0} transparent opacity={0.6} envMapIntensity={2} onBeforeCompile={instancing.diamonds.onBeforeCompile} />
+           )}
+        </instancedMesh>
+      )}
 
       {/* 4. Rings (Torus) - NEW */}
-      <instancedMesh ref={ringMesh} args={[undefined, undefined, ringCount]} castShadow>
-         <torusGeometry args={[0.6, 0.1, 16, 32]} />
-         <meshStandardMaterial 
-            metalness={1.0}
-            roughness={0.15}
-            color={CONFIG.colors.gold}
-         />
-      </instancedMesh>
+      {counts.rings > 0 && (
+        <instancedMesh ref={ringMesh} {...meshProps('rings')}>
+           <torusGeometry args={[0.6, 0.1, 16, 32]} />
+           <meshStandardMaterial 
+              metalness={1.0}
+              roughness={0.15}
+              onBeforeCompile={instancing.rings.onBeforeCompile}
+           />
+        </instancedMesh>
+      )}
 
       {/* 5. Icicles (Cone) - NEW */}
-      <instancedMesh ref={icicleMesh} args={[undefined, undefined, icicleCount]} castShadow>
-         <coneGeometry args={[0.15, 1.5, 8]} />
-         <meshPhysicalMaterial 
-            color="#E0FFFF"
-            metalness={0.2}
-            roughness={0.05}
-            transmission={0.8}
-            opacity={0.9}
-            transparent
-            ior={1.3}
-         />
-      </instancedMesh>
+      {counts.icicles > 0 && (
+        <instancedMesh ref={icicleMesh} {...meshProps('icicles')}>
+           <coneGeometry args={[0.15, 1.5, 8]} />
+           {physicalMaterials ? (
+             <meshPhysicalMaterial 
+                color="#E0FFFF"
+                metalness={0.2}
+                roughness={0.05}
+                transmission={0.8}
+                opacity={0.9}
+                transparent
+                ior={1.3}
+                onBeforeCompile={instancing.icicles.onBeforeCompile}
+             />
+           ) : (
+             <meshStandardMaterial color="#E0FFFF" metalness={0.2} roughness={0.05} transparent opacity={0.7} onBeforeCompile={instancing.icicles.onBeforeCompile} />
+           )}
+        </instancedMesh>
+      )}
+    </group>
+  );
+};
+
+const Ornaments: React.FC<OrnamentGroupProps> = ({ treeState, theme, seed, customShape, transition, quality, decorations, gifts }) => {
+  const isFormed = isAssembled(treeState);
+  const { ornamentScale } = quality;
+
+  // 1. Generated: every kind's seeded ornaments. Gift boxes are known by their place in the full
+  // layout, so every tier generates all of them; a lower tier just instances fewer of the plain ones.
+  // Past the full count (Max) there are thousands, drawn smaller so the tree keeps its shape.
+  const tierCount = (kind: OrnamentKind) => Math.max(1, Math.round(KINDS[kind].count * ornamentScale));
+  const counts = useMemo(() => mapKinds((kind) => (kind === 'boxes' ? Math.max(KINDS.boxes.count, tierCount(kind)) : tierCount(kind))), [ornamentScale]);
+  const shownBoxes = tierCount('boxes');
+  const ornamentSize = Math.min(1, 1 / Math.cbrt(ornamentScale));
+  const layouts = useMemo(
+    () => mapKinds((kind) => generateOrnamentLayout(counts[kind], KINDS[kind].placement, seed, kind)),
+    [counts, seed]
+  );
+
+  // A message / silhouette moves the CUSTOM anchors (along its outline); without one they match the tree
+  const customAnchors = useMemo(
+    () => customShape
+      ? mapKinds((kind) => generateCustomOrnamentAnchors(counts[kind], KINDS[kind].placement, seed, kind, customShape))
+      : null,
+    [counts, seed, customShape]
+  );
+
+  const formationAnchors = useMemo(() => mapKinds((kind) => layouts[kind].map((layout, i) =>
+    treeState === TreeState.CUSTOM
+      ? customAnchors?.[kind][i] ?? layout.positions[TreeState.FORMED]
+      : layout.positions[treeState]
+  )), [layouts, customAnchors, treeState]);
+
+  // Boxes with a surprise leave the instanced set (the rest keep their place in it), and are drawn
+  // even past this tier's share of boxes
+  const wrappedKey = gifts.wrapped.join(',');
+  const instanced = useMemo(() => {
+    const wrapped = new Set(gifts.wrapped);
+    const indices = mapKinds((kind) => layouts[kind].map((_, i) => i).filter((i) => kind !== 'boxes' || (i < shownBoxes && !wrapped.has(i))));
+    return { indices, layouts: mapKinds((kind) => indices[kind].map((i) => layouts[kind][i])) };
+  }, [layouts, wrappedKey, shownBoxes]);
+
+  const anchors = useMemo(
+    () => flattenAnchors(instanced.layouts, (kind, _, i) => formationAnchors[kind][instanced.indices[kind][i]]),
+    [instanced, formationAnchors]
+  );
+
+  // Every box keeps its palette color whether it's instanced or wrapped
+  const boxColors = useMemo(
+    () => layouts.boxes.map((_, i) => theme.ornaments.boxes[i % theme.ornaments.boxes.length]),
+    [layouts, theme]
+  );
+
+  const colors = useMemo(() => {
+    const { ornaments } = theme;
+    return {
+      balls: ornaments.balls,
+      boxes: instanced.indices.boxes.map((i) => boxColors[i]),
+      diamonds: [ornaments.diamonds],
+      rings: [ornaments.rings],
+      icicles: [ornaments.icicles],
+    };
+  }, [theme, instanced, boxColors]);
+
+  // 2. Hand-placed. Their layouts only follow which ornaments exist: moving one just moves its
+  // anchor (the positions read here only seed a rebuilt simulation)
+  const placedIds = decorations.map((o) => o.id).join(',');
+  const placedLayouts = useMemo(
+    () => mapKinds((kind) => decorations.filter((o) => o.kind === kind).map((o) => generatePlacedOrnamentLayout(o, seed))),
+    [placedIds, seed]
+  );
+
+  const placedByKind = useMemo(() => mapKinds((kind) => decorations.filter((o) => o.kind === kind)), [decorations]);
+
+  const placedCustomAnchors = useMemo(
+    () => customShape
+      ? mapKinds((kind) => generateCustomOrnamentAnchors(placedLayouts[kind].length, 'outer', seed, `decoration:${kind}`, customShape))
+      : null,
+    [placedLayouts, seed, customShape]
+  );
+
+  const placedAnchors = useMemo(() => flattenAnchors(placedLayouts, (kind, layout, i) => {
+    if (treeState === TreeState.FORMED) return placedByKind[kind][i]?.position ?? layout.positions[TreeState.FORMED];
+    if (treeState === TreeState.CUSTOM) return placedCustomAnchors?.[kind][i] ?? placedByKind[kind][i]?.position ?? layout.positions[TreeState.FORMED];
+    return layout.positions[treeState];
+  }), [placedLayouts, placedByKind, placedCustomAnchors, treeState]);
+
+  // Hand-placed ornaments keep their own color
+  const placedPalette = useMemo(() => mapKinds((kind) => placedByKind[kind].map((o) => o.color)), [placedByKind]);
+
+  return (
+    <group>
+      <OrnamentSet layouts={instanced.layouts} anchors={anchors} colors={colors} isFormed={isFormed} transition={transition} quality={quality} size={ornamentSize} />
+      <GiftBoxes
+        gifts={gifts}
+        layouts={layouts.boxes}
+        shownCount={Math.min(shownBoxes, KINDS.boxes.count)}
+        anchors={formationAnchors.boxes}
+        colors={boxColors}
+        physics={KINDS.boxes}
+        isFormed={isFormed}
+        transition={transition}
+        palette={theme.ornaments.balls}
+      />
+      {decorations.length > 0 && (
+        <OrnamentSet layouts={placedLayouts} anchors={placedAnchors} colors={placedPalette} isFormed={isFormed} transition={transition} quality={quality} />
+      )}
     </group>
   );
 };
 
-export default Ornaments;
\ No newline at end of file
+export default Ornaments;
@@ -1,88 +1,419 @@
-import React, { useRef } from 'react';
-import { TreeState } from '../types';
+import React, { useRef, useState } from 'react';
+import { CountdownSettings, EnvironmentId, LibraryPhoto, OrnamentKind, PhotoMetaPatch, QualitySetting, QualityTier, ScenePhoto, SlideshowSettings, SnowDensity, Theme, TimelineSettings, TreeState, UploadProgress } from '../types';
+import { CustomThemeInput } from '../utils/themes';
+import { PhotoImportMode } from '../utils/photoLibrary';
+import PhotoLibraryPanel from './PhotoLibraryPanel';
+import UploadProgressPanel from './UploadProgressPanel';
+import LightboxBar from './LightboxBar';
+import SlideshowControls from './SlideshowControls';
+import ThemePicker from './ThemePicker';
+import SeedControl from './SeedControl';
+import QualityControl from './QualityControl';
+import SnowControls from './SnowControls';
+import MusicControls from './MusicControls';
+import FormationPicker from './FormationPicker';
+import TransitionProgress from './TransitionProgress';
+import MessagePanel from './MessagePanel';
+import DecoratingPanel from './DecoratingPanel';
+import GiftEditor, { GiftEditorProps } from './GiftEditor';
+import SceneFileControls, { SceneFileStatus } from './SceneFileControls';
+import LightsControls from './LightsControls';
+import EnvironmentControl from './EnvironmentControl';
+import TransitionControl from './TransitionControl';
+import DirectorBar from './DirectorBar';
+import KioskControl from './KioskControl';
+import CountdownControl from './CountdownControl';
+import { LightSettings } from '../utils/lightShow';
 
 interface OverlayProps {
   treeState: TreeState;
-  onToggle: () => void;
+  onSelectFormation: (formation: TreeState) => void;
+  // Custom formation (message / silhouette); the callbacks resolve true once the shape is in place
+  hasCustomShape: boolean;
+  message: string;
+  isDrawingShape: boolean;
+  shapeError: string | null;
+  onSpellMessage: (text: string) => Promise<boolean>;
+  onUploadShape: (file: File) => Promise<boolean>;
   snowEnabled: boolean;
   onToggleSnow: () => void;
-  onUploadPhotos: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  snowDensity: SnowDensity;
+  onSnowDensityChange: (density: SnowDensity) => void;
+  onUploadPhotos: (files: File[], mode: PhotoImportMode) => void;
   hasPhotos: boolean;
+  libraryPhotos: LibraryPhoto[];
+  onDeletePhoto: (id: string) => void;
+  onReorderPhotos: (ids: string[]) => void;
+  onUpdatePhoto: (id: string, patch: PhotoMetaPatch) => void;
+  libraryError: string | null;
+  onDismissLibraryError: () => void;
+  defaultCaptionColor: string;
   onNextPhoto: () => void;
   onPrevPhoto: () => void;
+  slideshow: SlideshowSettings;
+  onSlideshowChange: (settings: SlideshowSettings) => void;
+  countdown: CountdownSettings;
+  onCountdownChange: (settings: CountdownSettings) => void;
+  // Photo open in the lightbox
+  lightbox: { photo: ScenePhoto; index: number; total: number } | null;
+  onLightboxPrev: () => void;
+  onLightboxNext: () => void;
+  onCloseLightbox: () => void;
   isProcessing: boolean;
+  uploads: UploadProgress[];
+  onDismissUploads: () => void;
+  themes: Theme[];
+  activeThemeId: string;
+  onSelectTheme: (id: string) => void;
+  onSaveCustomTheme: (input: CustomThemeInput) => void;
+  onDeleteCustomTheme: (id: string) => void;
+  seed: number;
+  onSeedChange: (seed: number) => void;
+  onShuffleSeed: () => void;
+  qualitySetting: QualitySetting;
+  qualityTier: QualityTier;
+  onQualityChange: (setting: QualitySetting) => void;
+  environmentId: EnvironmentId;
+  onEnvironmentChange: (id: EnvironmentId) => void;
+  // Formation change duration and easing
+  timelineSettings: TimelineSettings;
+  onTimelineChange: (settings: TimelineSettings) => void;
+  // Decorating mode: hang ornaments by hand
+  isDecorating: boolean;
+  onToggleDecorating: () => void;
+  decorKind: OrnamentKind;
+  onDecorKindChange: (kind: OrnamentKind) => void;
+  decorColor: string;
+  onDecorColorChange: (color: string) => void;
+  decorationCount: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClearDecorations: () => void;
+  // Wrapping mode: hide surprises in the gift boxes
+  isWrapping: boolean;
+  onToggleWrapping: () => void;
+  giftEditor: GiftEditorProps;
+  // Garland lights
+  lights: LightSettings;
+  onLightsChange: (settings: LightSettings) => void;
+  // Kiosk mode; the whole overlay fades out while the kiosk runs unattended
+  isHidden: boolean;
+  isKiosk: boolean;
+  onToggleKiosk: () => void;
+  // Presentation (camera director)
+  isPresenting: boolean;
+  onTogglePresenting: () => void;
+  // Scene files (.tree.json)
+  onSaveScene: () => void;
+  onLoadScene: (file: File) => void;
+  sceneFileStatus: SceneFileStatus | null;
+  onDismissSceneFileStatus: () => void;
 }
 
 const Overlay: React.FC<OverlayProps> = ({ 
   treeState, 
-  onToggle, 
+  onSelectFormation, 
+  hasCustomShape,
+  message,
+  isDrawingShape,
+  shapeError,
+  onSpellMessage,
+  onUploadShape,
+  snowEnabled,
+  onToggleSnow,
+  snowDensity,
+  onSnowDensityChange,
   onUploadPhotos,
+  libraryPhotos,
+  onDeletePhoto,
+  onReorderPhotos,
+  onUpdatePhoto,
+  libraryError,
+  onDismissLibraryError,
+  defaultCaptionColor,
   onNextPhoto,
   onPrevPhoto,
-  isProcessing
+  slideshow,
+  onSlideshowChange,
+  countdown,
+  onCountdownChange,
+  lightbox,
+  onLightboxPrev,
+  onLightboxNext,
+  onCloseLightbox,
+  isProcessing,
+  uploads,
+  onDismissUploads,
+  themes,
+  activeThemeId,
+  onSelectTheme,
+  onSaveCustomTheme,
+  onDeleteCustomTheme,
+  seed,
+  onSeedChange,
+  onShuffleSeed,
+  qualitySetting,
+  qualityTier,
+  onQualityChange,
+  environmentId,
+  onEnvironmentChange,
+  timelineSettings,
+  onTimelineChange,
+  isDecorating,
+  onToggleDecorating,
+  decorKind,
+  onDecorKindChange,
+  decorColor,
+  onDecorColorChange,
+  decorationCount,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClearDecorations,
+  isWrapping,
+  onToggleWrapping,
+  giftEditor,
+  lights,
+  onLightsChange,
+  isHidden,
+  isKiosk,
+  onToggleKiosk,
+  isPresenting,
+  onTogglePresenting,
+  onSaveScene,
+  onLoadScene,
+  sceneFileStatus,
+  onDismissSceneFileStatus
 }) => {
-  const isFormed = treeState === TreeState.FORMED;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<PhotoImportMode>('add');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isMessageOpen, setIsMessageOpen] = useState(false);
 
-  const triggerUpload = () => {
+  const applyShape = async (apply: Promise<boolean>) => {
+    if (await apply) setIsMessageOpen(false);
+  };
+
+  const triggerUpload = (mode: PhotoImportMode) => {
+    importModeRef.current = mode;
     fileInputRef.current?.click();
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same files again still fires a change
+    e.target.value = '';
+    if (files.length > 0) onUploadPhotos(files, importModeRef.current);
+  };
+
   return (
-    <div className="absolute inset-0 pointer-events-none flex flex-col justify-end items-center pb-12 z-10">
+    // Hidden also means inert, so the tap that wakes the UI can't press a control nobody can see
+    <div inert={isHidden} className={`absolute inset-0 pointer-events-none flex flex-col justify-end items-center pb-12 z-10 transition-opacity duration-700 ${isHidden ? 'opacity-0' : ''}`}>
+
+      {/* Theme Selection */}
+      <ThemePicker
+        themes={themes}
+        activeThemeId={activeThemeId}
+        onSelect={onSelectTheme}
+        onSaveCustom={onSaveCustomTheme}
+        onDeleteCustom={onDeleteCustomTheme}
+      />
+
+      {/* Layout Seed */}
+      <SeedControl seed={seed} onChange={onSeedChange} onShuffle={onShuffleSeed} />
+
+      {/* Rendering Quality */}
+      <QualityControl setting={qualitySetting} tier={qualityTier} onChange={onQualityChange} />
+
+      {/* Snow */}
+      <SnowControls enabled={snowEnabled} onToggle={onToggleSnow} density={snowDensity} onDensityChange={onSnowDensityChange} />
+
+      {/* Environment */}
+      <EnvironmentControl environmentId={environmentId} onChange={onEnvironmentChange} />
+
+      {/* Kiosk Mode */}
+      <KioskControl enabled={isKiosk} onToggle={onToggleKiosk} />
+
+      {/* Formation Transitions */}
+      <TransitionControl settings={timelineSettings} onChange={onTimelineChange} />
+
+      {/* Countdown */}
+      <CountdownControl settings={countdown} onChange={onCountdownChange} />
+
+      {/* Save / Load */}
+      <SceneFileControls onSave={onSaveScene} onLoad={onLoadScene} status={sceneFileStatus} onDismissStatus={onDismissSceneFileStatus} />
+
+      {/* Music */}
+      <MusicControls />
+
+      {/* Garland Lights */}
+      <LightsControls settings={lights} onChange={onLightsChange} />
       
-      {/* Gallery Navigation - Minimal Icons */}
-      <div className="flex items-center gap-12 mb-8 pointer-events-auto">
-          <button 
-              onClick={onPrevPhoto}
-              className="p-3 rounded-full border border-luxury-gold/30 bg-black/20 text-luxury-gold hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm"
-              aria-label="Previous Photo"
-          >
-              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
-          </button>
-          
-          <button 
-              onClick={onNextPhoto}
-              className="p-3 rounded-full border border-luxury-gold/30 bg-black/20 text-luxury-gold hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm"
-              aria-label="Next Photo"
-          >
-              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
-          </button>
-      </div>
+      {/* Upload Progress */}
+      {uploads.length > 0 && (
+        <UploadProgressPanel uploads={uploads} isProcessing={isProcessing} onDismiss={onDismissUploads} />
+      )}
+
+      {/* Local Photo Library */}
+      {isLibraryOpen && (
+        <PhotoLibraryPanel
+          photos={libraryPhotos}
+          onDelete={onDeletePhoto}
+          onReorder={onReorderPhotos}
+          onUpdate={onUpdatePhoto}
+          defaultCaptionColor={defaultCaptionColor}
+          error={libraryError}
+          onDismissError={onDismissLibraryError}
+        />
+      )}
+
+      {/* Lightbox Controls (replace the gallery navigation while a photo is open) */}
+      {lightbox && (
+        <LightboxBar
+          photo={lightbox.photo}
+          index={lightbox.index}
+          total={lightbox.total}
+          onPrev={onLightboxPrev}
+          onNext={onLightboxNext}
+          onClose={onCloseLightbox}
+        />
+      )}
+
+      {/* Gallery Navigation and slideshow */}
+      {!lightbox && (
+        <SlideshowControls settings={slideshow} onChange={onSlideshowChange} onPrev={onPrevPhoto} onNext={onNextPhoto} />
+      )}
+
+      {/* Formation Picker (Primary) */}
+      {isMessageOpen && (
+        <MessagePanel
+          message={message}
+          isBusy={isDrawingShape}
+          error={shapeError}
+          onSpell={(text) => applyShape(onSpellMessage(text))}
+          onUploadShape={(file) => applyShape(onUploadShape(file))}
+        />
+      )}
+      {isDecorating && (
+        <DecoratingPanel
+          kind={decorKind}
+          onKindChange={onDecorKindChange}
+          color={decorColor}
+          onColorChange={onDecorColorChange}
+          count={decorationCount}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onClear={onClearDecorations}
+        />
+      )}
+      {isWrapping && <GiftEditor key={giftEditor.selectedBox ?? 'none'} {...giftEditor} />}
+      <DirectorBar onStop={onTogglePresenting} />
+      <FormationPicker
+        active={treeState}
+        onSelect={onSelectFormation}
+        hasCustom={hasCustomShape}
+        isEditingCustom={isMessageOpen}
+        onEditCustom={() => setIsMessageOpen((prev) => !prev)}
+      />
+      <TransitionProgress />
 
       {/* Main Actions Row */}
       <div className="flex gap-6 pointer-events-auto items-center items-end">
-        
-        {/* Toggle State Button (Primary - Larger) */}
+
+        {/* Upload Buttons (Secondary - Smaller) */}
+        {([
+          ['add', 'Add Photos'],
+          ['replace', 'Replace Photos'],
+        ] as const).map(([mode, label]) => (
+          <button
+              key={mode}
+              onClick={() => triggerUpload(mode)}
+              disabled={isProcessing}
+              className={`
+                  px-4 py-1.5 bg-luxury-gold/5
+                  border border-luxury-gold/50 text-luxury-gold/80
+                  hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold hover:opacity-100
+                  font-display font-bold tracking-wider uppercase text-xs
+                  transition-all duration-300 backdrop-blur-md
+                  rounded-sm
+                  ${isProcessing ? 'opacity-50 cursor-wait' : ''}
+              `}
+          >
+              {isProcessing ? 'Processing...' : label}
+          </button>
+        ))}
+
+        {/* Library Toggle */}
         <button
-          onClick={onToggle}
-          className={`
-            px-6 py-2 bg-luxury-gold/10 
-            border border-luxury-gold text-luxury-gold
-            hover:bg-luxury-gold hover:text-luxury-green
-            font-display font-bold tracking-widest uppercase text-sm
-            transition-all duration-300 backdrop-blur-md
-            rounded-sm shadow-[0_0_10px_rgba(255,215,0,0.15)]
-          `}
+            onClick={() => setIsLibraryOpen((prev) => !prev)}
+            aria-expanded={isLibraryOpen}
+            className={`
+                px-4 py-1.5
+                border border-luxury-gold/50 text-luxury-gold/80
+                hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold
+                font-display font-bold tracking-wider uppercase text-xs
+                transition-all duration-300 backdrop-blur-md
+                rounded-sm
+                ${isLibraryOpen ? 'bg-luxury-gold/20' : 'bg-luxury-gold/5'}
+            `}
+        >
+            Library ({libraryPhotos.length})
+        </button>
+
+        {/* Decorating Mode Toggle */}
+        <button
+            onClick={onToggleDecorating}
+            aria-pressed={isDecorating}
+            className={`
+                px-4 py-1.5
+                border border-luxury-gold/50 text-luxury-gold/80
+                hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold
+                font-display font-bold tracking-wider uppercase text-xs
+                transition-all duration-300 backdrop-blur-md
+                rounded-sm
+                ${isDecorating ? 'bg-luxury-gold/20' : 'bg-luxury-gold/5'}
+            `}
+        >
+            {isDecorating ? 'Done Decorating' : 'Decorate'}
+        </button>
+
+        {/* Gift Wrapping Toggle */}
+        <button
+            onClick={onToggleWrapping}
+            aria-pressed={isWrapping}
+            className={`
+                px-4 py-1.5
+                border border-luxury-gold/50 text-luxury-gold/80
+                hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold
+                font-display font-bold tracking-wider uppercase text-xs
+                transition-all duration-300 backdrop-blur-md
+                rounded-sm
+                ${isWrapping ? 'bg-luxury-gold/20' : 'bg-luxury-gold/5'}
+            `}
         >
-            {isFormed ? 'Unleash Chaos' : 'Assemble Tree'}
+            {isWrapping ? 'Done Wrapping' : 'Gifts'}
         </button>
 
-        {/* Upload Button (Secondary - Smaller) */}
+        {/* Presentation Toggle */}
         <button
-            onClick={triggerUpload}
-            disabled={isProcessing}
+            onClick={onTogglePresenting}
+            aria-pressed={isPresenting}
             className={`
-                px-4 py-1.5 bg-luxury-gold/5
+                px-4 py-1.5
                 border border-luxury-gold/50 text-luxury-gold/80
-                hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold hover:opacity-100
+                hover:bg-luxury-gold hover:text-luxury-green hover:border-luxury-gold
                 font-display font-bold tracking-wider uppercase text-xs
                 transition-all duration-300 backdrop-blur-md
                 rounded-sm
-                ${isProcessing ? 'opacity-50 cursor-wait' : ''}
+                ${isPresenting ? 'bg-luxury-gold/20' : 'bg-luxury-gold/5'}
             `}
         >
-            {isProcessing ? 'Processing...' : 'Change Photos'}
+            {isPresenting ? 'Stop Presenting' : 'Present'}
         </button>
 
         <input 
@@ -91,7 +422,7 @@ const Overlay: React.FC<OverlayProps> = ({
             multiple 
             accept="image/*" 
             className="hidden" 
-            onChange={onUploadPhotos}
+            onChange={handleFileChange}
         />
       </div>
     </div>
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { CaptionFontId, LibraryPhoto, PhotoMetaPatch } from '../types';
+import { CAPTION_FONTS, DEFAULT_CAPTION, MAX_CAPTION_LENGTH } from '../utils/captions';
+
+interface PhotoLibraryPanelProps {
+  photos: LibraryPhoto[];
+  onDelete: (id: string) => void;
+  onReorder: (ids: string[]) => void;
+  onUpdate: (id: string, patch: PhotoMetaPatch) => void;
+  defaultCaptionColor: string;
+  // The last library change that couldn't be saved
+  error: string | null;
+  onDismissError: () => void;
+}
+
+const iconButton = `
+  w-5 h-5 flex items-center justify-center rounded-sm bg-black/70 text-luxury-gold text-[10px] leading-none
+  hover:bg-luxury-gold hover:text-luxury-green transition-all disabled:opacity-30 disabled:pointer-events-none
+`;
+
+interface CaptionEditorProps {
+  photo: LibraryPhoto;
+  onUpdate: (id: string, patch: PhotoMetaPatch) => void;
+  defaultColor: string;
+}
+
+// Caption text is saved on blur/Enter; font and color apply immediately
+const CaptionEditor: React.FC<CaptionEditorProps> = ({ photo, onUpdate, defaultColor }) => {
+  const [draft, setDraft] = useState(photo.caption);
+
+  useEffect(() => {
+    setDraft(photo.caption);
+  }, [photo.id, photo.caption]);
+
+  const commit = () => {
+    if (draft !== photo.caption) onUpdate(photo.id, { caption: draft });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-luxury-gold/20 font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <input
+        type="text"
+        value={draft}
+        maxLength={MAX_CAPTION_LENGTH}
+        placeholder={DEFAULT_CAPTION}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        aria-label={`Caption for ${photo.name}`}
+        className="flex-1 min-w-[12rem] bg-transparent border-b border-luxury-gold/40 px-1 py-0.5 outline-none normal-case tracking-normal text-sm text-luxury-goldLight placeholder:text-luxury-gold/40"
+      />
+      <select
+        value={photo.captionFont ?? 'default'}
+        onChange={(e) => onUpdate(photo.id, { captionFont: e.target.value as CaptionFontId })}
+        aria-label="Caption font"
+        className="bg-black/40 border border-luxury-gold/30 rounded-sm px-1 py-0.5 outline-none"
+      >
+        {(Object.keys(CAPTION_FONTS) as CaptionFontId[]).map((id) => (
+          <option key={id} value={id}>{CAPTION_FONTS[id].label}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2">
+        Color
+        <input
+          type="color"
+          value={photo.captionColor ?? defaultColor}
+          onChange={(e) => onUpdate(photo.id, { captionColor: e.target.value.toUpperCase() })}
+          className="w-8 h-5 bg-transparent border-0 cursor-pointer"
+        />
+      </label>
+      {photo.captionColor && (
+        <button
+          onClick={() => onUpdate(photo.id, { captionColor: undefined })}
+          className="underline underline-offset-2 hover:text-luxury-gold"
+        >
+          Theme Color
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Thumbnail strip of the local library: reorder with the arrows, remove with ×, click to edit the caption
+const PhotoLibraryPanel: React.FC<PhotoLibraryPanelProps> = ({ photos, onDelete, onReorder, onUpdate, defaultCaptionColor, error, onDismissError }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = photos.find((p) => p.id === selectedId);
+
+  const move = (index: number, direction: -1 | 1) => {
+    const ids = photos.map((p) => p.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    onReorder(ids);
+  };
+
+  if (photos.length === 0) {
+    return (
+      <div className="px-4 py-3 mb-6 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm text-luxury-gold/70 font-display text-xs tracking-wider uppercase pointer-events-auto">
+        Your library is empty
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-[90vw] mb-6 p-3 border border-luxury-gold/20 bg-black/30 backdrop-blur-md rounded-sm pointer-events-auto">
+      <ul className="flex gap-3 overflow-x-auto">
+        {photos.map((photo, i) => (
+          <li key={photo.id} className="relative shrink-0 group">
+            <button
+              onClick={() => setSelectedId(photo.id === selectedId ? null : photo.id)}
+              aria-pressed={photo.id === selectedId}
+              aria-label={`Edit caption of ${photo.name}`}
+              className="block"
+            >
+              <img
+                src={photo.thumbnailUrl}
+                alt={photo.caption || photo.name}
+                title={photo.caption || photo.name}
+                className={`w-16 h-16 object-cover rounded-sm border ${photo.id === selectedId ? 'border-luxury-gold' : 'border-luxury-gold/30'}`}
+              />
+            </button>
+            <div className="absolute inset-x-0 bottom-0 flex justify-between p-0.5 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+              <button onClick={() => move(i, -1)} disabled={i === 0} className={iconButton} aria-label={`Move ${photo.name} earlier`}>
+                ‹
+              </button>
+              <button onClick={() => move(i, 1)} disabled={i === photos.length - 1} className={iconButton} aria-label={`Move ${photo.name} later`}>
+                ›
+              </button>
+            </div>
+            <button
+              onClick={() => onDelete(photo.id)}
+              className={`${iconButton} absolute top-0.5 right-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100`}
+              aria-label={`Delete ${photo.name}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      {selected && <CaptionEditor photo={selected} onUpdate={onUpdate} defaultColor={defaultCaptionColor} />}
+      {error && (
+        <p role="alert" className="mt-2 flex items-center gap-2 font-serif text-xs text-red-300">
+          {error}
+          <button onClick={onDismissError} className="text-luxury-gold/70 hover:text-luxury-gold" aria-label="Dismiss">
+            ×
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PhotoLibraryPanel;
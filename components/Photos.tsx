@@ -1,24 +1,61 @@
 import React, { useMemo, useRef, useState, useEffect, Suspense } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { useTexture, Text } from '@react-three/drei';
+import { useCursor, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { CONFIG, DualPosition } from '../types';
+import { CONFIG, MorphTargets, PhotoInspection, PhotoTransition, ScenePhoto, Theme, TreeState } from '../types';
+import { CAPTION_FONTS, CAPTION_LINE_HEIGHT, fitCaption } from '../utils/captions';
+import { generatePhotoLayout, maxPhotoSlots } from '../utils/layouts';
+import { FormationShape, isAssembled, mapFormations } from '../utils/formations';
+import { createRng } from '../utils/random';
+import { getLoadedPhotoTexture, loadPhotoTexture, preloadPhotoTexture, retainPhotoTexture } from '../utils/photoTextures';
+import { Transition, heightTier, timelineNow } from '../utils/timeline';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 
 interface PhotosProps {
-  isFormed: boolean;
+  treeState: TreeState;
   count: number;
-  userPhotos: string[];
+  photos: ScenePhoto[];
   photoOffset: number;
+  theme: Theme;
+  seed: number;
+  // Photo open in the lightbox, if any
+  inspection: PhotoInspection | null;
+  // Frame clicked: slot index and the library index of the photo it shows
+  onInspect: (inspection: PhotoInspection) => void;
+  // The user's message / silhouette, for the CUSTOM formation
+  customShape?: FormationShape;
+  // The choreography frames follow when the formation changes
+  transition: Transition;
+  // Slideshow: play order (shuffle), how frames change picture, and hover reports (to pause it)
+  photoOrder?: number[];
+  photoTransition: PhotoTransition;
+  onHoverChange?: (hovered: boolean) => void;
 }
 
 interface PhotoItemProps {
-  data: DualPosition;
-  isFormed: boolean;
+  data: MorphTargets;
+  treeState: TreeState;
+  transition: Transition;
   index: number;
-  url: string;
+  photo: ScenePhoto;
   isFeatured: boolean;
+  // Slot removed from the layout: shrink away in place, then unmount
+  isExiting?: boolean;
+  // Opened in the lightbox (clicked)
+  isInspected: boolean;
+  onSelect: (index: number) => void;
+  onHover: (index: number, hovered: boolean) => void;
+  theme: Theme;
+  photoTransition: PhotoTransition;
+  // Seconds this frame waits before changing picture, so a slideshow step ripples up the tree
+  swapDelay: number;
 }
 
+const EXIT_DURATION_MS = 1200;
+
+// Placeholder layout for exiting slots (they ignore their targets)
+const EMPTY_SLOT: MorphTargets = mapFormations(() => ({ position: [0, 0, 0], rotation: [0, 0, 0] }));
+
 // 1. Error Boundary to catch Texture Loading failures
 interface TextureErrorBoundaryProps {
   fallback: React.ReactNode;
@@ -43,35 +80,258 @@ class TextureErrorBoundary extends React.Component<TextureErrorBoundaryProps, Te
   }
 }
 
-// 2. Isolated Component that actually triggers useTexture
-const PhotoPlaneContent: React.FC<{ url: string }> = ({ url }) => {
-  // useTexture throws a Promise (Suspense) or an Error (Boundary)
-  const texture = useTexture(url);
+// 2. The photo itself. Changing picture blends from the old texture to the new one (never through
+// an empty frame): a plain crossfade, a card flip, or a shimmering dissolve with a glowing edge.
+const TRANSITION_INDEX: Record<PhotoTransition, number> = { crossfade: 0, flip: 1, shimmer: 2 };
+// Failed photos show this instead of the picture
+const FALLBACK_COLOR = '#333333';
+
+class PhotoTransitionMaterial extends THREE.ShaderMaterial {
+  declare uniforms: { [uniform: string]: THREE.IUniform };
+
+  constructor() {
+    super({
+      uniforms: {
+        uFrom: { value: null },
+        uTo: { value: null },
+        // Slots without a texture show a flat color: blank paper before the first photo, grey if it failed
+        uFromColor: { value: new THREE.Color() },
+        uToColor: { value: new THREE.Color() },
+        uHasFrom: { value: 0 },
+        uHasTo: { value: 0 },
+        uProgress: { value: 0 },
+        uMode: { value: 0 },
+      },
+      vertexShader: `
+        uniform float uProgress;
+        uniform int uMode;
+        varying vec2 vUv;
+        varying float vShade;
+        void main() {
+          vUv = uv;
+          vec3 p = position;
+          vShade = 1.0;
+          if (uMode == 1) {
+            // Card flip: the old picture turns edge-on, the new one turns back out
+            float turn = abs(cos(uProgress * 3.14159265));
+            p.x *= max(turn, 0.02);
+            vShade = 0.55 + 0.45 * turn;
+          }
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform sampler2D uFrom;
+        uniform sampler2D uTo;
+        uniform vec3 uFromColor;
+        uniform vec3 uToColor;
+        uniform float uHasFrom;
+        uniform float uHasTo;
+        uniform float uProgress;
+        uniform int uMode;
+        varying vec2 vUv;
+        varying float vShade;
+
+        float hash(vec2 p) {
+          return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+        }
+
+        float noise(vec2 p) {
+          vec2 i = floor(p);
+          vec2 f = fract(p);
+          vec2 u = f * f * (3.0 - 2.0 * f);
+          return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+        }
+
+        void main() {
+          vec3 from = uHasFrom > 0.5 ? texture2D(uFrom, vUv).rgb : uFromColor;
+          vec3 to = uHasTo > 0.5 ? texture2D(uTo, vUv).rgb : uToColor;
+          vec3 color;
+
+          if (uMode == 1) {
+            color = (uProgress < 0.5 ? from : to) * vShade;
+          } else if (uMode == 2) {
+            // Dissolve along a noise field; the moving edge glows (past 1.0, so Bloom catches it)
+            float n = noise(vUv * 9.0) * 0.6 + noise(vUv * 31.0) * 0.4;
+            float edge = uProgress * 1.2 - 0.1;
+            color = mix(from, to, smoothstep(edge - 0.02, edge + 0.02, n) > 0.5 ? 0.0 : 1.0);
+            float glow = 1.0 - smoothstep(0.0, 0.06, abs(n - edge));
+            color += glow * vec3(1.6, 1.3, 0.7) * step(0.001, uProgress) * step(uProgress, 0.999);
+          } else {
+            color = mix(from, to, uProgress);
+          }
+
+          gl_FragColor = vec4(color, 1.0);
+          #include <colorspace_fragment>
+        }
+      `,
+      side: THREE.DoubleSide,
+    });
+  }
+
+  set mode(transition: PhotoTransition) {
+    this.uniforms.uMode.value = TRANSITION_INDEX[transition];
+  }
+
+  set progress(value: number) {
+    this.uniforms.uProgress.value = value;
+  }
+
+  // What the frame shows when idle (and what the next change starts from)
+  showNow(texture: THREE.Texture | null, color: string) {
+    this.uniforms.uFrom.value = texture;
+    this.uniforms.uHasFrom.value = texture ? 1 : 0;
+    this.uniforms.uFromColor.value.set(color);
+    this.uniforms.uProgress.value = 0;
+  }
+
+  setNext(texture: THREE.Texture | null, color: string) {
+    this.uniforms.uTo.value = texture;
+    this.uniforms.uHasTo.value = texture ? 1 : 0;
+    this.uniforms.uToColor.value.set(color);
+  }
+}
+
+interface PhotoPlaneProps {
+  url: string;
+  transition: PhotoTransition;
+  delay: number;
+  // Shown until the first photo has loaded
+  paper: string;
+}
+
+const PhotoPlane: React.FC<PhotoPlaneProps> = ({ url, transition, delay, paper }) => {
+  // What the frame settles on after the running change; and when that change starts.
+  // A photo already loaded (e.g. the frame remounted) shows straight away.
+  const shown = useRef<{ texture: THREE.Texture | null; color: string }>({ texture: getLoadedPhotoTexture(url), color: paper });
+  const change = useRef<{ url: string; texture: THREE.Texture | null; color: string; start: number } | null>(null);
+
+  const [material] = useState(() => {
+    const created = new PhotoTransitionMaterial();
+    created.showNow(shown.current.texture, shown.current.color);
+    return created;
+  });
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.mode = transition;
+  }, [material, transition]);
+
+  // The photos this frame shows, fades between or is waiting on stay in the texture cache (oldest
+  // first). Once the frame shows one, the ones before it are let go.
+  const retained = useRef<{ url: string; release: () => void }[]>([]);
+  const releaseBefore = (shownUrl: string) => {
+    const index = retained.current.map((entry) => entry.url).lastIndexOf(shownUrl);
+    if (index > 0) retained.current.splice(0, index).forEach((entry) => entry.release());
+  };
+  useEffect(() => () => {
+    retained.current.forEach((entry) => entry.release());
+    retained.current = [];
+  }, []);
 
   useEffect(() => {
-    if (texture) {
-      texture.minFilter = THREE.LinearFilter;
-      texture.generateMipmaps = false;
-      texture.needsUpdate = true;
-    }
-  }, [texture]);
+    let cancelled = false;
+    const requested = timelineNow();
+    retained.current.push({ url, release: retainPhotoTexture(url) });
+
+    const swapTo = (texture: THREE.Texture | null) => {
+      if (cancelled) return;
+      if (texture && texture === shown.current.texture && !change.current) {
+        releaseBefore(url);
+        return;
+      }
+      // A change still running is cut short; the new one starts from its end
+      if (change.current) {
+        shown.current = { texture: change.current.texture, color: change.current.color };
+        material.showNow(shown.current.texture, shown.current.color);
+      }
+      const color = texture ? paper : FALLBACK_COLOR;
+      change.current = { url, texture, color, start: Math.max(timelineNow(), requested + delay) };
+      material.setNext(texture, color);
+    };
+
+    loadPhotoTexture(url).then(swapTo, () => swapTo(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  useFrame(() => {
+    const running = change.current;
+    if (!running) return;
+    const progress = Math.min(1, Math.max(0, (timelineNow() - running.start) / CONFIG.slideshow.transitionSeconds));
+    material.progress = progress;
+    if (progress < 1) return;
+    shown.current = { texture: running.texture, color: running.color };
+    material.showNow(running.texture, running.color);
+    change.current = null;
+    releaseBefore(running.url);
+  });
 
   return (
-    <meshBasicMaterial map={texture} toneMapped={false} side={THREE.DoubleSide} />
+    <mesh position={[0, 0.15, 0.02]} material={material}>
+      <planeGeometry args={[1, 1]} />
+    </mesh>
   );
 };
 
-// 3. Fallback visual for failed images
-const FallbackMaterial = () => <meshBasicMaterial color="#333333" toneMapped={false} />;
+// 3. Caption that wraps/shrinks to fit the frame, in the photo's own font and color
+const Caption: React.FC<{ photo: ScenePhoto; defaultColor: string }> = ({ photo, defaultColor }) => {
+  const layout = useMemo(() => fitCaption(photo.caption), [photo.caption]);
+  // The fonts come from a CDN: offline, captions use the built-in font
+  const isOnline = useOnlineStatus();
+  const fontUrl = isOnline ? CAPTION_FONTS[photo.captionFont ?? 'default'].url : undefined;
 
-const PhotoItem: React.FC<PhotoItemProps> = ({ data, isFormed, index, url, isFeatured }) => {
+  const renderText = (font?: string) => (
+    <Text
+      position={[0, -0.55, 0.03]}
+      font={font}
+      fontSize={layout.fontSize}
+      maxWidth={layout.maxWidth}
+      lineHeight={CAPTION_LINE_HEIGHT}
+      textAlign="center"
+      overflowWrap="break-word"
+      color={photo.captionColor ?? defaultColor}
+      anchorX="center"
+      anchorY="middle"
+      letterSpacing={0.05}
+    >
+      {layout.text}
+    </Text>
+  );
+
+  // The built-in font shows while the photo's font loads, and stays if it fails to load
+  if (!fontUrl) return renderText();
+  return (
+    <TextureErrorBoundary key={fontUrl} fallback={renderText()}>
+      <Suspense fallback={renderText()}>{renderText(fontUrl)}</Suspense>
+    </TextureErrorBoundary>
+  );
+};
+
+const PhotoItem: React.FC<PhotoItemProps> = ({ data, treeState, transition, index, photo, isFeatured, isExiting = false, isInspected, onSelect, onHover, theme, photoTransition, swapDelay }) => {
   const meshRef = useRef<THREE.Group>(null);
+  const trimRef = useRef<THREE.MeshPhysicalMaterial>(null);
   const { camera } = useThree();
+  const [hovered, setHovered] = useState(false);
+  useCursor(hovered && !isExiting);
+
+  useEffect(() => {
+    if (!hovered) return;
+    onHover(index, true);
+    return () => onHover(index, false);
+  }, [hovered]);
   
   // Reusable objects for calculations to reduce GC
   const targetPos = useMemo(() => new THREE.Vector3(), []);
   const targetQuat = useMemo(() => new THREE.Quaternion(), []);
   const forward = useMemo(() => new THREE.Vector3(), []);
+  const parentQuat = useMemo(() => new THREE.Quaternion(), []);
+  const isFormed = isAssembled(treeState);
+
+  // Pose the frame had when the running transition started
+  const from = useMemo(() => ({ position: new THREE.Vector3(), quaternion: new THREE.Quaternion(), scale: 0 }), []);
+  const lastTransition = useRef<Transition | null>(null);
 
   useFrame((state, delta) => {
     if (!meshRef.current) return;
@@ -79,55 +339,86 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, isFormed, index, url, isFea
     // Smooth Speed Factor
     // 2.0 = fast, 0.5 = slow. 
     // We want a very elegant slide.
-    const lerpSpeed = isFeatured ? 2.0 : 1.5; 
+    const isHud = isInspected || (isFeatured && !isFormed);
+    const lerpSpeed = isHud ? 2.0 : 1.5; 
     
     // --- TARGET CALCULATION ---
     let targetScale = 1;
 
-    if (isFormed) {
-        // --- TREE STATE ---
-        targetPos.set(data.target[0], data.target[1], data.target[2]);
+    if (isHud) {
+        // FEATURED / INSPECTED: Fly to front of camera (HUD-like feel), in either state
+        
+        // 1. Get Forward Vector of Camera (Direction camera is looking)
+        forward.set(0, 0, -1).applyQuaternion(camera.quaternion);
+        
+        // 2. Set World Position: Camera Pos + Forward * Distance
+        targetPos.copy(camera.position).add(forward.multiplyScalar(5));
+
+        // 3. COMPENSATION: the parent group is moved (and turned toward flat formations),
+        // so bring the world-space target into its local space.
+        const parent = meshRef.current.parent;
+        parent?.worldToLocal(targetPos);
+        
+        // 4. Set Rotation: Align exactly with camera (Screen Space alignment)
+        if (parent) parent.getWorldQuaternion(parentQuat).invert();
+        else parentQuat.identity();
+        targetQuat.copy(parentQuat).multiply(camera.quaternion);
+        
+        targetScale = isInspected ? 1.8 : 1.5; 
+    } else if (isFormed) {
+        // --- ASSEMBLED (tree or another formation) ---
+        const pose = data[treeState];
+        targetPos.set(...pose.position);
         
         // Convert Euler target to Quaternion
-        const euler = new THREE.Euler(data.rotationTarget[0], data.rotationTarget[1], data.rotationTarget[2]);
+        const euler = new THREE.Euler(...pose.rotation);
         targetQuat.setFromEuler(euler);
         
         targetScale = 1.2;
     } else {
         // --- CHAOS STATE ---
-        if (isFeatured) {
-            // FEATURED: Fly to front of camera (HUD-like feel)
-            
-            // 1. Get Forward Vector of Camera (Direction camera is looking)
-            forward.set(0, 0, -1).applyQuaternion(camera.quaternion);
-            
-            // 2. Set World Position: Camera Pos + Forward * Distance
-            targetPos.copy(camera.position).add(forward.multiplyScalar(5));
-
-            // 3. COMPENSATION: Parent Group is at [0, -5, 0].
-            // To be at 'targetPos' in World Space, we must be at 'targetPos + 5' in Local Y Space.
-            targetPos.y += 5;
-            
-            // 4. Set Rotation: Align exactly with camera (Screen Space alignment)
-            targetQuat.copy(camera.quaternion);
-            
-            targetScale = 1.5; 
-        } else {
-            // BACKGROUND: Scatter
-            targetPos.set(data.chaos[0], data.chaos[1], data.chaos[2]);
-            
-            // For background chaos, we can have a slow continuous tumble or just a fixed random rotation.
-            // Let's do a fixed random rotation to keep it clean, or update quaternion slowly.
-            // Using the pre-calculated random rotation for chaos state:
-             const euler = new THREE.Euler(
-                data.rotationChaos[0] + state.clock.elapsedTime * 0.05, 
-                data.rotationChaos[1] + state.clock.elapsedTime * 0.05, 
-                data.rotationChaos[2]
-            );
-            targetQuat.setFromEuler(euler);
-            
-            targetScale = 0.8; 
-        }
+        // BACKGROUND: Scatter
+        const { position, rotation } = data[TreeState.CHAOS];
+        targetPos.set(...position);
+        
+        // For background chaos, we can have a slow continuous tumble or just a fixed random rotation.
+        // Let's do a fixed random rotation to keep it clean, or update quaternion slowly.
+        // Using the pre-calculated random rotation for chaos state:
+         const euler = new THREE.Euler(
+            rotation[0] + state.clock.elapsedTime * 0.05, 
+            rotation[1] + state.clock.elapsedTime * 0.05, 
+            rotation[2]
+        );
+        targetQuat.setFromEuler(euler);
+        
+        targetScale = 0.8; 
+    }
+
+    // Hover highlight on the trim
+    if (trimRef.current) {
+        const glow = hovered || isInspected ? 1.6 : 0.5;
+        trimRef.current.emissiveIntensity = THREE.MathUtils.lerp(trimRef.current.emissiveIntensity, glow, delta * 8);
+    }
+
+    if (isExiting) {
+        targetPos.copy(meshRef.current.position);
+        targetScale = 0;
+    }
+
+    if (lastTransition.current !== transition) {
+      lastTransition.current = transition;
+      from.position.copy(meshRef.current.position);
+      from.quaternion.copy(meshRef.current.quaternion);
+      from.scale = meshRef.current.scale.x;
+    }
+
+    // --- TIMELINE: off the HUD, frames follow the photo track (higher slots later) ---
+    const progress = isHud || isExiting ? 1 : transition.trackProgress('photos', heightTier(targetPos.y), timelineNow());
+    if (progress < 1) {
+      meshRef.current.position.lerpVectors(from.position, targetPos, progress);
+      meshRef.current.quaternion.slerpQuaternions(from.quaternion, targetQuat, progress);
+      meshRef.current.scale.setScalar(THREE.MathUtils.lerp(from.scale, targetScale, progress));
+      return;
     }
 
     // --- SMOOTH INTERPOLATION (No Physics/Springs) ---
@@ -141,13 +432,27 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, isFormed, index, url, isFea
   });
 
   return (
-    <group ref={meshRef} scale={1.2}>
-      {/* Gold Border / Trim */}
+    // New frames start collapsed at the trunk and grow into their slot
+    <group
+      ref={meshRef}
+      scale={0}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!isExiting) onSelect(index);
+      }}
+      onPointerOver={(e) => {
+        e.stopPropagation();
+        setHovered(true);
+      }}
+      onPointerOut={() => setHovered(false)}
+    >
+      {/* Metallic Border / Trim */}
       <mesh position={[0, 0, -0.02]} castShadow>
         <boxGeometry args={[1.25, 1.55, 0.04]} />
         <meshPhysicalMaterial 
-            color="#FFD700" 
-            emissive="#B8860B"
+            ref={trimRef}
+            color={theme.frame.trim} 
+            emissive={theme.frame.trimEmissive}
             emissiveIntensity={0.5}
             metalness={1.0} 
             roughness={0.15}
@@ -158,108 +463,110 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, isFormed, index, url, isFea
       {/* White Polaroid Frame */}
       <mesh position={[0, 0, -0.01]} castShadow receiveShadow>
         <boxGeometry args={[1.2, 1.5, 0.05]} />
-        <meshStandardMaterial color="#F8F8FF" roughness={0.6} metalness={0.1} />
+        <meshStandardMaterial color={theme.frame.paper} roughness={0.6} metalness={0.1} />
       </mesh>
       
       {/* Photo Plane */}
-      <mesh position={[0, 0.15, 0.02]}>
-        <planeGeometry args={[1, 1]} />
-        {/* Isolate the material loading so if it fails, the mesh still exists with fallback */}
-        <TextureErrorBoundary fallback={<FallbackMaterial />}>
-           <Suspense fallback={<FallbackMaterial />}>
-             <PhotoPlaneContent url={url} />
-           </Suspense>
-        </TextureErrorBoundary>
-      </mesh>
+      <PhotoPlane url={photo.url} transition={photoTransition} delay={swapDelay} paper={theme.frame.paper} />
 
       {/* Caption Text */}
-      <Suspense fallback={null}>
-        <Text
-          position={[0, -0.55, 0.03]}
-          fontSize={0.1}
-          color="#004020"
-          anchorX="center"
-          anchorY="middle"
-          letterSpacing={0.05}
-          // Removing custom font URL to ensure stability
-        >
-          MERRY CHRISTMAS
-        </Text>
-      </Suspense>
+      <Caption photo={photo} defaultColor={theme.frame.caption} />
     </group>
   );
 };
 
-const Photos: React.FC<PhotosProps> = ({ isFormed, count, userPhotos, photoOffset }) => {
-  // Safe check
-  if (!userPhotos || userPhotos.length === 0) return null;
+const Photos: React.FC<PhotosProps> = ({ treeState, count, photos, photoOffset, theme, seed, inspection, onInspect, customShape, transition, photoOrder, photoTransition, onHoverChange }) => {
+  // One frame per photo, up to the cap (and what fits on the tree)
+  const frameCount = Math.min(photos.length, count, maxPhotoSlots());
+
+  // Removed frames stay mounted briefly so they can shrink away
+  const [renderedCount, setRenderedCount] = useState(frameCount);
+  useEffect(() => {
+    if (frameCount >= renderedCount) {
+      setRenderedCount(frameCount);
+      return;
+    }
+    const timer = setTimeout(() => setRenderedCount(frameCount), EXIT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [frameCount, renderedCount]);
 
-  const totalCount = 12;
   const [featuredIndex, setFeaturedIndex] = useState<number>(0);
+  const isFormed = isAssembled(treeState);
+
+  // Featured picks come from their own seeded stream so each burst is reproducible too
+  const featuredRng = useMemo(() => createRng(seed, 'featured'), [seed]);
 
   useEffect(() => {
-    if (!isFormed) {
-      // Pick a random photo to feature when Chaos is unleashed
-      setFeaturedIndex(Math.floor(Math.random() * totalCount));
+    if (!isFormed && frameCount > 0) {
+      // Pick a photo to feature when Chaos is unleashed
+      setFeaturedIndex(Math.floor(featuredRng() * frameCount));
     }
   }, [isFormed]);
 
-  const photoData = useMemo(() => {
-    const data: DualPosition[] = [];
-    for (let i = 0; i < totalCount; i++) {
-        // --- TARGET (Tree) ---
-        const h = CONFIG.treeHeight;
-        const y = Math.random() * h * 0.7 + 2; 
-        const levelRadius = ((1 - y / h) * CONFIG.treeRadius) + 0.6;
-        const angle = (i / totalCount) * Math.PI * 2 + (Math.random() * 0.5);
-        
-        const tx = levelRadius * Math.cos(angle);
-        const ty = y;
-        const tz = levelRadius * Math.sin(angle);
-        
-        const rotTargetX = 0;
-        const rotTargetY = -angle + Math.PI / 2;
-        const rotTargetZ = (Math.random() - 0.5) * 0.5;
-
-        // --- CHAOS (Background Scatter) ---
-        // Push them further back so they don't clip with the featured one
-        const cx = (Math.random() - 0.5) * 35; 
-        const cy = Math.random() * 15 - 5; 
-        const cz = (Math.random() - 0.5) * 35; 
-
-        const rotChaosX = (Math.random() - 0.5) * 1;
-        const rotChaosY = (Math.random() - 0.5) * 1;
-        const rotChaosZ = (Math.random() - 0.5) * 1;
-
-        data.push({
-            chaos: [cx, cy, cz],
-            target: [tx, ty, tz],
-            rotationChaos: [rotChaosX, rotChaosY, rotChaosZ],
-            rotationTarget: [rotTargetX, rotTargetY, rotTargetZ]
-        });
+  // Recomputed when the library grows or shrinks; frames glide to their new slots
+  const photoData = useMemo(() => generatePhotoLayout(frameCount, seed, customShape), [frameCount, seed, customShape]);
+
+  // Shuffled play order, if the slideshow has one for this exact library
+  const order = photoOrder && photoOrder.length === photos.length ? photoOrder : null;
+  const photoAt = (position: number) => {
+    const wrapped = ((position % photos.length) + photos.length) % photos.length;
+    return order ? order[wrapped] : wrapped;
+  };
+
+  // Fetch the pictures each frame shows next (and previously), so a step never waits on the network
+  useEffect(() => {
+    if (photos.length === 0) return;
+    for (let i = 0; i < frameCount; i++) {
+      preloadPhotoTexture(photos[photoAt(i + photoOffset + 1)].url);
+      preloadPhotoTexture(photos[photoAt(i + photoOffset - 1)].url);
     }
-    return data;
-  }, [totalCount]);
+  }, [photos, photoOffset, order, frameCount]);
 
-  const getUrl = (index: number) => {
-    if (userPhotos.length === 0) return "";
-    return userPhotos[(index + photoOffset) % userPhotos.length];
+  // Which frames the pointer is over; the slideshow holds still while any is
+  const hoveredSlots = useRef(new Set<number>());
+  const handleHover = (slot: number, hovered: boolean) => {
+    const wasHovering = hoveredSlots.current.size > 0;
+    if (hovered) hoveredSlots.current.add(slot);
+    else hoveredSlots.current.delete(slot);
+    const isHovering = hoveredSlots.current.size > 0;
+    if (isHovering !== wasHovering) onHoverChange?.(isHovering);
   };
 
+  // Safe check (after the hooks, the list can be empty while the library loads)
+  if (!photos || photos.length === 0) return null;
+
+  // The caption travels with its photo as the slideshow offset cycles
+  const getPhotoIndex = (index: number) => photoAt(index + photoOffset);
+  // The inspected frame shows whichever photo the lightbox has navigated to
+  const getPhoto = (index: number) =>
+    inspection?.slot === index ? photos[inspection.photoIndex % photos.length] : photos[getPhotoIndex(index)];
+
+  const slotCount = Math.max(frameCount, renderedCount);
+
   return (
     <group>
-        {photoData.map((data, i) => (
+        {Array.from({ length: slotCount }, (_, i) => (
             <PhotoItem 
               key={i} 
               index={i} 
-              data={data} 
-              isFormed={isFormed} 
-              url={getUrl(i)}
-              isFeatured={i === featuredIndex}
+              data={photoData[i] ?? photoData[photoData.length - 1] ?? EMPTY_SLOT} 
+              treeState={treeState} 
+              transition={transition}
+              photo={getPhoto(i)}
+              // While a photo is inspected it takes the HUD spot from the featured one
+              isFeatured={!inspection && i === featuredIndex}
+              isExiting={i >= frameCount}
+              isInspected={inspection?.slot === i && i < frameCount}
+              onSelect={(slot) => onInspect({ slot, photoIndex: getPhotoIndex(slot) })}
+              onHover={handleHover}
+              theme={theme}
+              photoTransition={photoTransition}
+              // Lower frames change first and the change climbs the tree
+              swapDelay={heightTier(photoData[i]?.[TreeState.FORMED].position[1] ?? 0) * CONFIG.slideshow.staggerSeconds}
             />
         ))}
     </group>
   );
 };
 
-export default Photos;
\ No newline at end of file
+export default Photos;
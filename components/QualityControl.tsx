@@ -0,0 +1,37 @@
+import React from 'react';
+import { QualitySetting, QualityTier } from '../types';
+import { QUALITY_PRESETS, QUALITY_TIERS, isQualitySetting } from '../utils/quality';
+
+interface QualityControlProps {
+  setting: QualitySetting;
+  // The tier in effect (on Auto, the one the frame rate settled on)
+  tier: QualityTier;
+  onChange: (setting: QualitySetting) => void;
+}
+
+// Quality tier picker; on Auto it also shows which tier the governor is running
+const QualityControl: React.FC<QualityControlProps> = ({ setting, tier, onChange }) => (
+  <div className="absolute top-16 left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <label htmlFor="quality-tier">Quality</label>
+    <select
+      id="quality-tier"
+      value={setting}
+      onChange={(e) => {
+        if (isQualitySetting(e.target.value)) onChange(e.target.value);
+      }}
+      className="bg-black/20 border border-luxury-gold/30 rounded-sm px-2 py-1 text-luxury-gold uppercase outline-none focus:border-luxury-gold backdrop-blur-sm"
+    >
+      <option value="auto" className="bg-black">Auto</option>
+      {QUALITY_TIERS.map((id) => (
+        <option key={id} value={id} className="bg-black">{QUALITY_PRESETS[id].label}</option>
+      ))}
+    </select>
+    {setting === 'auto' && (
+      <span aria-live="polite" title="Tier picked from the measured frame rate" className="text-luxury-gold/60">
+        {QUALITY_PRESETS[tier].label}
+      </span>
+    )}
+  </div>
+);
+
+export default QualityControl;
@@ -0,0 +1,77 @@
+import React, { useRef } from 'react';
+import { SCENE_DOCUMENT_EXTENSION } from '../utils/sceneDocument';
+
+// Result of the last load, shown under the buttons until dismissed
+export interface SceneFileStatus {
+  kind: 'error' | 'info';
+  title: string;
+  details: string[];
+}
+
+interface SceneFileControlsProps {
+  onSave: () => void;
+  onLoad: (file: File) => void;
+  status: SceneFileStatus | null;
+  onDismissStatus: () => void;
+}
+
+const fileButton = `
+  px-2 py-1 rounded-sm border border-luxury-gold/30 bg-black/20 text-luxury-gold
+  hover:border-luxury-gold transition-all backdrop-blur-sm
+`;
+
+// Save the composed tree as a .tree.json file, or load one back
+const SceneFileControls: React.FC<SceneFileControlsProps> = ({ onSave, onLoad, status, onDismissStatus }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoad(file);
+  };
+
+  return (
+    <div className="absolute top-[16.5rem] left-6 flex flex-col items-start gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <div className="flex items-center gap-2">
+        <span>Scene</span>
+        <button onClick={onSave} title={`Download this tree as a ${SCENE_DOCUMENT_EXTENSION} file`} className={fileButton}>
+          Save
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} title={`Load a ${SCENE_DOCUMENT_EXTENSION} file`} className={fileButton}>
+          Load
+        </button>
+      </div>
+
+      {status && (
+        <div
+          role={status.kind === 'error' ? 'alert' : 'status'}
+          className="w-72 p-2 border border-luxury-gold/20 bg-black/40 backdrop-blur-md rounded-sm normal-case tracking-normal"
+        >
+          <div className="flex items-start gap-2">
+            <p className={`flex-1 ${status.kind === 'error' ? 'text-red-300' : 'text-luxury-goldLight'}`}>{status.title}</p>
+            <button onClick={onDismissStatus} aria-label="Dismiss" className="text-luxury-gold/60 hover:text-luxury-gold">
+              ×
+            </button>
+          </div>
+          {status.details.length > 0 && (
+            <ul className="mt-1 list-disc pl-4 space-y-0.5 text-luxury-gold/70 max-h-40 overflow-y-auto">
+              {status.details.map((detail, i) => (
+                <li key={i}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${SCENE_DOCUMENT_EXTENSION},.json,application/json`}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+};
+
+export default SceneFileControls;
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { normalizeSeed } from '../utils/random';
+
+interface SeedControlProps {
+  seed: number;
+  onChange: (seed: number) => void;
+  onShuffle: () => void;
+}
+
+// Shows the layout seed; the same seed always grows the same tree
+const SeedControl: React.FC<SeedControlProps> = ({ seed, onChange, onShuffle }) => {
+  const [draft, setDraft] = useState(String(seed));
+
+  // Follow external changes (shuffle, shared links, history)
+  useEffect(() => {
+    setDraft(String(seed));
+  }, [seed]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(parsed)) {
+      setDraft(String(seed));
+      return;
+    }
+    const next = normalizeSeed(parsed);
+    setDraft(String(next));
+    if (next !== seed) onChange(next);
+  };
+
+  return (
+    <div className="absolute top-6 left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <label htmlFor="tree-seed">Seed</label>
+      <input
+        id="tree-seed"
+        type="text"
+        inputMode="numeric"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value.replace(/[^0-9]/g, ''))}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className="w-24 bg-black/20 border border-luxury-gold/30 rounded-sm px-2 py-1 text-luxury-gold outline-none focus:border-luxury-gold backdrop-blur-sm"
+      />
+      <button
+        onClick={onShuffle}
+        aria-label="New random seed"
+        title="New random seed"
+        className="p-1.5 rounded-sm border border-luxury-gold/30 bg-black/20 text-luxury-gold hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="16 3 21 3 21 8"></polyline><line x1="4" y1="20" x2="21" y2="3"></line><polyline points="21 16 21 21 16 21"></polyline><line x1="15" y1="15" x2="21" y2="21"></line><line x1="4" y1="4" x2="9" y2="9"></line></svg>
+      </button>
+    </div>
+  );
+};
+
+export default SeedControl;
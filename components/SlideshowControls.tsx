@@ -0,0 +1,94 @@
+import React from 'react';
+import { CONFIG, SlideshowSettings } from '../types';
+import { PHOTO_TRANSITIONS, isPhotoTransition } from '../utils/slideshow';
+
+interface SlideshowControlsProps {
+  settings: SlideshowSettings;
+  onChange: (settings: SlideshowSettings) => void;
+  onPrev: () => void;
+  onNext: () => void;
+}
+
+const roundButton = `
+  p-3 rounded-full border border-luxury-gold/30 bg-black/20 text-luxury-gold
+  hover:bg-luxury-gold hover:text-luxury-green transition-all backdrop-blur-sm
+`;
+
+const toggleButton = (active: boolean) => `
+  px-2 py-1 rounded-sm border transition-all backdrop-blur-sm
+  ${active
+    ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+    : 'bg-black/20 text-luxury-gold border-luxury-gold/30 hover:border-luxury-gold'}
+`;
+
+const selectClass = 'px-2 py-1 rounded-sm border border-luxury-gold/30 bg-black/40 text-luxury-gold uppercase tracking-wider focus:outline-none focus:border-luxury-gold';
+
+// Gallery navigation: step the photos by hand, or let them play on a timer
+const SlideshowControls: React.FC<SlideshowControlsProps> = ({ settings, onChange, onPrev, onNext }) => (
+  <div className="flex flex-col items-center gap-3 mb-8 pointer-events-auto">
+    <div className="flex items-center gap-12">
+      <button onClick={onPrev} className={roundButton} aria-label="Previous Photo">
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
+      </button>
+
+      <button
+        onClick={() => onChange({ ...settings, playing: !settings.playing })}
+        className={roundButton}
+        aria-label={settings.playing ? 'Pause Slideshow' : 'Play Slideshow'}
+        title="Hovering a photo holds the slideshow"
+      >
+        {settings.playing ? (
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="8" y1="5" x2="8" y2="19"></line><line x1="16" y1="5" x2="16" y2="19"></line></svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="7 4 19 12 7 20 7 4"></polygon></svg>
+        )}
+      </button>
+
+      <button onClick={onNext} className={roundButton} aria-label="Next Photo">
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
+      </button>
+    </div>
+
+    <div className="flex items-center gap-2 font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+      <select
+        value={settings.intervalSeconds}
+        onChange={(e) => onChange({ ...settings, intervalSeconds: Number(e.target.value) })}
+        aria-label="Seconds per photo"
+        className={selectClass}
+      >
+        {CONFIG.slideshow.intervals.map((seconds) => (
+          <option key={seconds} value={seconds}>{seconds}s</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onChange({ ...settings, shuffle: !settings.shuffle })}
+        aria-pressed={settings.shuffle}
+        className={toggleButton(settings.shuffle)}
+      >
+        Shuffle
+      </button>
+      <button
+        onClick={() => onChange({ ...settings, loop: !settings.loop })}
+        aria-pressed={settings.loop}
+        title="Off: stop once every photo has been shown"
+        className={toggleButton(settings.loop)}
+      >
+        Loop
+      </button>
+      <select
+        value={settings.transition}
+        onChange={(e) => {
+          if (isPhotoTransition(e.target.value)) onChange({ ...settings, transition: e.target.value });
+        }}
+        aria-label="Photo transition"
+        className={selectClass}
+      >
+        {PHOTO_TRANSITIONS.map(({ id, label }) => (
+          <option key={id} value={id}>{label}</option>
+        ))}
+      </select>
+    </div>
+  </div>
+);
+
+export default SlideshowControls;
@@ -1,71 +1,152 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { CONFIG } from '../types';
+import { generateSnowLayout } from '../utils/layouts';
 
-const Snow: React.FC = () => {
-  const count = 1500;
-  const mesh = useRef<THREE.Points>(null);
-  
-  const particles = useMemo(() => {
-    const positions = new Float32Array(count * 3);
-    const speeds = new Float32Array(count);
-    const wiggles = new Float32Array(count);
-
-    for (let i = 0; i < count; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 50;     // x
-      positions[i * 3 + 1] = Math.random() * 40;         // y
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 50; // z
-      
-      speeds[i] = 0.05 + Math.random() * 0.1; // Falling speed
-      wiggles[i] = Math.random() * Math.PI * 2; // Initial wiggle phase
-    }
-    
-    return { positions, speeds, wiggles };
-  }, []);
+// Every flake's position is a function of time, worked out in the vertex shader:
+// it falls at its own speed, drifts with the wind and gusts, flutters, and wraps back to the top.
+class SnowMaterial extends THREE.ShaderMaterial {
+  declare uniforms: { [uniform: string]: THREE.IUniform };
+
+  constructor() {
+    const { area } = CONFIG.snow;
+    super({
+      uniforms: {
+        uTime: { value: 0 },
+        uWind: { value: new THREE.Vector2(...CONFIG.snow.wind) },
+        uGustStrength: { value: CONFIG.snow.gustStrength },
+        uGustPeriod: { value: CONFIG.snow.gustPeriod },
+        uTop: { value: area.top },
+        uHeight: { value: area.top - area.bottom },
+        uWidth: { value: area.width },
+        // Half the drawing buffer height: turns world size into pixels like PointsMaterial does
+        uScale: { value: 500 },
+        // Authored hex kept as-is (the shader writes colour straight out)
+        uColor: { value: new THREE.Color('#FFFDD0').convertLinearToSRGB() },
+      },
+      vertexShader: `
+        uniform float uTime;
+        uniform vec2 uWind;
+        uniform float uGustStrength;
+        uniform float uGustPeriod;
+        uniform float uTop;
+        uniform float uHeight;
+        uniform float uWidth;
+        uniform float uScale;
+        attribute float aSpeed;
+        attribute float aSize;
+        attribute float aPhase;
+        attribute float aVariant;
+
+        varying float vVariant;
+        varying float vSpin;
+        varying float vAlpha;
+
+        void main() {
+          // Fall: how far below the top the flake is, wrapping around the snow column
+          float fallen = mod(position.y + uTime * aSpeed, uHeight);
+          vec3 p = vec3(position.x, uTop - fallen, position.z);
+
+          // Wind: steady drift for as long as it has been falling, plus gusts sweeping across
+          vec2 downwind = normalize(uWind + vec2(1e-4));
+          float gust = pow(0.5 + 0.5 * sin(6.28318 * uTime / uGustPeriod - position.x * 0.06), 3.0);
+          p.xz += uWind * (fallen / aSpeed) + downwind * gust * uGustStrength;
+
+          // Flutter
+          p.x += sin(uTime * 1.3 + aPhase) * 0.3;
+          p.z += cos(uTime * 0.9 + aPhase * 1.7) * 0.3;
+
+          // Stay inside the snow area
+          p.xz = mod(p.xz + uWidth * 0.5, uWidth) - uWidth * 0.5;
+
+          vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+          gl_PointSize = aSize * uScale / -mvPosition.z;
+          gl_Position = projectionMatrix * mvPosition;
+
+          vVariant = aVariant;
+          vSpin = aPhase + uTime * (0.3 + fract(aPhase) * 0.7);
+          // Fade in at the top and out at the ground so the wrap never pops
+          vAlpha = smoothstep(0.0, 2.0, fallen) * smoothstep(0.0, 1.0, uHeight - fallen);
+        }
+      `,
+      fragmentShader: `
+        uniform vec3 uColor;
+        varying float vVariant;
+        varying float vSpin;
+        varying float vAlpha;
+
+        void main() {
+          vec2 c = gl_PointCoord - 0.5;
+          float s = sin(vSpin);
+          float k = cos(vSpin);
+          c = mat2(k, -s, s, k) * c;
+          float r = length(c) * 2.0;
+
+          float alpha;
+          if (vVariant < 0.5) {
+            // Soft puff
+            alpha = 1.0 - smoothstep(0.2, 1.0, r);
+          } else if (vVariant < 1.5) {
+            // Six-armed crystal
+            float arms = abs(cos(atan(c.y, c.x) * 3.0));
+            alpha = max(smoothstep(0.75, 1.0, arms) * (1.0 - smoothstep(0.5, 1.0, r)), 1.0 - smoothstep(0.1, 0.3, r));
+          } else {
+            // Glint: a thin cross
+            alpha = (1.0 - smoothstep(0.0, 0.1, min(abs(c.x), abs(c.y)))) * (1.0 - smoothstep(0.4, 1.0, r));
+          }
+          if (alpha < 0.02) discard;
+
+          gl_FragColor = vec4(uColor, alpha * vAlpha * 0.8);
+        }
+      `,
+      transparent: true,
+      depthWrite: false,
+    });
+  }
+
+  set uTime(value: number) {
+    this.uniforms.uTime.value = value;
+  }
+
+  set uScale(value: number) {
+    this.uniforms.uScale.value = value;
+  }
+}
+
+interface SnowProps {
+  seed: number;
+  count: number;
+}
+
+const Snow: React.FC<SnowProps> = ({ seed, count }) => {
+  const materialRef = useRef<SnowMaterial>(null);
+  const snowMaterial = useMemo(() => new SnowMaterial(), []);
+
+  useEffect(() => () => snowMaterial.dispose(), [snowMaterial]);
+
+  const flakes = useMemo(() => generateSnowLayout(count, seed), [count, seed]);
 
   useFrame((state) => {
-    if (!mesh.current) return;
-
-    const positions = mesh.current.geometry.attributes.position.array as Float32Array;
-    
-    for (let i = 0; i < count; i++) {
-      // Move down
-      positions[i * 3 + 1] -= particles.speeds[i];
-
-      // Add wiggle
-      positions[i * 3] += Math.sin(state.clock.elapsedTime + particles.wiggles[i]) * 0.02;
-
-      // Reset if below ground
-      if (positions[i * 3 + 1] < -5) {
-        positions[i * 3 + 1] = 30; // Respawn at top
-        positions[i * 3] = (Math.random() - 0.5) * 50; // New random X
-        positions[i * 3 + 2] = (Math.random() - 0.5) * 50; // New random Z
-      }
-    }
-    
-    mesh.current.geometry.attributes.position.needsUpdate = true;
+    if (!materialRef.current) return;
+    materialRef.current.uTime = state.clock.elapsedTime;
+    materialRef.current.uScale = (state.size.height * state.viewport.dpr) / 2;
   });
 
   return (
-    <points ref={mesh}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={count}
-          array={particles.positions}
-          itemSize={3}
-        />
+    // Flakes are placed in the shader, so the initial bounds don't hold
+    <points frustumCulled={false}>
+      {/* Keyed by seed and count so a new layout rebuilds the attributes */}
+      <bufferGeometry key={`${seed}:${count}`}>
+        <bufferAttribute attach="attributes-position" count={count} array={flakes.positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aSpeed" count={count} array={flakes.speeds} itemSize={1} />
+        <bufferAttribute attach="attributes-aSize" count={count} array={flakes.sizes} itemSize={1} />
+        <bufferAttribute attach="attributes-aPhase" count={count} array={flakes.phases} itemSize={1} />
+        <bufferAttribute attach="attributes-aVariant" count={count} array={flakes.variants} itemSize={1} />
       </bufferGeometry>
-      <pointsMaterial
-        size={0.15}
-        color="#FFFDD0"
-        transparent
-        opacity={0.8}
-        sizeAttenuation={true}
-        depthWrite={false}
-      />
+      <primitive object={snowMaterial} attach="material" ref={materialRef} />
     </points>
   );
 };
 
-export default Snow;
\ No newline at end of file
+export default Snow;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { SnowDensity } from '../types';
+
+interface SnowControlsProps {
+  enabled: boolean;
+  onToggle: () => void;
+  density: SnowDensity;
+  onDensityChange: (density: SnowDensity) => void;
+}
+
+const DENSITIES: { id: SnowDensity; label: string }[] = [
+  { id: 'light', label: 'Light' },
+  { id: 'normal', label: 'Normal' },
+  { id: 'heavy', label: 'Heavy' },
+];
+
+// Snowfall on/off and how heavy it is (heavier snow also settles faster)
+const SnowControls: React.FC<SnowControlsProps> = ({ enabled, onToggle, density, onDensityChange }) => (
+  <div className="absolute top-[6.5rem] left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <button
+      onClick={onToggle}
+      aria-pressed={enabled}
+      className={`px-2 py-1 rounded-sm border transition-all backdrop-blur-sm ${
+        enabled
+          ? 'bg-luxury-gold text-luxury-green border-luxury-gold'
+          : 'bg-black/20 text-luxury-gold border-luxury-gold/30 hover:border-luxury-gold'
+      }`}
+    >
+      Snow
+    </button>
+    <div role="radiogroup" aria-label="Snow density" className="flex gap-1">
+      {DENSITIES.map(({ id, label }) => (
+        <button
+          key={id}
+          role="radio"
+          aria-checked={id === density}
+          disabled={!enabled}
+          onClick={() => onDensityChange(id)}
+          className={`px-2 py-1 rounded-sm border transition-all backdrop-blur-sm disabled:opacity-40 ${
+            id === density
+              ? 'border-luxury-gold text-luxury-gold bg-luxury-gold/20'
+              : 'border-luxury-gold/30 text-luxury-gold/70 bg-black/20 hover:border-luxury-gold'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default SnowControls;
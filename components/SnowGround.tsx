@@ -0,0 +1,73 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+interface SnowGroundProps {
+  // Settled snow, 0..1 (see hooks/useSnowCover.ts)
+  cover: React.RefObject<number>;
+}
+
+const RADIUS = 16;
+
+// Snow cover on the ground around the tree: patches that grow together as it builds up
+const SnowGround: React.FC<SnowGroundProps> = ({ cover }) => {
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uCover: { value: 0 },
+      uColor: { value: new THREE.Color('#F4F8FF').convertLinearToSRGB() },
+    },
+    vertexShader: `
+      varying vec2 vPos;
+      void main() {
+        vPos = position.xy / ${RADIUS.toFixed(1)};
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform float uCover;
+      uniform vec3 uColor;
+      varying vec2 vPos;
+
+      float hash(vec2 p) {
+        return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+      }
+
+      // Value noise, two octaves
+      float noise(vec2 p) {
+        vec2 i = floor(p);
+        vec2 f = fract(p);
+        vec2 u = f * f * (3.0 - 2.0 * f);
+        return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+      }
+
+      void main() {
+        float patches = noise(vPos * 6.0) * 0.65 + noise(vPos * 17.0) * 0.35;
+        // Thin cover shows only the highest patches; full cover is a solid blanket
+        float settled = smoothstep(1.0 - uCover * 1.1, 1.0 - uCover * 1.1 + 0.25, patches);
+        float edge = 1.0 - smoothstep(0.6, 1.0, length(vPos));
+        float alpha = settled * edge * min(1.0, uCover * 3.0) * 0.9;
+        if (alpha < 0.01) discard;
+        gl_FragColor = vec4(uColor, alpha);
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+  }), []);
+
+  // A primitive, so R3F leaves disposing it to us
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame(() => {
+    material.uniforms.uCover.value = cover.current;
+  });
+
+  return (
+    // Just under the contact shadows: they fall on the snow, and their camera (looking up from y=0) doesn't see it
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} renderOrder={-1}>
+      <circleGeometry args={[RADIUS, 64]} />
+      <primitive object={material} attach="material" />
+    </mesh>
+  );
+};
+
+export default SnowGround;
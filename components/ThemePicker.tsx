@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { CustomThemeInput, isPresetTheme } from '../utils/themes';
+
+interface ThemePickerProps {
+  themes: Theme[];
+  activeThemeId: string;
+  onSelect: (id: string) => void;
+  onSaveCustom: (input: CustomThemeInput) => void;
+  onDeleteCustom: (id: string) => void;
+}
+
+const ThemePicker: React.FC<ThemePickerProps> = ({ themes, activeThemeId, onSelect, onSaveCustom, onDeleteCustom }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<CustomThemeInput>({
+    name: '',
+    primary: '#004D1A',
+    metal: '#FFD700',
+    highlight: '#8B0000',
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = draft.name.trim();
+    if (!name) return;
+    onSaveCustom({ ...draft, name });
+    setIsEditing(false);
+    setDraft((prev) => ({ ...prev, name: '' }));
+  };
+
+  return (
+    <div className="absolute top-6 right-6 flex flex-col items-end gap-3 pointer-events-auto">
+      {/* Swatches */}
+      <div className="flex items-center gap-2">
+        {themes.map((theme) => {
+          const isActive = theme.id === activeThemeId;
+          return (
+            <div key={theme.id} className="relative group">
+              <button
+                onClick={() => onSelect(theme.id)}
+                title={theme.name}
+                aria-label={`${theme.name} theme`}
+                aria-pressed={isActive}
+                className={`
+                  w-7 h-7 rounded-full border transition-all
+                  ${isActive ? 'border-luxury-gold scale-110 shadow-[0_0_8px_rgba(255,255,255,0.35)]' : 'border-white/20 hover:scale-105'}
+                `}
+                style={{ background: `linear-gradient(135deg, ${theme.foliage.base} 50%, ${theme.ui.accent} 50%)` }}
+              />
+              {!isPresetTheme(theme.id) && (
+                <button
+                  onClick={() => onDeleteCustom(theme.id)}
+                  aria-label={`Delete ${theme.name} theme`}
+                  className="absolute -top-1 -right-1 w-3.5 h-3.5 rounded-full bg-black/80 text-luxury-gold text-[9px] leading-none hidden group-hover:block"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <button
+          onClick={() => setIsEditing((prev) => !prev)}
+          aria-label="Create custom theme"
+          className="w-7 h-7 rounded-full border border-luxury-gold/40 text-luxury-gold/80 hover:bg-luxury-gold hover:text-luxury-green transition-all text-sm leading-none"
+        >
+          +
+        </button>
+      </div>
+
+      {/* Custom Theme Editor */}
+      {isEditing && (
+        <form
+          onSubmit={handleSave}
+          className="flex flex-col gap-2 p-4 bg-black/50 border border-luxury-gold/30 backdrop-blur-md rounded-sm text-luxury-gold font-display text-xs tracking-wider uppercase"
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Theme name"
+            maxLength={32}
+            className="bg-transparent border-b border-luxury-gold/40 px-1 py-0.5 outline-none normal-case placeholder:text-luxury-gold/40"
+          />
+          {([
+            ['primary', 'Foliage'],
+            ['metal', 'Metal'],
+            ['highlight', 'Accent'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center justify-between gap-4">
+              {label}
+              <input
+                type="color"
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value.toUpperCase() })}
+                className="w-8 h-5 bg-transparent border-0 cursor-pointer"
+              />
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={!draft.name.trim()}
+            className="mt-1 px-3 py-1 border border-luxury-gold/60 hover:bg-luxury-gold hover:text-luxury-green transition-all rounded-sm disabled:opacity-40"
+          >
+            Save Theme
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ThemePicker;
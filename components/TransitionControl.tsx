@@ -0,0 +1,41 @@
+import React from 'react';
+import { TimelineSettings } from '../types';
+import { TIMELINE_DURATIONS, TIMELINE_EASINGS, isEasingName } from '../utils/timeline';
+
+interface TransitionControlProps {
+  settings: TimelineSettings;
+  onChange: (settings: TimelineSettings) => void;
+}
+
+const selectClass = 'bg-black/20 border border-luxury-gold/30 rounded-sm px-2 py-1 text-luxury-gold uppercase outline-none focus:border-luxury-gold backdrop-blur-sm';
+
+// How long a formation change takes, and its overall feel (from the next change on)
+const TransitionControl: React.FC<TransitionControlProps> = ({ settings, onChange }) => (
+  <div className="absolute top-56 left-6 flex items-center gap-2 pointer-events-auto font-display text-xs tracking-wider uppercase text-luxury-gold/80">
+    <label htmlFor="transition-duration">Transition</label>
+    <select
+      id="transition-duration"
+      value={settings.duration}
+      onChange={(e) => onChange({ ...settings, duration: Number(e.target.value) })}
+      className={selectClass}
+    >
+      {TIMELINE_DURATIONS.map((seconds) => (
+        <option key={seconds} value={seconds} className="bg-black">{seconds}s</option>
+      ))}
+    </select>
+    <select
+      value={settings.easing}
+      onChange={(e) => {
+        if (isEasingName(e.target.value)) onChange({ ...settings, easing: e.target.value });
+      }}
+      aria-label="Transition easing"
+      className={selectClass}
+    >
+      {TIMELINE_EASINGS.map(({ id, label }) => (
+        <option key={id} value={id} className="bg-black">{label}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default TransitionControl;
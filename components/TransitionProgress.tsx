@@ -0,0 +1,22 @@
+import React from 'react';
+import { useTimelineProgress } from '../hooks/useTimelineProgress';
+
+// Hairline under the formation picker that fills while the scene rearranges itself
+const TransitionProgress: React.FC = () => {
+  const { isRunning, progress } = useTimelineProgress();
+
+  return (
+    <div
+      role="progressbar"
+      aria-label="Formation change"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+      className={`w-48 h-0.5 -mt-4 mb-6 bg-luxury-gold/10 rounded-full overflow-hidden transition-opacity duration-700 ${isRunning ? 'opacity-100' : 'opacity-0'}`}
+    >
+      <div className="h-full bg-luxury-gold" style={{ width: `${progress * 100}%` }} />
+    </div>
+  );
+};
+
+export default TransitionProgress;
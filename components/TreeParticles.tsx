@@ -1,7 +1,11 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONFIG } from '../types';
+import { CONFIG, Theme, TreeState } from '../types';
+import { generateCustomFoliage, generateFoliageLayout } from '../utils/layouts';
+import { FormationShape, isAssembled } from '../utils/formations';
+import { useAudioReactive } from '../hooks/useAudioReactive';
+import { TRACK_GLSL, TrackUniforms, Transition, createTrackUniforms, heightTier, setTrackUniforms, timelineNow } from '../utils/timeline';
 
 // Define the ShaderMaterial
 class FoliageMaterial extends THREE.ShaderMaterial {
@@ -12,13 +16,27 @@ class FoliageMaterial extends THREE.ShaderMaterial {
     super({
       uniforms: {
         uTime: { value: 0 },
-        uProgress: { value: 0 },
+        // Foliage track of the running transition (seconds since its start, window, stagger by height)
+        ...createTrackUniforms(),
+        uAssembled: { value: 0 },
         uColor1: { value: new THREE.Color(CONFIG.colors.emerald) },
         uColor2: { value: new THREE.Color(CONFIG.colors.gold) },
+        // Audio drive (0 when no music plays)
+        uAudioSparkle: { value: 0 },
+        uAudioBrightness: { value: 0 },
+        // Settled snow (0..1), and whether the tree's cone is showing (its outer needles catch it first)
+        uSnowCover: { value: 0 },
+        uTreeShape: { value: 1 },
       },
       vertexShader: `
         uniform float uTime;
-        uniform float uProgress;
+        uniform float uAssembled;
+        uniform vec3 uColor1;
+        uniform vec3 uColor2;
+        uniform float uAudioSparkle;
+        uniform float uAudioBrightness;
+        uniform float uSnowCover;
+        uniform float uTreeShape;
         attribute vec3 aTargetPos;
         attribute float aScale;
         attribute float aRandom;
@@ -26,18 +44,15 @@ class FoliageMaterial extends THREE.ShaderMaterial {
         varying vec3 vColor;
         varying float vAlpha;
 
-        // Cubic easing out
-        float easeOutCubic(float x) {
-          return 1.0 - pow(1.0 - x, 3.0);
-        }
+        ${TRACK_GLSL}
 
         void main() {
-          // Chaos position (using position attribute as initial chaos)
-          vec3 chaosPos = position;
+          // Morph start (where the particle was when the formation changed)
+          vec3 fromPos = position;
           
-          // Interpolate
-          float t = easeOutCubic(uProgress);
-          vec3 finalPos = mix(chaosPos, aTargetPos, t);
+          // Interpolate: particles leave in tiers, lowest first (see Transition.trackProgress)
+          float t = trackProgress(clamp(aTargetPos.y / ${CONFIG.treeHeight.toFixed(1)}, 0.0, 1.0));
+          vec3 finalPos = mix(fromPos, aTargetPos, t);
           
           // Add some wind/sparkle movement
           float wind = sin(uTime * 2.0 + finalPos.y * 0.5 + aRandom * 10.0) * 0.05;
@@ -53,14 +68,21 @@ class FoliageMaterial extends THREE.ShaderMaterial {
           // Glitter effect based on view angle
           float sparkle = sin(uTime * 3.0 + aRandom * 100.0);
           
-          // Mix emerald and gold randomly
-          float colorMix = step(0.85, aRandom); // Top 15% are gold tips
-          vColor = mix(vec3(0.0, 0.3, 0.1), vec3(1.0, 0.84, 0.0), colorMix);
+          // Mix base and tip colors randomly
+          float colorMix = step(0.85, aRandom); // Top 15% are metallic tips
+          vColor = mix(uColor1, uColor2, colorMix);
           
-          // Boost brightness for bloom
-          if (sparkle > 0.9 && t > 0.5) {
+          // Boost brightness for bloom (louder music = more needles glinting)
+          if (sparkle > 0.9 - uAudioSparkle * 0.4 && t > 0.5 && uAssembled > 0.5) {
              vColor += vec3(0.5); 
           }
+          vColor *= 1.0 + uAudioBrightness * 0.8;
+
+          // Snow: settles first on the cone's outer, upward-facing needles, then spreads inward
+          float levelRadius = (1.0 - finalPos.y / ${CONFIG.treeHeight.toFixed(1)}) * ${CONFIG.treeRadius.toFixed(1)};
+          float exposure = mix(1.0, clamp(length(finalPos.xz) / max(levelRadius, 0.5), 0.0, 1.0), uTreeShape);
+          float settled = smoothstep(1.0 - uSnowCover, 1.15 - uSnowCover, fract(aRandom * 13.7) * 0.5 + exposure * 0.5);
+          vColor = mix(vColor, vec3(0.95, 0.97, 1.0), settled * 0.85 * t);
           
           vAlpha = 1.0;
         }
@@ -87,98 +109,140 @@ class FoliageMaterial extends THREE.ShaderMaterial {
     });
   }
 
-  set uProgress(value: number) {
-    this.uniforms.uProgress.value = value;
+  setTransition(transition: Transition) {
+    setTrackUniforms(this.uniforms as TrackUniforms, transition, 'foliage');
+  }
+
+  set uElapsed(value: number) {
+    this.uniforms.uElapsed.value = value;
   }
-  
-  get uProgress() {
-    return this.uniforms.uProgress.value;
+
+  set uAssembled(value: boolean) {
+    this.uniforms.uAssembled.value = value ? 1 : 0;
+  }
+
+  set uTreeShape(value: boolean) {
+    this.uniforms.uTreeShape.value = value ? 1 : 0;
+  }
+
+  set uSnowCover(value: number) {
+    this.uniforms.uSnowCover.value = value;
   }
 
   set uTime(value: number) {
     this.uniforms.uTime.value = value;
   }
+
+  setAudio(sparkle: number, brightness: number) {
+    this.uniforms.uAudioSparkle.value = sparkle;
+    this.uniforms.uAudioBrightness.value = brightness;
+  }
+
+  // The shader writes vColor straight out without color management,
+  // so keep the uniforms in sRGB (the hex values as authored).
+  setColors(base: string, tip: string) {
+    (this.uniforms.uColor1.value as THREE.Color).set(base).convertLinearToSRGB();
+    (this.uniforms.uColor2.value as THREE.Color).set(tip).convertLinearToSRGB();
+  }
 }
 
 interface TreeParticlesProps {
-  isFormed: boolean;
+  treeState: TreeState;
+  theme: Theme;
+  seed: number;
+  // The user's message / silhouette, for the CUSTOM formation
+  customShape?: FormationShape;
+  // The choreography this morph follows
+  transition: Transition;
+  // Number of needles (set by the quality tier; the parent remounts this when it changes)
+  count: number;
+  // Settled snow, 0..1 (see hooks/useSnowCover.ts)
+  snowCover: React.RefObject<number>;
 }
 
-const TreeParticles: React.FC<TreeParticlesProps> = ({ isFormed }) => {
+const TreeParticles: React.FC<TreeParticlesProps> = ({ treeState, theme, seed, customShape, transition, count, snowCover }) => {
   const materialRef = useRef<FoliageMaterial>(null);
-  const count = CONFIG.particleCount;
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
 
   // Create material instance once to use with <primitive>
   const foliageMaterial = useMemo(() => new FoliageMaterial(), []);
 
-  // Generate Geometry Data once
-  const { positions, targets, scales, randoms } = useMemo(() => {
-    const positions = new Float32Array(count * 3);
-    const targets = new Float32Array(count * 3);
-    const scales = new Float32Array(count);
-    const randoms = new Float32Array(count);
-
-    for (let i = 0; i < count; i++) {
-      // 1. Chaos Position: Random Sphere
-      const r = Math.cbrt(Math.random()) * 15; // uniform distribution in sphere
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      
-      const cx = r * Math.sin(phi) * Math.cos(theta);
-      const cy = r * Math.sin(phi) * Math.sin(theta) + 7; // Center sphere higher up
-      const cz = r * Math.cos(phi);
-      
-      positions.set([cx, cy, cz], i * 3);
-
-      // 2. Target Position: Cone / Tree
-      // Spiral distribution
-      const h = CONFIG.treeHeight;
-      const y = Math.random() * h;
-      const levelRadius = (1 - y / h) * CONFIG.treeRadius;
-      // Golden angle for nice distribution
-      const spiralAngle = i * 2.39996; 
-      
-      const tx = levelRadius * Math.cos(spiralAngle);
-      const ty = y; // from 0 to height
-      const tz = levelRadius * Math.sin(spiralAngle);
-
-      targets.set([tx, ty, tz], i * 3);
-
-      // Attributes
-      scales[i] = Math.random() * 0.5 + 0.5; // Scale variation
-      randoms[i] = Math.random();
+  useEffect(() => {
+    foliageMaterial.setColors(theme.foliage.base, theme.foliage.tip);
+  }, [foliageMaterial, theme]);
+
+  useEffect(() => {
+    foliageMaterial.uAssembled = isAssembled(treeState);
+    foliageMaterial.uTreeShape = treeState === TreeState.FORMED;
+  }, [foliageMaterial, treeState]);
+
+  // Generate Geometry Data once per seed (every formation)
+  const { formations, scales, randoms } = useMemo(
+    () => generateFoliageLayout(count, seed),
+    [count, seed]
+  );
+
+  const customFoliage = useMemo(
+    () => (customShape ? generateCustomFoliage(count, seed, customShape) : null),
+    [count, seed, customShape]
+  );
+  const target = treeState === TreeState.CUSTOM && customFoliage ? customFoliage : formations[treeState];
+
+  // Morph buffers: `position` is where each particle starts, aTargetPos where it heads for.
+  // Created once; the first layout assembles out of the scatter.
+  const [morph] = useState(() => ({ from: formations[TreeState.CHAOS].slice(), to: target.slice() }));
+
+  // Retarget (new formation, seed or message): the current blend becomes the new start,
+  // so any two layouts, even mid-morph, connect smoothly
+  const active = useRef({ transition, target });
+  useEffect(() => {
+    const material = materialRef.current;
+    const geometry = geometryRef.current;
+    if (!material || !geometry) return;
+    const previous = active.current;
+    active.current = { transition, target };
+    material.setTransition(transition);
+    if (previous.transition === transition && previous.target === target) return;
+
+    // Freeze each particle where the previous run had taken it (same per-tier curve as the shader)
+    const now = timelineNow();
+    const { from, to } = morph;
+    for (let i = 0; i < from.length; i += 3) {
+      const t = previous.transition.trackProgress('foliage', heightTier(to[i + 1]), now);
+      for (let k = i; k < i + 3; k++) from[k] += (to[k] - from[k]) * t;
     }
+    to.set(target);
+
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.aTargetPos.needsUpdate = true;
+  }, [transition, target, morph]);
 
-    return { positions, targets, scales, randoms };
-  }, [count]);
+  const audio = useAudioReactive();
 
-  useFrame((state, delta) => {
+  useFrame((state) => {
     if (materialRef.current) {
       materialRef.current.uTime = state.clock.elapsedTime;
-      
-      // Smooth lerp for uProgress
-      const targetProgress = isFormed ? 1 : 0;
-      materialRef.current.uProgress = THREE.MathUtils.lerp(
-        materialRef.current.uProgress,
-        targetProgress,
-        delta * 1.5 // Speed of transition
-      );
+      materialRef.current.setAudio(Math.min(1, audio('foliageSparkle')), audio('foliageBrightness'));
+      materialRef.current.uElapsed = timelineNow() - active.current.transition.startTime;
+      materialRef.current.uSnowCover = snowCover.current;
     }
   });
 
   return (
-    <points>
-      <bufferGeometry>
+    // Particles travel between formations, so the initial bounds don't hold
+    <points frustumCulled={false}>
+      {/* Keyed by seed so a new layout rebuilds the per-particle attributes (the morph buffers carry over) */}
+      <bufferGeometry key={seed} ref={geometryRef}>
         <bufferAttribute
           attach="attributes-position"
-          count={positions.length / 3}
-          array={positions}
+          count={morph.from.length / 3}
+          array={morph.from}
           itemSize={3}
         />
         <bufferAttribute
           attach="attributes-aTargetPos"
-          count={targets.length / 3}
-          array={targets}
+          count={morph.to.length / 3}
+          array={morph.to}
           itemSize={3}
         />
         <bufferAttribute
@@ -199,4 +263,4 @@ const TreeParticles: React.FC<TreeParticlesProps> = ({ isFormed }) => {
   );
 };
 
-export default TreeParticles;
\ No newline at end of file
+export default TreeParticles;
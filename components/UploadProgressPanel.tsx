@@ -0,0 +1,60 @@
+import React from 'react';
+import { UploadProgress } from '../types';
+
+interface UploadProgressPanelProps {
+  uploads: UploadProgress[];
+  isProcessing: boolean;
+  onDismiss: () => void;
+}
+
+const STATUS_LABEL: Record<UploadProgress['status'], string> = {
+  queued: 'Waiting',
+  processing: 'Preparing',
+  done: 'Ready',
+  error: 'Failed',
+};
+
+// Per-file progress of the current upload batch, with readable errors
+const UploadProgressPanel: React.FC<UploadProgressPanelProps> = ({ uploads, isProcessing, onDismiss }) => {
+  const finished = uploads.filter((u) => u.status === 'done' || u.status === 'error').length;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="w-80 max-w-[90vw] mb-6 p-3 border border-luxury-gold/20 bg-black/40 backdrop-blur-md rounded-sm pointer-events-auto font-display text-xs tracking-wider text-luxury-gold/80"
+    >
+      <div className="flex items-center justify-between mb-2 uppercase">
+        <span>Photos {finished}/{uploads.length}</span>
+        {!isProcessing && (
+          <button onClick={onDismiss} className="hover:text-luxury-gold" aria-label="Dismiss upload status">
+            ×
+          </button>
+        )}
+      </div>
+      <ul className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+        {uploads.map((upload, i) => (
+          <li key={i}>
+            <div className="flex justify-between gap-2">
+              <span className="truncate normal-case tracking-normal" title={upload.name}>{upload.name}</span>
+              <span className={`shrink-0 uppercase ${upload.status === 'error' ? 'text-red-300' : ''}`}>
+                {STATUS_LABEL[upload.status]}
+              </span>
+            </div>
+            <div className="h-0.5 mt-1 bg-luxury-gold/10">
+              <div
+                className={`h-full transition-all duration-300 ${upload.status === 'error' ? 'bg-red-400' : 'bg-luxury-gold'}`}
+                style={{ width: `${Math.round(upload.progress * 100)}%` }}
+              />
+            </div>
+            {upload.error && (
+              <p className="mt-1 normal-case tracking-normal text-red-300">{upload.error}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadProgressPanel;
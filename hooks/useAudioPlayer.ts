@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+import { audioEngine } from '../utils/audioEngine';
+
+// React view of the shared audio engine's player state
+export const useAudioPlayer = () => {
+  const state = useSyncExternalStore(audioEngine.subscribe, audioEngine.getState);
+
+  return {
+    ...state,
+    play: () => audioEngine.play(),
+    pause: () => audioEngine.pause(),
+    setVolume: (volume: number) => audioEngine.setVolume(volume),
+    loadFile: (file: File) => audioEngine.loadFile(file),
+    selectMusicBox: () => audioEngine.selectMusicBox(),
+  };
+};
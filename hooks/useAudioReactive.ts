@@ -0,0 +1,21 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioMapping, AudioTarget, CONFIG } from '../types';
+import { audioEngine } from '../utils/audioEngine';
+
+/**
+ * Per-frame audio drive for scene targets (0 when nothing plays).
+ * Returns a getter to call inside useFrame; the mapping decides which band feeds which target.
+ */
+export const useAudioReactive = (mapping: AudioMapping = CONFIG.audio.mapping) => {
+  const levels = useRef(audioEngine.sample(-1, 0));
+
+  useFrame((state, delta) => {
+    levels.current = audioEngine.sample(state.clock.elapsedTime, delta);
+  });
+
+  return (target: AudioTarget) => {
+    const { band, gain } = mapping[target];
+    return levels.current[band] * gain;
+  };
+};
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { cameraDirector } from '../utils/cameraDirector';
+
+// React view of the presentation camera: which shot is playing, and the controls for it
+export const useCameraDirector = () => {
+  const state = useSyncExternalStore(cameraDirector.subscribe, cameraDirector.getState);
+
+  return {
+    ...state,
+    play: () => cameraDirector.play(),
+    pause: () => cameraDirector.pause(),
+    resume: () => cameraDirector.resume(),
+    stop: () => cameraDirector.stop(),
+  };
+};
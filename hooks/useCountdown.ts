@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react';
+import { CountdownSettings } from '../types';
+import { Clock, CountdownTarget, CountdownTimer } from '../utils/countdown';
+
+interface CountdownActions {
+  onZero: (event: CountdownTarget) => void;
+}
+
+export interface CountdownState {
+  target: CountdownTarget | null;
+  remainingMs: number;
+}
+
+// Ticks often enough that the seconds never visibly skip
+const TICK_MS = 250;
+
+/**
+ * Counts down to the chosen event on the given clock while the countdown is on, and calls onZero
+ * the moment it gets there. Null while it's off.
+ */
+export const useCountdown = (settings: CountdownSettings, clock: Clock, actions: CountdownActions) => {
+  const [state, setState] = useState<CountdownState | null>(null);
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    if (!settings.enabled) {
+      setState(null);
+      return;
+    }
+    const timer = new CountdownTimer(settings);
+
+    const tick = () => {
+      const { target, remainingMs, reached } = timer.tick(clock());
+      setState((prev) =>
+        prev &&
+        prev.target?.time === target?.time &&
+        prev.target?.label === target?.label &&
+        Math.ceil(prev.remainingMs / 1000) === Math.ceil(remainingMs / 1000)
+          ? prev
+          : { target, remainingMs }
+      );
+      if (reached) actionsRef.current.onZero(reached);
+    };
+
+    tick();
+    const interval = window.setInterval(tick, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [settings.enabled, settings.event, settings.customTarget, settings.customLabel, clock]);
+
+  return state;
+};
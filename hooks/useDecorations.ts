@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { OrnamentKind, PlacedOrnament } from '../types';
+import { isTypingTarget } from '../utils/dom';
+import { createId } from '../utils/random';
+import {
+  addOrnament,
+  clampToTree,
+  commitEdit,
+  createHistory,
+  loadDecorations,
+  moveOrnament,
+  redoEdit,
+  removeOrnament,
+  saveDecorations,
+  undoEdit,
+} from '../utils/decorations';
+
+type Vec3 = [number, number, number];
+
+/**
+ * The hand-placed ornaments plus their undo/redo history (saved locally). A drag shows live but
+ * only lands in the history when it's dropped, so one drag is one undo step.
+ * Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes while decorating.
+ */
+export const useDecorations = (isDecorating: boolean) => {
+  const [history, setHistory] = useState(() => createHistory(loadDecorations()));
+  const [dragging, setDragging] = useState<{ id: string; position: Vec3 } | null>(null);
+
+  useEffect(() => {
+    saveDecorations(history.present);
+  }, [history.present]);
+
+  const decorations = useMemo(
+    () => (dragging ? moveOrnament(history.present, dragging.id, dragging.position) : history.present),
+    [history.present, dragging]
+  );
+
+  const place = (kind: OrnamentKind, color: string, position: Vec3) => {
+    const ornament = { id: createId(), kind, color, position: clampToTree(position) };
+    setHistory((h) => commitEdit(h, addOrnament(h.present, ornament)));
+  };
+
+  const remove = (id: string) => {
+    setHistory((h) => commitEdit(h, removeOrnament(h.present, id)));
+  };
+
+  const drag = (id: string, position: Vec3) => {
+    setDragging({ id, position: clampToTree(position) });
+  };
+
+  const drop = () => {
+    if (!dragging) return;
+    const { id, position } = dragging;
+    setHistory((h) => commitEdit(h, moveOrnament(h.present, id, position)));
+    setDragging(null);
+  };
+
+  const undo = () => {
+    if (!dragging) setHistory(undoEdit);
+  };
+
+  const redo = () => {
+    if (!dragging) setHistory(redoEdit);
+  };
+
+  // Swaps in a whole set (e.g. from a loaded scene file), as one undoable edit
+  const replace = (next: PlacedOrnament[]) => {
+    setDragging(null);
+    setHistory((h) => commitEdit(h, next));
+  };
+
+  const clear = () => {
+    setHistory((h) => commitEdit(h, h.present.length > 0 ? [] : h.present));
+  };
+
+  const handlersRef = useRef({ undo, redo });
+  handlersRef.current = { undo, redo };
+
+  useEffect(() => {
+    if (!isDecorating) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || !(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handlersRef.current.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handlersRef.current.redo();
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDecorating]);
+
+  return {
+    decorations,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    place,
+    remove,
+    drag,
+    drop,
+    undo,
+    redo,
+    replace,
+    clear,
+  };
+};
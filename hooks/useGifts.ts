@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GiftSurprise, WrappedGift } from '../types';
+import { giftKey, loadGifts, loadOpenedGifts, saveGifts, saveOpenedGifts, wrapGift } from '../utils/gifts';
+
+/**
+ * The gift boxes with surprises in them, and which of them this visitor has already opened
+ * (remembered per device, per surprise). A link's or file's gifts (`initial`, then `replace`) are
+ * shown instead of the saved ones and stay in memory, so they never overwrite this device's own.
+ */
+export const useGifts = (seed: number, initial: WrappedGift[] | null) => {
+  const [saved, setSaved] = useState(loadGifts);
+  const [shared, setShared] = useState(initial);
+  const [opened, setOpened] = useState(loadOpenedGifts);
+  const gifts = shared ?? saved;
+
+  useEffect(() => {
+    saveGifts(saved);
+  }, [saved]);
+
+  useEffect(() => {
+    saveOpenedGifts(opened);
+  }, [opened]);
+
+  const openedBoxes = useMemo(() => {
+    const keys = new Set(opened);
+    return gifts.filter((gift) => keys.has(giftKey(seed, gift))).map((gift) => gift.box);
+  }, [gifts, opened, seed]);
+
+  // Wrapping edits whichever gifts are showing; a link's or file's edits stay in memory too
+  const wrap = (box: number, surprise: GiftSurprise | null) => {
+    const update = (prev: WrappedGift[]) => wrapGift(prev, box, surprise);
+    if (shared) setShared((prev) => (prev ? update(prev) : prev));
+    else setSaved(update);
+  };
+
+  const markOpened = (gift: WrappedGift) => {
+    const key = giftKey(seed, gift);
+    setOpened((prev) => (prev.includes(key) ? prev : [...prev, key]));
+  };
+
+  return { gifts, openedBoxes, wrap, replace: setShared, markOpened };
+};
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { CONFIG } from '../types';
+import { requestFullscreen } from '../utils/kiosk';
+
+interface KioskActions {
+  // Burst the tree, or bring it back together
+  onCycleFormation: () => void;
+  onNextPhoto: () => void;
+  // The kiosk is taking over again: close whatever a person left open
+  onTakeOver: () => void;
+}
+
+/**
+ * Unattended mode for a screen nobody operates. The scene bursts and re-forms on a schedule and the
+ * photos advance; the UI and cursor stay hidden. Any input hands control to a person until
+ * `idleSeconds` pass without one; switching it on counts as input, so it only takes over after that
+ * too. It also rebuilds the canvas after a lost WebGL context or a crash, and restarts its schedule
+ * (instead of catching up) when a sleeping tab wakes.
+ */
+export const useKioskMode = (enabled: boolean, isChaos: boolean, actions: KioskActions) => {
+  const [isAttended, setIsAttended] = useState(true);
+  const [canvasKey, setCanvasKey] = useState(0);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const isChaosRef = useRef(isChaos);
+  isChaosRef.current = isChaos;
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const { formedSeconds, chaosSeconds, photoSeconds, idleSeconds } = CONFIG.kiosk;
+    // Whoever switched it on is still here: start the idle countdown rather than hiding the UI now
+    let attended = true;
+    let lastInput = Date.now();
+    let phaseStart = lastInput;
+    let photoStart = phaseStart;
+    setIsAttended(true);
+    // Succeeds when kiosk mode was switched on by a click; otherwise the first input retries
+    requestFullscreen();
+
+    const handleInput = (e: Event) => {
+      lastInput = Date.now();
+      if (e.type === 'pointerdown' || e.type === 'keydown') requestFullscreen();
+      if (!attended) {
+        attended = true;
+        setIsAttended(true);
+      }
+    };
+
+    const tick = () => {
+      if (document.visibilityState !== 'visible') return;
+      const now = Date.now();
+      if (attended) {
+        if (now - lastInput < idleSeconds * 1000) return;
+        attended = false;
+        setIsAttended(false);
+        phaseStart = photoStart = now;
+        actionsRef.current.onTakeOver();
+        return;
+      }
+      if (now - phaseStart >= (isChaosRef.current ? chaosSeconds : formedSeconds) * 1000) {
+        phaseStart = now;
+        actionsRef.current.onCycleFormation();
+      }
+      if (now - photoStart >= photoSeconds * 1000) {
+        photoStart = now;
+        actionsRef.current.onNextPhoto();
+      }
+    };
+
+    // Background tabs throttle or freeze timers; on waking, start the schedule afresh
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') phaseStart = photoStart = Date.now();
+    };
+
+    const inputEvents = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart'];
+    inputEvents.forEach((type) => window.addEventListener(type, handleInput, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const interval = window.setInterval(tick, 1000);
+
+    return () => {
+      inputEvents.forEach((type) => window.removeEventListener(type, handleInput));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.clearInterval(interval);
+    };
+  }, [enabled]);
+
+  const rebuildTimer = useRef(0);
+  useEffect(() => () => window.clearTimeout(rebuildTimer.current), []);
+
+  const scheduleRebuild = (seconds: number) => {
+    window.clearTimeout(rebuildTimer.current);
+    rebuildTimer.current = window.setTimeout(() => setCanvasKey((key) => key + 1), seconds * 1000);
+  };
+
+  // Three.js already keeps a lost context restorable. The GPU simulations' state doesn't survive
+  // either way, so a restored context (or none after `recoverSeconds`) means a fresh canvas.
+  const onCanvasCreated = (gl: THREE.WebGLRenderer) => {
+    const canvas = gl.domElement;
+    canvas.addEventListener('webglcontextlost', () => {
+      if (enabledRef.current) scheduleRebuild(CONFIG.kiosk.recoverSeconds);
+    });
+    canvas.addEventListener('webglcontextrestored', () => {
+      if (enabledRef.current) scheduleRebuild(0);
+    });
+  };
+
+  // The canvas crashed (e.g. the context couldn't be created yet): try again shortly
+  const onCanvasError = () => {
+    if (enabledRef.current) scheduleRebuild(CONFIG.kiosk.recoverSeconds);
+  };
+
+  return { isUnattended: enabled && !isAttended, canvasKey, onCanvasCreated, onCanvasError };
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { isTypingTarget } from '../utils/dom';
+
+interface LightboxHandlers {
+  onPrev: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+const SWIPE_MIN_DISTANCE = 60; // px
+
+/**
+ * Arrow keys / horizontal swipes step through the photos, Escape closes.
+ * Only listens while the lightbox is open.
+ */
+export const useLightboxNavigation = (active: boolean, handlers: LightboxHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'ArrowLeft') handlersRef.current.onPrev();
+      else if (e.key === 'ArrowRight') handlersRef.current.onNext();
+      else if (e.key === 'Escape') handlersRef.current.onClose();
+      else return;
+      e.preventDefault();
+    };
+
+    let start: { x: number; y: number; id: number } | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      start = { x: e.clientX, y: e.clientY, id: e.pointerId };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!start || start.id !== e.pointerId) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      start = null;
+      // Mostly horizontal and long enough: a swipe, not a tap or a scroll
+      if (Math.abs(dx) < SWIPE_MIN_DISTANCE || Math.abs(dx) < Math.abs(dy) * 1.5) return;
+      if (dx < 0) handlersRef.current.onNext();
+      else handlersRef.current.onPrev();
+    };
+
+    const handlePointerCancel = () => {
+      start = null;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+    };
+  }, [active]);
+};
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+/**
+ * Whether the browser thinks it's online. Remote assets (the caption fonts) are skipped while it
+ * isn't, instead of waiting on requests that can't succeed.
+ */
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine);
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { isTypingTarget } from '../utils/dom';
+import { collectDroppedFiles, collectPastedFiles, hasDraggedFiles, isImageFile } from '../utils/fileImport';
+
+export interface IncomingFiles {
+  images: File[];
+  // Non-image files that were filtered out of a mixed drop
+  skipped: number;
+}
+
+/**
+ * Accepts photos dropped anywhere on the page (files or folders) or pasted from the clipboard.
+ * Returns whether files are currently being dragged over the page.
+ */
+export const usePhotoDrop = (onFiles: (incoming: IncomingFiles) => void, enabled = true) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // dragenter/dragleave fire for every child element; count to know when we really left
+    let depth = 0;
+
+    const deliver = (files: File[]) => {
+      if (files.length === 0) return;
+      const images = files.filter(isImageFile);
+      onFilesRef.current({ images, skipped: files.length - images.length });
+    };
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      // Required for the drop event to fire
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = 'copy';
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      collectDroppedFiles(e.dataTransfer!).then(deliver).catch((error) => {
+        console.error('Could not read dropped files:', error);
+      });
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTypingTarget(e.target)) return;
+      const files = collectPastedFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      deliver(files);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+      setIsDragging(false);
+    };
+  }, [enabled]);
+
+  return { isDragging };
+};
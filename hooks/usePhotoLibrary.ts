@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LibraryPhoto, PhotoMetaPatch, PhotoRecord } from '../types';
+import {
+  ImportedPhoto,
+  PhotoImportMode,
+  deletePhoto,
+  importPhotos,
+  loadPhotoLibrary,
+  reorderPhotos,
+  updatePhoto,
+} from '../utils/photoLibrary';
+
+const revoke = ({ url, thumbnailUrl }: { url: string; thumbnailUrl: string }) => {
+  URL.revokeObjectURL(url);
+  if (thumbnailUrl !== url) URL.revokeObjectURL(thumbnailUrl);
+};
+
+/**
+ * React view of the persisted photo library.
+ * Owns the object URLs for the stored blobs: one set per photo id, revoked when the photo leaves the library.
+ * Photos stored before preprocessing existed fall back to the original blob.
+ * A failed edit re-reads the library (so the view shows what's really stored) and rejects for the caller to report.
+ */
+export const usePhotoLibrary = () => {
+  const [photos, setPhotos] = useState<LibraryPhoto[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const urls = useRef(new Map<string, { url: string; thumbnailUrl: string }>());
+
+  const sync = useCallback((records: PhotoRecord[]) => {
+    const live = new Set(records.map((r) => r.id));
+    urls.current.forEach((entry, id) => {
+      if (!live.has(id)) {
+        revoke(entry);
+        urls.current.delete(id);
+      }
+    });
+
+    setPhotos(records.map(({ blob, textureBlob, thumbnailBlob, ...meta }) => {
+      let entry = urls.current.get(meta.id);
+      if (!entry) {
+        const url = URL.createObjectURL(textureBlob ?? blob);
+        entry = { url, thumbnailUrl: thumbnailBlob ? URL.createObjectURL(thumbnailBlob) : url };
+        urls.current.set(meta.id, entry);
+      }
+      return { ...meta, ...entry };
+    }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPhotoLibrary()
+      .then((records) => {
+        if (!cancelled) sync(records);
+      })
+      .catch((error) => console.warn('Could not load photo library:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    const ownedUrls = urls.current;
+    return () => {
+      cancelled = true;
+      ownedUrls.forEach(revoke);
+      ownedUrls.clear();
+    };
+  }, [sync]);
+
+  const add = useCallback(
+    async (items: ImportedPhoto[], mode: PhotoImportMode) => sync(await importPhotos(items, mode)),
+    [sync]
+  );
+  const edit = useCallback(async (write: () => Promise<PhotoRecord[]>) => {
+    try {
+      sync(await write());
+    } catch (error) {
+      loadPhotoLibrary()
+        .then(sync)
+        .catch((reloadError) => console.warn('Could not reload photo library:', reloadError));
+      throw error;
+    }
+  }, [sync]);
+
+  const remove = useCallback((id: string) => edit(() => deletePhoto(id)), [edit]);
+  const reorder = useCallback((ids: string[]) => edit(() => reorderPhotos(ids)), [edit]);
+  const update = useCallback((id: string, patch: PhotoMetaPatch) => edit(() => updatePhoto(id, patch)), [edit]);
+
+  return { photos, isLoaded, add, remove, reorder, update };
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { SceneSnapshot, decodeSceneHash, encodeSceneHash } from '../utils/sceneUrl';
+
+/**
+ * Keeps the URL hash in sync with the scene and restores the scene on back/forward.
+ *
+ * Discrete changes (state, snow, photos, slideshow) push a new history entry.
+ * Camera-only changes replace the current entry, so orbiting doesn't flood the history, and so do
+ * changes the app makes by itself: call `replaceNext` just before making one.
+ */
+export const useSceneHash = (snapshot: SceneSnapshot, onRestore: (snapshot: SceneSnapshot) => void) => {
+  const hash = encodeSceneHash(snapshot);
+  const discreteKey = encodeSceneHash({ ...snapshot, camera: undefined });
+
+  const lastDiscreteKey = useRef<string | null>(null);
+  // The first write (page load) and writes caused by a restore must not create new entries
+  const replaceNext = useRef(true);
+
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    if (window.location.hash === hash) {
+      replaceNext.current = false;
+      lastDiscreteKey.current = discreteKey;
+      return;
+    }
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    const isCameraOnly = lastDiscreteKey.current === discreteKey;
+
+    if (replaceNext.current || isCameraOnly) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+
+    replaceNext.current = false;
+    lastDiscreteKey.current = discreteKey;
+  }, [hash, discreteKey]);
+
+  // An automatic change that turned out to change nothing mustn't make the visitor's next one replace
+  useEffect(() => {
+    replaceNext.current = false;
+  });
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const restored = decodeSceneHash(window.location.hash);
+      if (!restored) return;
+      replaceNext.current = true;
+      onRestoreRef.current(restored);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return {
+    replaceNext: () => {
+      replaceNext.current = true;
+    },
+  };
+};
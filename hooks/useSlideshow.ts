@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SlideshowSettings } from '../types';
+import { shuffledOrder } from '../utils/slideshow';
+
+interface SlideshowActions {
+  onStep: () => void;
+  // Every photo has had its turn and loop is off
+  onFinish: () => void;
+}
+
+/**
+ * Steps the photos on a timer while the slideshow plays and nothing pauses it (a hovered frame,
+ * an open photo). Returns the shuffled play order, if shuffle is on; each time round gets a new one.
+ */
+export const useSlideshow = (
+  settings: SlideshowSettings,
+  photoCount: number,
+  seed: number,
+  isPaused: boolean,
+  actions: SlideshowActions
+) => {
+  const [round, setRound] = useState(0);
+  const steps = useRef(0);
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  const order = useMemo(
+    () => (settings.shuffle && photoCount > 1 ? shuffledOrder(photoCount, seed, round) : undefined),
+    [settings.shuffle, photoCount, seed, round]
+  );
+
+  // Pressing play (or a library change) starts the count afresh
+  useEffect(() => {
+    steps.current = 0;
+  }, [settings.playing, photoCount]);
+
+  useEffect(() => {
+    if (!settings.playing || isPaused || photoCount < 2) return;
+
+    const timer = window.setInterval(() => {
+      actionsRef.current.onStep();
+      steps.current += 1;
+      if (steps.current < photoCount) return;
+      steps.current = 0;
+      if (settings.shuffle) setRound((r) => r + 1);
+      if (!settings.loop) actionsRef.current.onFinish();
+    }, settings.intervalSeconds * 1000);
+
+    return () => window.clearInterval(timer);
+  }, [settings.playing, settings.intervalSeconds, settings.shuffle, settings.loop, isPaused, photoCount]);
+
+  return order;
+};
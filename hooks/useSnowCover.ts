@@ -0,0 +1,20 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { CONFIG } from '../types';
+
+/**
+ * How much snow has settled, 0..1, advanced every frame. It builds up while snow falls on an
+ * assembled formation (faster when denser), melts slowly once it stops, and is shaken off in chaos.
+ * Read `.current` inside useFrame.
+ */
+export const useSnowCover = (isSnowing: boolean, density: number, isAssembled: boolean) => {
+  const cover = useRef(0);
+
+  useFrame((_, delta) => {
+    const { coverSeconds, meltSeconds, clearSeconds } = CONFIG.snow;
+    const rate = !isAssembled ? -1 / clearSeconds : isSnowing ? density / coverSeconds : -1 / meltSeconds;
+    cover.current = Math.min(1, Math.max(0, cover.current + rate * Math.min(delta, 0.1)));
+  });
+
+  return cover;
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { sceneTimeline } from '../utils/timeline';
+
+// React view of the running formation change (progress is rounded, so this re-renders rarely)
+export const useTimelineProgress = () => useSyncExternalStore(sceneTimeline.subscribe, sceneTimeline.getSnapshot);
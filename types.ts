@@ -1,13 +1,265 @@
+// Named formations the scene can morph between. FORMED is the tree; CHAOS is the scatter;
+// CUSTOM is the user's message or silhouette.
 export enum TreeState {
   CHAOS = 'CHAOS',
   FORMED = 'FORMED',
+  SPIRAL = 'SPIRAL',
+  HEART = 'HEART',
+  WREATH = 'WREATH',
+  NUMERAL = 'NUMERAL',
+  SNOWFLAKE = 'SNOWFLAKE',
+  CUSTOM = 'CUSTOM',
 }
 
-export interface DualPosition {
-  chaos: [number, number, number];
+// Where an element sits, and how it's turned, in one formation
+export interface FormationPose {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}
+
+// One pose per formation, so an element can morph between any two of them
+export type MorphTargets = Record<TreeState, FormationPose>;
+
+export interface CameraPose {
+  position: [number, number, number];
   target: [number, number, number];
-  rotationChaos: [number, number, number];
-  rotationTarget: [number, number, number];
+}
+
+export type CaptionFontId = 'default' | 'cinzel' | 'playfair' | 'script';
+
+// Optional per-photo caption styling; unset values fall back to the theme
+export interface CaptionStyle {
+  captionFont?: CaptionFontId;
+  captionColor?: string;
+}
+
+// Anything shown in a frame: library photos, photos from a shared link and the defaults
+export interface ScenePhoto extends CaptionStyle {
+  id: string;
+  url: string;
+  // Empty means the default greeting
+  caption: string;
+}
+
+// Lightbox state: which frame flew to the camera and which photo it currently shows
+export interface PhotoInspection {
+  slot: number;
+  photoIndex: number;
+}
+
+// A photo kept in the local library (IndexedDB), with its original file
+export interface PhotoRecord extends CaptionStyle {
+  id: string;
+  blob: Blob; // Original upload, untouched
+  textureBlob?: Blob; // Square, oriented and downscaled for the photo plane
+  thumbnailBlob?: Blob;
+  name: string;
+  order: number;
+  caption: string;
+  addedAt: number;
+}
+
+// Library photo as the app uses it: metadata plus object URLs for the blobs
+export interface LibraryPhoto extends Omit<PhotoRecord, 'blob' | 'textureBlob' | 'thumbnailBlob'> {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Per-file state of an upload, shown in the Overlay
+export interface UploadProgress {
+  name: string;
+  status: 'queued' | 'processing' | 'done' | 'error';
+  progress: number; // 0..1
+  error?: string;
+}
+
+export type PhotoMetaPatch = Partial<Pick<PhotoRecord, 'name' | 'caption' | 'captionFont' | 'captionColor'>>;
+
+// Every color the scene and UI use, so switching themes recolors everything together
+export interface Theme {
+  id: string;
+  name: string;
+  foliage: { base: string; tip: string };
+  ornaments: {
+    balls: string[];
+    boxes: string[];
+    diamonds: string;
+    rings: string;
+    icicles: string;
+  };
+  star: { color: string; emissive: string; light: string };
+  frame: { trim: string; trimEmissive: string; paper: string; caption: string };
+  lights: { ambient: string; spot: string; fill: string };
+  background: { top: string; bottom: string };
+  // UI accent (buttons, borders) and the ink used on top of it
+  ui: { accent: string; accentLight: string; ink: string };
+}
+
+export type PhotoTransition = 'crossfade' | 'flip' | 'shimmer';
+
+// What a gift box hides (see utils/gifts.ts). A photo is a remote URL or, from the author's own
+// library, an id that only resolves on a device that has it.
+export type GiftSurprise =
+  | { kind: 'message'; text: string }
+  | { kind: 'photo'; url?: string; libraryId?: string; caption?: string }
+  | { kind: 'link'; url: string; label?: string };
+
+// A surprise in one of the generated gift boxes, by the box's place in the seeded layout
+export interface WrappedGift {
+  box: number;
+  surprise: GiftSurprise;
+}
+
+export type CountdownEventId = 'christmas' | 'newYear' | 'custom';
+
+// Countdown overlay and its fireworks finale (see utils/countdown.ts)
+export interface CountdownSettings {
+  enabled: boolean;
+  event: CountdownEventId;
+  // Local date and time for the custom event, as a datetime-local input gives it ('2025-12-31T18:00')
+  customTarget: string;
+  customLabel: string;
+}
+
+// Autoplay for the photo frames (see hooks/useSlideshow.ts)
+export interface SlideshowSettings {
+  playing: boolean;
+  intervalSeconds: number;
+  shuffle: boolean;
+  // Keep going after every photo has had its turn
+  loop: boolean;
+  transition: PhotoTransition;
+}
+
+export type CameraShotId = 'orbit' | 'crane' | 'photos' | 'burst';
+
+// A point on a camera path, `at` seconds into its shot. `easing` shapes the move into it.
+export interface CameraKeyframe {
+  at: number;
+  position: [number, number, number];
+  target: [number, number, number];
+  easing?: EasingName;
+}
+
+// A named camera move (scene group space), and the formation the scene takes while it plays
+export interface CameraShot {
+  id: CameraShotId;
+  label: string;
+  keyframes: CameraKeyframe[];
+  formation: TreeState;
+}
+
+export type EnvironmentId = 'lobby' | 'village' | 'fireplace' | 'ballroom' | 'studio';
+
+// A glowing panel in an environment's reflection map (drei's Lightformer)
+export interface EnvironmentLightformer {
+  form: 'rect' | 'circle' | 'ring';
+  position: [number, number, number];
+  scale: [number, number];
+  color: string;
+  intensity: number;
+}
+
+// Scenery built around the tree (see components/Backdrop.tsx)
+export type EnvironmentScenery = 'none' | 'village' | 'hearth' | 'columns';
+
+// Where the tree stands: lighting rig, reflections, fog, ground and sky. Light colors left
+// unset follow the theme.
+export interface EnvironmentPreset {
+  id: EnvironmentId;
+  label: string;
+  lights: {
+    ambient: { intensity: number; color?: string };
+    spot: { position: [number, number, number]; intensity: number; angle: number; color?: string };
+    fill: { position: [number, number, number]; intensity: number; color?: string };
+  };
+  // The reflection map is rendered from these panels on the GPU, so nothing is downloaded
+  reflections: { background: string; lightformers: EnvironmentLightformer[] };
+  fog: { color: string; near: number; far: number } | null;
+  ground: {
+    // A solid floor under the tree; none leaves it standing in the dark
+    floor: { color: string; roughness: number; metalness: number } | null;
+    shadows: { opacity: number; color: string; blur: number; far: number };
+  };
+  // The sky gradient (the theme's background when unset), stars, and what stands around the tree
+  backdrop: { gradient?: { top: string; bottom: string }; stars: boolean; scenery: EnvironmentScenery };
+}
+
+export type OrnamentKind = 'balls' | 'boxes' | 'diamonds' | 'rings' | 'icicles';
+
+// An ornament hung by hand in decorating mode. `position` is where it sits on the tree
+// (FORMED, scene group space); in every other formation it joins the generated ones.
+export interface PlacedOrnament {
+  id: string;
+  kind: OrnamentKind;
+  color: string;
+  position: [number, number, number];
+}
+
+export type LightPattern = 'steady' | 'twinkle' | 'chase' | 'fade' | 'alternate' | 'rainbow';
+
+// One step of a garland light show (see utils/lightShow.ts for the text format)
+export interface LightStep {
+  pattern: LightPattern;
+  seconds: number;
+  speed: number;
+  // #RRGGBB bulb colors for this step; the garland colors when unset
+  colors?: string[];
+}
+
+// Frequency bands measured from the playing track (0..1)
+export type AudioBand = 'bass' | 'mid' | 'treble' | 'level';
+
+// Scene properties that can react to the music
+export type AudioTarget = 'foliageSparkle' | 'foliageBrightness' | 'starPulse' | 'starLight' | 'ornamentWobble';
+
+export type AudioMapping = Record<AudioTarget, { band: AudioBand; gain: number }>;
+
+export type EasingName = 'linear' | 'easeOutCubic' | 'easeInOutCubic' | 'easeOutQuint' | 'easeOutBack';
+
+// Scene elements the transition timeline drives
+export type TimelineTrack = 'foliage' | 'ornaments' | 'photos' | 'star';
+
+// Timing of one element, as fractions of the total duration. Elements at tier 1 (the top)
+// start `stagger` later than those at tier 0 (the base); delay + stagger + duration <= 1.
+export interface TrackTiming {
+  delay: number;
+  duration: number;
+  stagger: number;
+  easing?: EasingName;
+}
+
+export interface TimelineConfig {
+  duration: number; // seconds
+  easing: EasingName; // default for tracks without their own
+  tracks: Record<TimelineTrack, TrackTiming>;
+}
+
+// The parts of the timeline a viewer picks (saved per device)
+export type TimelineSettings = Pick<TimelineConfig, 'duration' | 'easing'>;
+
+export type SnowDensity = 'light' | 'normal' | 'heavy';
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra' | 'max';
+
+// A fixed tier, or 'auto' to follow the measured frame rate
+export type QualitySetting = QualityTier | 'auto';
+
+// What a quality tier turns on, and how much of it (see utils/quality.ts)
+export interface QualityPreset {
+  label: string;
+  particleCount: number;
+  ornamentScale: number; // Share of each ornament kind's full count (past 1, smaller ornaments)
+  snowCount: number;
+  stars: number;
+  dpr: [number, number];
+  shadows: boolean;
+  contactShadowResolution: number; // 0 = no contact shadows
+  postprocessing: 'none' | 'bloom' | 'full';
+  multisampling: number;
+  // Glass (transmission) and clearcoat materials; plain standard ones when off
+  physicalMaterials: boolean;
+  sphereSegments: number;
 }
 
 export const CONFIG = {
@@ -15,6 +267,134 @@ export const CONFIG = {
   treeRadius: 5,
   particleCount: 8000,
   ornamentCount: 150,
+  // Most photo frames shown on the tree at once (also limited by what fits without overlaps)
+  maxPhotoFrames: 40,
+  // Default layout seed; every generated position/rotation/scale derives from it
+  seed: 20251224,
+  // Upload preprocessing (see utils/imageProcessing.ts)
+  photoProcessing: {
+    maxTextureSize: 1024,
+    thumbnailSize: 160,
+    fit: 'crop' as 'crop' | 'letterbox',
+    letterboxColor: '#F8F8FF',
+    quality: 0.9,
+  },
+  // Formation changes: foliage rises from the base, then ornaments pop in tier by tier,
+  // then the photos, and the star lands last (see utils/timeline.ts)
+  timeline: {
+    duration: 4.5,
+    easing: 'easeInOutCubic',
+    tracks: {
+      foliage: { delay: 0, duration: 0.45, stagger: 0.15 },
+      ornaments: { delay: 0.25, duration: 0.25, stagger: 0.25, easing: 'easeOutBack' },
+      photos: { delay: 0.45, duration: 0.3, stagger: 0.15 },
+      star: { delay: 0.75, duration: 0.25, stagger: 0, easing: 'easeOutBack' },
+    },
+  } as TimelineConfig,
+  // Snowfall (see components/Snow.tsx). Wind is a steady drift in units/s along x and z;
+  // gusts push flakes further downwind every `gustPeriod` seconds.
+  snow: {
+    wind: [1.2, 0.4] as [number, number],
+    gustStrength: 2.5,
+    gustPeriod: 9,
+    fallSpeed: [0.9, 2.2] as [number, number], // units/s
+    flakeSize: [0.1, 0.3] as [number, number],
+    area: { width: 50, top: 30, bottom: -5 },
+    // Flake count multiplier over the quality tier's count (also how fast snow builds up)
+    density: { light: 0.4, normal: 1, heavy: 2.5 } as Record<SnowDensity, number>,
+    // Build-up: seconds to full cover at normal density, to melt once it stops, to clear in chaos
+    coverSeconds: 60,
+    meltSeconds: 90,
+    clearSeconds: 1.5,
+  },
+  // Decorating mode (see utils/decorations.ts)
+  decorating: {
+    palette: ['#D4AF37', '#C41E3A', '#F8F8FF', '#C0C0C0', '#0F52BA', '#046307', '#8E4585', '#FF8C00'],
+    // Edits kept for undo
+    historyLimit: 100,
+    // Most hand-placed ornaments per tree
+    maxPlaced: 200,
+  },
+  // String lights spiralling round the cone (see components/Garlands.tsx)
+  garlands: {
+    strands: 2,
+    bulbsPerStrand: 110,
+    turns: 5.5, // per strand, base to top
+    colors: ['#FFC46B', '#FF2E2E', '#2EFF6A', '#3D7BFF'],
+    bulbSize: 0.09,
+    standOff: 0.35, // distance outside the foliage
+    intensity: 3, // emissive gain; well over 1 so lit bulbs reach the Bloom threshold
+    blendSeconds: 0.6, // crossfade between light show steps
+  },
+  // Photo slideshow: interval choices (seconds), how long a frame takes to change picture, and how
+  // much later the top frames change than the bottom ones
+  slideshow: {
+    intervals: [4, 8, 15, 30],
+    transitionSeconds: 1.2,
+    staggerSeconds: 1.5,
+    // Loaded photo textures kept around (current, next and previous step for every frame)
+    textureCacheSize: 128,
+  },
+  // What happens at zero: the tree bursts, fireworks go up, and it re-forms after `finaleSeconds`
+  countdown: {
+    finaleSeconds: 14,
+    // A page that slept through zero by more than this skips the finale
+    lateSeconds: 60,
+  },
+  // Fireworks finale (see components/Fireworks.tsx). Distances in scene units, times in seconds.
+  fireworks: {
+    rockets: 16,
+    launchSeconds: 9, // launches spread over this long
+    launchRadius: [9, 15] as [number, number], // ring round the tree the rockets go up from
+    burstHeight: [13, 19] as [number, number],
+    flightSeconds: [1.1, 1.6] as [number, number],
+    sparksPerBurst: 110,
+    sparkSpeed: [3.5, 7] as [number, number],
+    sparkSeconds: [1.2, 2.2] as [number, number],
+    gravity: 3.2,
+    drag: 1.1, // per second
+    trailEvery: 0.03, // seconds between trail points a rocket or spark leaves behind
+    trailSeconds: 0.45,
+    maxParticles: 9000,
+    intensity: 4, // colour gain; well over 1 so the bursts bloom
+  },
+  // Gift boxes with surprises (see components/GiftBoxes.tsx)
+  gifts: {
+    max: 12, // wrapped boxes per tree
+    ribbon: '#F4D27A',
+    lidSeconds: 0.9, // the lid flies off and vanishes in this long
+    confetti: 90,
+    confettiSeconds: 2.4,
+  },
+  // Presentation camera (see utils/cameraDirector.ts). Shot lengths in seconds.
+  director: {
+    orbitSeconds: 18,
+    craneSeconds: 10,
+    secondsPerPhoto: 2.5,
+    burstSeconds: 10,
+    // Glide from wherever the camera is into a new shot (also on resume)
+    blendSeconds: 1.8,
+    photoDistance: 5, // how far in front of a photo the camera passes
+  },
+  // Unattended kiosk / screensaver mode (see hooks/useKioskMode.ts). Times in seconds.
+  kiosk: {
+    formedSeconds: 45, // tree on show before each burst
+    chaosSeconds: 12,
+    photoSeconds: 8, // between photo advances
+    idleSeconds: 20, // after the last input, the kiosk takes over again
+    recoverSeconds: 3, // wait after a lost WebGL context before rebuilding the scene
+  },
+  // Which band drives which target, and how strongly (see hooks/useAudioReactive.ts)
+  audio: {
+    mapping: {
+      foliageSparkle: { band: 'bass', gain: 1.0 },
+      foliageBrightness: { band: 'bass', gain: 0.6 },
+      starPulse: { band: 'bass', gain: 1.0 },
+      starLight: { band: 'mid', gain: 1.0 },
+      ornamentWobble: { band: 'treble', gain: 1.0 },
+    } as AudioMapping,
+    defaultVolume: 0.6,
+  },
   colors: {
     emerald: '#005C29',
     gold: '#FFD700',
@@ -0,0 +1,209 @@
+import { AudioBand, CONFIG } from '../types';
+import { MusicBox, playChime } from './musicBox';
+
+export type AudioSourceKind = 'musicBox' | 'file';
+
+export interface AudioPlayerState {
+  isPlaying: boolean;
+  volume: number;
+  source: AudioSourceKind;
+  trackName: string;
+}
+
+// Band edges in Hz
+const BANDS: Record<Exclude<AudioBand, 'level'>, [number, number]> = {
+  bass: [20, 150],
+  mid: [150, 2000],
+  treble: [2000, 8000],
+};
+
+// Fast attack, slower release so beats read as pulses
+const ATTACK = 0.6;
+const RELEASE = 0.12;
+
+const MUSIC_BOX_NAME = 'Jingle Bells (Music Box)';
+
+/**
+ * Playback plus analysis for the scene.
+ * Sources feed a bus that goes to the analyser and, through the volume gain, to the speakers,
+ * so reactivity doesn't depend on the volume.
+ * The AudioContext is only created on the first play (browsers require a user gesture).
+ */
+export class AudioEngine {
+  private ctx: AudioContext | null = null;
+  private bus: GainNode | null = null;
+  private volumeNode: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private frequencyData: Uint8Array<ArrayBuffer> | null = null;
+
+  private musicBox: MusicBox | null = null;
+  private element: HTMLAudioElement | null = null;
+  private elementSource: MediaElementAudioSourceNode | null = null;
+  private fileUrl: string | null = null;
+
+  private levels: Record<AudioBand, number> = { bass: 0, mid: 0, treble: 0, level: 0 };
+  private lastSampleTime = -1;
+
+  private state: AudioPlayerState = {
+    isPlaying: false,
+    volume: CONFIG.audio.defaultVolume,
+    source: 'musicBox',
+    trackName: MUSIC_BOX_NAME,
+  };
+  private listeners = new Set<() => void>();
+
+  // --- Subscription (useSyncExternalStore) ---
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = () => this.state;
+
+  private setState(patch: Partial<AudioPlayerState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l());
+  }
+
+  // --- Graph ---
+
+  private ensureContext() {
+    if (this.ctx) return this.ctx;
+
+    const ctx = new AudioContext();
+    this.bus = ctx.createGain();
+    this.volumeNode = ctx.createGain();
+    this.volumeNode.gain.value = this.state.volume;
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0.5;
+    this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+
+    this.bus.connect(this.analyser);
+    this.bus.connect(this.volumeNode).connect(ctx.destination);
+
+    this.ctx = ctx;
+    return ctx;
+  }
+
+  private getElement() {
+    if (!this.element) {
+      this.element = new Audio();
+      this.element.loop = true;
+      this.element.crossOrigin = 'anonymous';
+      this.element.onended = () => this.setState({ isPlaying: false });
+    }
+    return this.element;
+  }
+
+  // --- Controls ---
+
+  async play() {
+    const ctx = this.ensureContext();
+    await ctx.resume();
+
+    if (this.state.source === 'file' && this.element) {
+      if (!this.elementSource) {
+        this.elementSource = ctx.createMediaElementSource(this.element);
+        this.elementSource.connect(this.bus!);
+      }
+      try {
+        await this.element.play();
+      } catch (error) {
+        console.error('Could not play the track:', error);
+        this.setState({ isPlaying: false });
+        return;
+      }
+    } else {
+      if (!this.musicBox) this.musicBox = new MusicBox(ctx, this.bus!);
+      this.musicBox.start();
+    }
+    this.setState({ isPlaying: true });
+  }
+
+  pause() {
+    this.musicBox?.stop();
+    this.element?.pause();
+    this.setState({ isPlaying: false });
+  }
+
+  setVolume(volume: number) {
+    const v = Math.min(1, Math.max(0, volume));
+    if (this.volumeNode && this.ctx) this.volumeNode.gain.setTargetAtTime(v, this.ctx.currentTime, 0.05);
+    this.setState({ volume: v });
+  }
+
+  // Switches to a user track and starts it
+  async loadFile(file: File) {
+    this.pause();
+    if (this.fileUrl) URL.revokeObjectURL(this.fileUrl);
+    this.fileUrl = URL.createObjectURL(file);
+
+    const element = this.getElement();
+    element.src = this.fileUrl;
+    this.setState({ source: 'file', trackName: file.name.replace(/\.[^.]+$/, '') });
+    await this.play();
+  }
+
+  async selectMusicBox() {
+    const wasPlaying = this.state.isPlaying;
+    this.pause();
+    this.setState({ source: 'musicBox', trackName: MUSIC_BOX_NAME });
+    if (wasPlaying) await this.play();
+  }
+
+  // A short cue over the current track (e.g. a formation settling). Silent unless music plays.
+  chime() {
+    if (!this.state.isPlaying || !this.ctx || !this.bus) return;
+    playChime(this.ctx, this.bus);
+  }
+
+  // --- Analysis ---
+
+  /**
+   * Smoothed band levels for the current frame. Safe to call from several useFrame
+   * callbacks: the analyser is only read once per distinct `time`.
+   * Without playback every band eases back to 0, so reactive visuals fall back to their idle look.
+   */
+  sample(time: number, delta: number): Readonly<Record<AudioBand, number>> {
+    if (time === this.lastSampleTime) return this.levels;
+    this.lastSampleTime = time;
+
+    const k = Math.min(1, delta * 60);
+    const active = this.state.isPlaying && this.analyser && this.frequencyData && this.ctx;
+
+    if (active) {
+      this.analyser!.getByteFrequencyData(this.frequencyData!);
+      const binHz = this.ctx!.sampleRate / this.analyser!.fftSize;
+      let total = 0;
+
+      (Object.keys(BANDS) as (keyof typeof BANDS)[]).forEach((band) => {
+        const [lo, hi] = BANDS[band];
+        const from = Math.max(0, Math.floor(lo / binHz));
+        const to = Math.min(this.frequencyData!.length - 1, Math.ceil(hi / binHz));
+        let sum = 0;
+        for (let i = from; i <= to; i++) sum += this.frequencyData![i];
+        const value = sum / ((to - from + 1) * 255);
+        total += value;
+        this.ease(band, value, k);
+      });
+      this.ease('level', total / 3, k);
+    } else {
+      (Object.keys(this.levels) as AudioBand[]).forEach((band) => this.ease(band, 0, k));
+    }
+
+    return this.levels;
+  }
+
+  private ease(band: AudioBand, target: number, k: number) {
+    const current = this.levels[band];
+    const rate = target > current ? ATTACK : RELEASE;
+    this.levels[band] = current + (target - current) * rate * k;
+  }
+}
+
+// One engine for the whole app: the UI controls it, the render loop samples it
+export const audioEngine = new AudioEngine();
@@ -0,0 +1,278 @@
+import { CONFIG, CameraKeyframe, CameraPose, CameraShot, TreeState } from '../types';
+import { EASINGS } from './timeline';
+
+// Presentation camera: named shots, each a keyframed path, played one after another in a loop.
+// Everything here is in scene group space (the tree stands on y = 0); the scene converts.
+
+type Vec3 = [number, number, number];
+
+// --- Path sampling ---
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+};
+
+// Camera positions are interpolated around the tree (angle, distance, height) rather than in
+// straight lines, so a move between two sides of the tree swings round it instead of through it
+interface Cylindrical {
+  angle: number;
+  radius: number;
+  y: number;
+}
+
+// -PI..PI
+const wrapAngle = (angle: number) => angle - Math.PI * 2 * Math.round(angle / (Math.PI * 2));
+
+const toCylindrical = (keyframes: CameraKeyframe[]): Cylindrical[] => {
+  let previous = 0;
+  return keyframes.map(({ position: [x, y, z] }, i) => {
+    let angle = Math.atan2(x, z);
+    // Unwrap, taking the short way round from the previous keyframe
+    if (i > 0) angle = previous + wrapAngle(angle - previous);
+    previous = angle;
+    return { angle, radius: Math.hypot(x, z), y };
+  });
+};
+
+const cylindricalCache = new WeakMap<CameraShot, Cylindrical[]>();
+
+const cylindricalPath = (shot: CameraShot) => {
+  let cached = cylindricalCache.get(shot);
+  if (!cached) {
+    cached = toCylindrical(shot.keyframes);
+    cylindricalCache.set(shot, cached);
+  }
+  return cached;
+};
+
+export const shotDuration = (shot: CameraShot) => shot.keyframes[shot.keyframes.length - 1]?.at ?? 0;
+
+// Writes the shot's pose at `time` seconds into `out`
+export const sampleShot = (shot: CameraShot, time: number, out: CameraPose) => {
+  const { keyframes } = shot;
+  const last = keyframes.length - 1;
+  let i = 0;
+  while (i < last - 1 && keyframes[i + 1].at <= time) i++;
+
+  const a = keyframes[i];
+  const b = keyframes[Math.min(i + 1, last)];
+  const span = b.at - a.at;
+  const raw = span > 0 ? Math.min(1, Math.max(0, (time - a.at) / span)) : 1;
+  const t = EASINGS[b.easing ?? 'easeInOutCubic'](raw);
+
+  const index = (k: number) => Math.min(last, Math.max(0, k));
+  const [c0, c1, c2, c3] = [i - 1, i, i + 1, i + 2].map((k) => cylindricalPath(shot)[index(k)]);
+  const angle = catmullRom(c0.angle, c1.angle, c2.angle, c3.angle, t);
+  const radius = Math.max(0, catmullRom(c0.radius, c1.radius, c2.radius, c3.radius, t));
+  out.position[0] = Math.sin(angle) * radius;
+  out.position[1] = catmullRom(c0.y, c1.y, c2.y, c3.y, t);
+  out.position[2] = Math.cos(angle) * radius;
+
+  const [k0, k1, k2, k3] = [i - 1, i, i + 1, i + 2].map((k) => keyframes[index(k)].target);
+  for (let c = 0; c < 3; c++) out.target[c] = catmullRom(k0[c], k1[c], k2[c], k3[c], t);
+};
+
+// --- Shots ---
+
+const TREE_CENTER: Vec3 = [0, 6, 0];
+
+// Once round the tree at the default viewing distance
+export const orbitShot = (): CameraShot => {
+  const seconds = CONFIG.director.orbitSeconds;
+  const steps = 8;
+  return {
+    id: 'orbit',
+    label: 'Slow Orbit',
+    formation: TreeState.FORMED,
+    keyframes: Array.from({ length: steps + 1 }, (_, i) => {
+      const angle = (i / steps) * Math.PI * 2;
+      return {
+        at: (i / steps) * seconds,
+        position: [Math.sin(angle) * 20, 9, Math.cos(angle) * 20] as Vec3,
+        target: TREE_CENTER,
+        easing: 'linear' as const,
+      };
+    }),
+  };
+};
+
+// From the trunk up to the star, turning a quarter round on the way
+export const craneShot = (star: Vec3): CameraShot => {
+  const seconds = CONFIG.director.craneSeconds;
+  return {
+    id: 'crane',
+    label: 'Crane to the Star',
+    formation: TreeState.FORMED,
+    keyframes: [
+      { at: 0, position: [0, 1, 11], target: [0, 1.5, 0] },
+      { at: seconds * 0.5, position: [5, star[1] * 0.5, 10], target: [0, star[1] * 0.55, 0], easing: 'easeInOutCubic' },
+      { at: seconds, position: [7, star[1] + 2.5, 7], target: star, easing: 'easeOutCubic' },
+    ],
+  };
+};
+
+// Stops in front of each photo in turn, working round the tree
+export const photoFlybyShot = (photos: Vec3[]): CameraShot | null => {
+  if (photos.length === 0) return null;
+  const { secondsPerPhoto, photoDistance } = CONFIG.director;
+  const ordered = [...photos].sort((a, b) => Math.atan2(a[0], a[2]) - Math.atan2(b[0], b[2]));
+
+  const keyframes: CameraKeyframe[] = ordered.map((photo, i) => {
+    const radius = Math.hypot(photo[0], photo[2]) || 1;
+    return {
+      at: i * secondsPerPhoto,
+      position: [
+        photo[0] + (photo[0] / radius) * photoDistance,
+        photo[1] + 0.6,
+        photo[2] + (photo[2] / radius) * photoDistance,
+      ],
+      target: photo,
+    };
+  });
+  // Linger on the last one
+  const last = keyframes[keyframes.length - 1];
+  keyframes.push({ ...last, at: last.at + secondsPerPhoto });
+
+  return { id: 'photos', label: 'Photo Fly-by', formation: TreeState.FORMED, keyframes };
+};
+
+// Close in, then pull back as the tree bursts apart
+export const burstShot = (): CameraShot => {
+  const seconds = CONFIG.director.burstSeconds;
+  return {
+    id: 'burst',
+    label: 'Chaos Burst',
+    formation: TreeState.CHAOS,
+    keyframes: [
+      { at: 0, position: [0, 8, 14], target: TREE_CENTER },
+      { at: seconds * 0.45, position: [-8, 12, 30], target: TREE_CENTER, easing: 'easeOutCubic' },
+      { at: seconds, position: [-14, 13, 29], target: [0, 5, 0], easing: 'linear' },
+    ],
+  };
+};
+
+// The presentation, in order; the photo fly-by drops out when there are no photos
+export const buildShotSequence = (scene: { star: Vec3; photos: Vec3[] }): CameraShot[] =>
+  [orbitShot(), craneShot(scene.star), photoFlybyShot(scene.photos), burstShot()].filter(
+    (shot): shot is CameraShot => shot !== null
+  );
+
+// --- Director ---
+
+export type DirectorStatus = 'idle' | 'playing' | 'paused';
+
+export interface DirectorState {
+  status: DirectorStatus;
+  shotIndex: number;
+  shotCount: number;
+  shot: Pick<CameraShot, 'id' | 'label' | 'formation'> | null;
+}
+
+const clonePose = (pose: CameraPose): CameraPose => ({ position: [...pose.position], target: [...pose.target] });
+
+/**
+ * Plays the shot sequence. The scene calls advance() every frame while playing, passing where the
+ * camera is; every new shot (and every resume) glides in from there over `blendSeconds`.
+ * pause() hands the camera back to the user; resume() picks the shot up where it left off.
+ */
+export class CameraDirector {
+  private shots: CameraShot[] = [];
+  private shotTime = 0;
+  private blend: { from: CameraPose; elapsed: number } | null = null;
+  private needsBlend = false;
+  private state: DirectorState = { status: 'idle', shotIndex: 0, shotCount: 0, shot: null };
+  private listeners = new Set<() => void>();
+
+  setShots(shots: CameraShot[]) {
+    this.shots = shots;
+    const shotIndex = this.state.shotIndex < shots.length ? this.state.shotIndex : 0;
+    if (shotIndex !== this.state.shotIndex) this.shotTime = 0;
+    this.setState({ shotIndex });
+  }
+
+  play() {
+    if (this.shots.length === 0) return;
+    this.shotTime = 0;
+    this.needsBlend = true;
+    this.setState({ status: 'playing', shotIndex: 0 });
+  }
+
+  pause() {
+    if (this.state.status === 'playing') this.setState({ status: 'paused' });
+  }
+
+  resume() {
+    if (this.state.status !== 'paused') return;
+    this.needsBlend = true;
+    this.setState({ status: 'playing' });
+  }
+
+  stop() {
+    this.blend = null;
+    this.setState({ status: 'idle', shotIndex: 0 });
+  }
+
+  // Moves the clock on and writes the camera pose into `out`. False (and `out` untouched) unless playing.
+  advance(delta: number, current: CameraPose, out: CameraPose) {
+    if (this.state.status !== 'playing' || this.shots.length === 0) return false;
+
+    let shotIndex = this.state.shotIndex;
+    this.shotTime += delta;
+    const duration = shotDuration(this.shots[shotIndex]);
+    if (this.shotTime >= duration) {
+      this.shotTime = Math.max(0, this.shotTime - duration);
+      shotIndex = (shotIndex + 1) % this.shots.length;
+      this.needsBlend = true;
+      this.setState({ shotIndex });
+    }
+    if (this.needsBlend) {
+      this.needsBlend = false;
+      this.blend = { from: clonePose(current), elapsed: 0 };
+    }
+
+    sampleShot(this.shots[shotIndex], this.shotTime, out);
+
+    if (this.blend) {
+      this.blend.elapsed += delta;
+      const raw = Math.min(1, this.blend.elapsed / CONFIG.director.blendSeconds);
+      const k = EASINGS.easeInOutCubic(raw);
+      const { from } = this.blend;
+      for (let c = 0; c < 3; c++) {
+        out.position[c] = from.position[c] + (out.position[c] - from.position[c]) * k;
+        out.target[c] = from.target[c] + (out.target[c] - from.target[c]) * k;
+      }
+      if (raw >= 1) this.blend = null;
+    }
+    return true;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = () => this.state;
+
+  private setState(patch: Partial<Pick<DirectorState, 'status' | 'shotIndex'>>) {
+    const next = { ...this.state, ...patch, shotCount: this.shots.length };
+    const shot = next.status === 'idle' ? null : this.shots[next.shotIndex];
+    const summary = shot ? { id: shot.id, label: shot.label, formation: shot.formation } : null;
+    if (
+      next.status === this.state.status &&
+      next.shotIndex === this.state.shotIndex &&
+      next.shotCount === this.state.shotCount &&
+      summary?.id === this.state.shot?.id
+    ) {
+      return;
+    }
+    this.state = { ...next, shot: summary };
+    this.listeners.forEach((l) => l());
+  }
+}
+
+// One director for the app: the scene drives it, the UI starts, pauses and resumes it
+export const cameraDirector = new CameraDirector();
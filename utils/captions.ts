@@ -0,0 +1,95 @@
+import { CaptionFontId } from '../types';
+
+export const DEFAULT_CAPTION = 'MERRY CHRISTMAS';
+export const MAX_CAPTION_LENGTH = 80;
+
+// troika (drei <Text>) needs .ttf/.otf/.woff files, not CSS font families.
+// These are the fontsource builds of the page fonts; `default` uses drei's built-in font, as does
+// every caption while a font loads, fails to load or the browser is offline.
+export const CAPTION_FONTS: Record<CaptionFontId, { label: string; url?: string }> = {
+  default: { label: 'Classic' },
+  cinzel: {
+    label: 'Cinzel',
+    url: 'https://cdn.jsdelivr.net/npm/@fontsource/cinzel@5/files/cinzel-latin-400-normal.woff',
+  },
+  playfair: {
+    label: 'Playfair',
+    url: 'https://cdn.jsdelivr.net/npm/@fontsource/playfair-display@5/files/playfair-display-latin-400-italic.woff',
+  },
+  script: {
+    label: 'Script',
+    url: 'https://cdn.jsdelivr.net/npm/@fontsource/dancing-script@5/files/dancing-script-latin-400-normal.woff',
+  },
+};
+
+export const isCaptionFontId = (value: unknown): value is CaptionFontId =>
+  typeof value === 'string' && Object.hasOwn(CAPTION_FONTS, value);
+
+// Caption area below the photo inside the Polaroid frame (world units)
+export const CAPTION_BOX = { width: 1.04, height: 0.34 };
+
+const MAX_FONT_SIZE = 0.1;
+const MIN_FONT_SIZE = 0.045;
+const FONT_STEP = 0.005;
+export const CAPTION_LINE_HEIGHT = 1.15;
+// Rough average advance of a glyph relative to the font size (incl. letter spacing)
+const GLYPH_WIDTH = 0.62;
+
+// Greedy word wrap on an estimated character budget
+const wrapLines = (text: string, charsPerLine: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    // Words longer than a line get broken, like overflowWrap="break-word"
+    let rest = word;
+    while (rest.length > charsPerLine) {
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+      lines.push(rest.slice(0, charsPerLine));
+      rest = rest.slice(charsPerLine);
+    }
+    const candidate = line ? `${line} ${rest}` : rest;
+    if (candidate.length > charsPerLine && line) {
+      lines.push(line);
+      line = rest;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+export interface CaptionLayout {
+  text: string;
+  fontSize: number;
+  maxWidth: number;
+}
+
+/**
+ * Picks the largest font size at which the caption fits the frame.
+ * Text that doesn't fit even at the minimum size is cut with an ellipsis.
+ */
+export const fitCaption = (rawText: string): CaptionLayout => {
+  const text = rawText.trim().replace(/\s+/g, ' ') || DEFAULT_CAPTION;
+
+  const steps = Math.round((MAX_FONT_SIZE - MIN_FONT_SIZE) / FONT_STEP);
+  for (let step = 0; step <= steps; step++) {
+    const fontSize = Math.round((MAX_FONT_SIZE - step * FONT_STEP) * 1000) / 1000;
+    const charsPerLine = Math.max(1, Math.floor(CAPTION_BOX.width / (fontSize * GLYPH_WIDTH)));
+    const lines = wrapLines(text, charsPerLine);
+    if (lines.length * fontSize * CAPTION_LINE_HEIGHT <= CAPTION_BOX.height) {
+      return { text, fontSize, maxWidth: CAPTION_BOX.width };
+    }
+  }
+
+  const charsPerLine = Math.max(1, Math.floor(CAPTION_BOX.width / (MIN_FONT_SIZE * GLYPH_WIDTH)));
+  const maxLines = Math.max(1, Math.floor(CAPTION_BOX.height / (MIN_FONT_SIZE * CAPTION_LINE_HEIGHT)));
+  const kept = wrapLines(text, charsPerLine).slice(0, maxLines);
+  const last = kept[kept.length - 1];
+  kept[kept.length - 1] = `${last.slice(0, Math.max(0, charsPerLine - 1)).trimEnd()}…`;
+
+  return { text: kept.join(' '), fontSize: MIN_FONT_SIZE, maxWidth: CAPTION_BOX.width };
+};
@@ -0,0 +1,141 @@
+import { CONFIG, CountdownEventId, CountdownSettings } from '../types';
+
+// Countdown to an event, and the moment it reaches zero. Time always comes from a Clock passed in,
+// so the finale can be rehearsed (`?now=2025-12-24T23:59:45` in the URL) without waiting for the date.
+
+// Milliseconds since the epoch, like Date.now()
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// `?now=<local date and time>` starts the clock there and lets it run on in real time
+export const clockFromUrl = (search: string): Clock | null => {
+  const value = new URLSearchParams(search).get('now');
+  if (!value) return null;
+  const start = new Date(value).getTime();
+  if (Number.isNaN(start)) return null;
+  const offset = start - Date.now();
+  return () => Date.now() + offset;
+};
+
+export const COUNTDOWN_EVENTS: { id: CountdownEventId; label: string }[] = [
+  { id: 'christmas', label: 'Christmas Eve' },
+  { id: 'newYear', label: 'New Year' },
+  { id: 'custom', label: 'My Event' },
+];
+
+export const isCountdownEventId = (value: unknown): value is CountdownEventId =>
+  COUNTDOWN_EVENTS.some((event) => event.id === value);
+
+export interface CountdownTarget {
+  label: string;
+  // Shown while the finale plays
+  greeting: string;
+  time: number;
+}
+
+// The next local midnight starting the given day (month is 0-based), strictly after `now`
+const nextMidnight = (month: number, day: number, now: number) => {
+  const year = new Date(now).getFullYear();
+  const thisYear = new Date(year, month, day).getTime();
+  return thisYear > now ? thisYear : new Date(year + 1, month, day).getTime();
+};
+
+// What the countdown is counting to at `now`. Yearly events roll on to next year once they pass;
+// a custom event stays put (and counts nothing once it's over). Null if the custom date is unusable.
+export const countdownTarget = (settings: CountdownSettings, now: number): CountdownTarget | null => {
+  switch (settings.event) {
+    case 'christmas':
+      // Midnight at the end of Christmas Eve
+      return { label: 'Christmas', greeting: 'Merry Christmas!', time: nextMidnight(11, 25, now) };
+    case 'newYear':
+      return { label: 'New Year', greeting: 'Happy New Year!', time: nextMidnight(0, 1, now) };
+    case 'custom': {
+      const time = new Date(settings.customTarget).getTime();
+      if (Number.isNaN(time)) return null;
+      const label = settings.customLabel.trim() || 'My Event';
+      return { label, greeting: label, time };
+    }
+  }
+};
+
+export interface CountdownParts {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// Whole units left, rounding up so the display reads 00:00:00 only at zero
+export const splitRemaining = (ms: number): CountdownParts => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor(total / 3600) % 24,
+    minutes: Math.floor(total / 60) % 60,
+    seconds: total % 60,
+  };
+};
+
+export interface CountdownTick {
+  target: CountdownTarget | null;
+  remainingMs: number;
+  // The event whose zero was crossed since the last tick (each one only once)
+  reached: CountdownTarget | null;
+}
+
+/**
+ * Watches for the moment a countdown reaches zero. Only a crossing it saw counts: opening the page
+ * after the event (or waking more than `lateSeconds` after it) doesn't set off the finale.
+ */
+export class CountdownTimer {
+  private armed: CountdownTarget | null = null;
+
+  constructor(private settings: CountdownSettings) {}
+
+  tick(now: number): CountdownTick {
+    const armed = this.armed;
+    const reached = armed && now >= armed.time && now - armed.time <= CONFIG.countdown.lateSeconds * 1000 ? armed : null;
+
+    const target = countdownTarget(this.settings, now);
+    const remainingMs = target ? Math.max(0, target.time - now) : 0;
+    // Arm for the next zero (a yearly event has already rolled on to next year)
+    this.armed = target && target.time > now ? target : null;
+
+    return { target, remainingMs, reached };
+  }
+}
+
+// --- Persistence ---
+
+const COUNTDOWN_KEY = 'luxury-tree:countdown';
+
+export const DEFAULT_COUNTDOWN: CountdownSettings = {
+  enabled: false,
+  event: 'christmas',
+  customTarget: '',
+  customLabel: '',
+};
+
+export const loadCountdownSettings = (): CountdownSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(COUNTDOWN_KEY) ?? 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_COUNTDOWN;
+    return {
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_COUNTDOWN.enabled,
+      event: isCountdownEventId(raw.event) ? raw.event : DEFAULT_COUNTDOWN.event,
+      customTarget: typeof raw.customTarget === 'string' ? raw.customTarget : DEFAULT_COUNTDOWN.customTarget,
+      customLabel: typeof raw.customLabel === 'string' ? raw.customLabel.slice(0, 40) : DEFAULT_COUNTDOWN.customLabel,
+    };
+  } catch {
+    return DEFAULT_COUNTDOWN;
+  }
+};
+
+export const saveCountdownSettings = (settings: CountdownSettings) => {
+  try {
+    localStorage.setItem(COUNTDOWN_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled - the settings just won't persist
+  }
+};
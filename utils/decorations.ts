@@ -0,0 +1,109 @@
+import { CONFIG, OrnamentKind, PlacedOrnament } from '../types';
+
+// Decorating mode: ornaments hung by hand, with an undo/redo history of the edits.
+
+type Vec3 = [number, number, number];
+
+export const ORNAMENT_KINDS: { id: OrnamentKind; label: string }[] = [
+  { id: 'balls', label: 'Ball' },
+  { id: 'boxes', label: 'Gift Box' },
+  { id: 'diamonds', label: 'Diamond' },
+  { id: 'rings', label: 'Ring' },
+  { id: 'icicles', label: 'Icicle' },
+];
+
+const isOrnamentKind = (value: unknown): value is OrnamentKind => ORNAMENT_KINDS.some((k) => k.id === value);
+
+// Hand-placed ornaments stay on the cone: below the star and inside the tree's outline
+export const clampToTree = ([x, y, z]: Vec3): Vec3 => {
+  const h = CONFIG.treeHeight;
+  const ty = Math.min(Math.max(y, 0), h * 0.92);
+  const radius = Math.hypot(x, z);
+  const maxRadius = (1 - ty / h) * CONFIG.treeRadius;
+  const scale = radius > maxRadius ? maxRadius / radius : 1;
+  return [x * scale, ty, z * scale];
+};
+
+// --- Edits ---
+
+export const addOrnament = (list: PlacedOrnament[], ornament: PlacedOrnament) =>
+  list.length >= CONFIG.decorating.maxPlaced ? list : [...list, ornament];
+
+export const moveOrnament = (list: PlacedOrnament[], id: string, position: Vec3) =>
+  list.map((o) => (o.id === id ? { ...o, position } : o));
+
+export const removeOrnament = (list: PlacedOrnament[], id: string) => list.filter((o) => o.id !== id);
+
+// --- History ---
+
+export interface DecorationHistory {
+  past: PlacedOrnament[][];
+  present: PlacedOrnament[];
+  future: PlacedOrnament[][];
+}
+
+export const createHistory = (present: PlacedOrnament[]): DecorationHistory => ({ past: [], present, future: [] });
+
+// Records an edit; edits that changed nothing (e.g. a full tree) leave the history alone
+export const commitEdit = (history: DecorationHistory, next: PlacedOrnament[]): DecorationHistory =>
+  next === history.present
+    ? history
+    : {
+        past: [...history.past, history.present].slice(-CONFIG.decorating.historyLimit),
+        present: next,
+        future: [],
+      };
+
+export const undoEdit = (history: DecorationHistory): DecorationHistory =>
+  history.past.length === 0
+    ? history
+    : {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+      };
+
+export const redoEdit = (history: DecorationHistory): DecorationHistory =>
+  history.future.length === 0
+    ? history
+    : {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+      };
+
+// --- Persistence (the decorations stay on this device; links carry the generated tree only) ---
+
+const DECORATIONS_KEY = 'luxury-tree:decorations';
+
+const isFiniteVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+export const parsePlacedOrnament = (raw: unknown): PlacedOrnament | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, kind, color, position } = raw as Record<string, unknown>;
+  if (typeof id !== 'string' || !id || !isOrnamentKind(kind)) return null;
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color) || !isFiniteVec3(position)) return null;
+  return { id, kind, color, position: clampToTree(position) };
+};
+
+export const loadDecorations = (): PlacedOrnament[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DECORATIONS_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .map(parsePlacedOrnament)
+      .filter((o): o is PlacedOrnament => o !== null)
+      .slice(0, CONFIG.decorating.maxPlaced);
+  } catch {
+    return [];
+  }
+};
+
+export const saveDecorations = (decorations: PlacedOrnament[]) => {
+  try {
+    localStorage.setItem(DECORATIONS_KEY, JSON.stringify(decorations));
+  } catch {
+    // Storage full or disabled - decorations just won't persist
+  }
+};
@@ -0,0 +1,159 @@
+import { EnvironmentId, EnvironmentPreset } from '../types';
+
+// Where the tree stands. The reflection maps are built from glowing panels at runtime (no HDR
+// downloads); light colors left unset follow the active theme.
+
+export const ENVIRONMENT_PRESETS: Record<EnvironmentId, EnvironmentPreset> = {
+  // The original look: warm interior reflections, the theme's own gradient and a starry sky
+  lobby: {
+    id: 'lobby',
+    label: 'Grand Lobby',
+    lights: {
+      ambient: { intensity: 0.5 },
+      spot: { position: [10, 20, 10], intensity: 200, angle: 0.3 },
+      fill: { position: [-10, 5, -10], intensity: 50 },
+    },
+    reflections: {
+      background: '#1A120C',
+      lightformers: [
+        { form: 'rect', position: [0, 8, -10], scale: [12, 3], color: '#FFE2B8', intensity: 2 },
+        { form: 'rect', position: [-10, 3, 0], scale: [3, 8], color: '#FFF4E0', intensity: 1.5 },
+        { form: 'rect', position: [10, 3, 0], scale: [3, 8], color: '#FFF4E0', intensity: 1.5 },
+        { form: 'circle', position: [0, 10, 6], scale: [4, 4], color: '#FFFFFF', intensity: 3 },
+      ],
+    },
+    fog: null,
+    ground: { floor: null, shadows: { opacity: 0.7, color: '#000000', blur: 2, far: 4 } },
+    backdrop: { stars: true, scenery: 'none' },
+  },
+
+  // Moonlight from above, warm windows all around, and fog rolling in over the snow
+  village: {
+    id: 'village',
+    label: 'Snowy Village',
+    lights: {
+      ambient: { intensity: 0.3, color: '#6F87B8' },
+      spot: { position: [-12, 22, 8], intensity: 170, angle: 0.35, color: '#C8DAFF' },
+      fill: { position: [10, 2, -12], intensity: 40, color: '#FFB060' },
+    },
+    reflections: {
+      background: '#0A1224',
+      lightformers: [
+        { form: 'circle', position: [-8, 12, 4], scale: [3, 3], color: '#DDE8FF', intensity: 4 },
+        { form: 'rect', position: [0, -2, 0], scale: [30, 30], color: '#8FA3C8', intensity: 0.4 },
+        { form: 'rect', position: [10, 1, -8], scale: [6, 1], color: '#FFB060', intensity: 1.5 },
+        { form: 'rect', position: [-10, 1, -6], scale: [5, 1], color: '#FFB060', intensity: 1.2 },
+      ],
+    },
+    fog: { color: '#0B1528', near: 30, far: 85 },
+    ground: {
+      floor: { color: '#C9D4E4', roughness: 0.95, metalness: 0 },
+      shadows: { opacity: 0.55, color: '#0A1A33', blur: 2.5, far: 4 },
+    },
+    backdrop: { gradient: { top: '#02040C', bottom: '#142440' }, stars: true, scenery: 'village' },
+  },
+
+  // A low, orange glow from the hearth behind the tree and a dark wooden floor
+  fireplace: {
+    id: 'fireplace',
+    label: 'Cozy Fireplace',
+    lights: {
+      ambient: { intensity: 0.35, color: '#40200F' },
+      spot: { position: [6, 18, 12], intensity: 140, angle: 0.35, color: '#FFD7A0' },
+      fill: { position: [0, 3, -12], intensity: 70, color: '#FF7A2E' },
+    },
+    reflections: {
+      background: '#140A05',
+      lightformers: [
+        { form: 'rect', position: [0, 1, -10], scale: [6, 3], color: '#FF6A1A', intensity: 4 },
+        { form: 'rect', position: [10, 5, 4], scale: [3, 5], color: '#FFD7A0', intensity: 1 },
+        { form: 'circle', position: [-6, 8, 6], scale: [2, 2], color: '#FFE8C8', intensity: 1.5 },
+      ],
+    },
+    fog: { color: '#1A0D06', near: 25, far: 70 },
+    ground: {
+      floor: { color: '#3B2414', roughness: 0.6, metalness: 0.05 },
+      shadows: { opacity: 0.8, color: '#120600', blur: 1.8, far: 4 },
+    },
+    backdrop: { gradient: { top: '#0A0503', bottom: '#2A140A' }, stars: false, scenery: 'hearth' },
+  },
+
+  // Chandeliers overhead, a polished floor and a ring of gilded columns
+  ballroom: {
+    id: 'ballroom',
+    label: 'Gala Ballroom',
+    lights: {
+      ambient: { intensity: 0.45, color: '#302010' },
+      spot: { position: [0, 24, 6], intensity: 220, angle: 0.4, color: '#FFF2D0' },
+      fill: { position: [-10, 6, -10], intensity: 60, color: '#FFCC88' },
+    },
+    reflections: {
+      background: '#120A06',
+      lightformers: [
+        { form: 'ring', position: [0, 12, 0], scale: [6, 6], color: '#FFE9B0', intensity: 4 },
+        { form: 'ring', position: [-12, 10, -8], scale: [4, 4], color: '#FFE9B0', intensity: 3 },
+        { form: 'ring', position: [12, 10, -8], scale: [4, 4], color: '#FFE9B0', intensity: 3 },
+        { form: 'rect', position: [0, 4, -14], scale: [20, 6], color: '#7A1F2B', intensity: 0.8 },
+      ],
+    },
+    fog: { color: '#120A06', near: 35, far: 100 },
+    ground: {
+      floor: { color: '#1A1410', roughness: 0.15, metalness: 0.6 },
+      shadows: { opacity: 0.6, color: '#000000', blur: 2.5, far: 4 },
+    },
+    backdrop: { gradient: { top: '#0A0604', bottom: '#2A1A0E' }, stars: false, scenery: 'columns' },
+  },
+
+  // Neutral softboxes on a seamless grey sweep, for clean screenshots
+  studio: {
+    id: 'studio',
+    label: 'Plain Studio',
+    lights: {
+      ambient: { intensity: 0.8, color: '#FFFFFF' },
+      spot: { position: [8, 20, 12], intensity: 180, angle: 0.35, color: '#FFFFFF' },
+      fill: { position: [-12, 8, -6], intensity: 60, color: '#DDE8FF' },
+    },
+    reflections: {
+      background: '#3A3D42',
+      lightformers: [
+        { form: 'rect', position: [-8, 6, 6], scale: [6, 8], color: '#FFFFFF', intensity: 3 },
+        { form: 'rect', position: [8, 6, 6], scale: [6, 8], color: '#FFFFFF', intensity: 2 },
+        { form: 'rect', position: [0, 12, 0], scale: [10, 10], color: '#FFFFFF', intensity: 1.5 },
+      ],
+    },
+    fog: { color: '#9CA1AA', near: 40, far: 120 },
+    ground: {
+      floor: { color: '#8C9199', roughness: 0.9, metalness: 0 },
+      shadows: { opacity: 0.5, color: '#2A2E36', blur: 2.5, far: 4 },
+    },
+    backdrop: { gradient: { top: '#5E636B', bottom: '#9CA1AA' }, stars: false, scenery: 'none' },
+  },
+};
+
+export const ENVIRONMENT_IDS = Object.keys(ENVIRONMENT_PRESETS) as EnvironmentId[];
+
+export const DEFAULT_ENVIRONMENT: EnvironmentId = 'lobby';
+
+export const isEnvironmentId = (value: unknown): value is EnvironmentId =>
+  typeof value === 'string' && Object.hasOwn(ENVIRONMENT_PRESETS, value);
+
+// --- Persistence ---
+
+const ENVIRONMENT_KEY = 'luxury-tree:environment';
+
+export const loadEnvironmentId = (): EnvironmentId => {
+  try {
+    const saved = localStorage.getItem(ENVIRONMENT_KEY);
+    return isEnvironmentId(saved) ? saved : DEFAULT_ENVIRONMENT;
+  } catch {
+    return DEFAULT_ENVIRONMENT;
+  }
+};
+
+export const saveEnvironmentId = (id: EnvironmentId) => {
+  try {
+    localStorage.setItem(ENVIRONMENT_KEY, id);
+  } catch {
+    // Storage disabled - the choice just won't persist
+  }
+};
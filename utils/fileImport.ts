@@ -0,0 +1,64 @@
+// Collects image files from drops (files and whole folders) and clipboard pastes.
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|bmp|heic|heif|tiff?)$/i;
+
+// Some drops (folders, HEIC on Windows) come without a MIME type, so fall back to the extension
+export const isImageFile = (file: File) =>
+  file.type ? file.type.startsWith('image/') : IMAGE_EXTENSIONS.test(file.name);
+
+export const hasDraggedFiles = (dataTransfer: DataTransfer | null) =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
+
+const readFileEntry = (entry: FileSystemFileEntry) =>
+  new Promise<File | null>((resolve) => entry.file(resolve, () => resolve(null)));
+
+// readEntries returns at most ~100 entries per call, so keep reading until it comes back empty
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve, () => resolve([])));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    return file ? [file] : [];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntry));
+    // Folder contents in name order, like a file browser
+    return nested.flat().sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  }
+  return [];
+};
+
+/**
+ * Every file in a drop, descending into dropped folders.
+ * Must be called synchronously from the drop handler: the DataTransfer is emptied afterwards.
+ */
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Promise.resolve(Array.from(dataTransfer.files));
+  return Promise.all(entries.map(collectEntry)).then((files) => files.flat());
+};
+
+export const collectPastedFiles = (clipboardData: DataTransfer): File[] =>
+  Array.from(clipboardData.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    // Screenshots are all called "image.png"; give them distinguishable names
+    .map((file, i) =>
+      file.name === 'image.png' || !file.name
+        ? new File([file], `pasted-${Date.now()}-${i + 1}.${file.type.split('/')[1] || 'png'}`, { type: file.type })
+        : file
+    );
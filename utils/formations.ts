@@ -0,0 +1,277 @@
+import { CONFIG, TreeState } from '../types';
+import { Rng } from './random';
+
+// Shapes for the formations besides the tree and the scatter. Flat formations are drawn in the
+// local XY plane (the scene group turns them toward the viewer), centered on FORMATION_CENTER_Y.
+
+type Vec2 = [number, number];
+type Vec3 = [number, number, number];
+
+export interface FormationInfo {
+  id: TreeState;
+  label: string;
+}
+
+// Picker order
+export const FORMATIONS: FormationInfo[] = [
+  { id: TreeState.FORMED, label: 'Tree' },
+  { id: TreeState.SPIRAL, label: 'Galaxy' },
+  { id: TreeState.HEART, label: 'Heart' },
+  { id: TreeState.WREATH, label: 'Wreath' },
+  { id: TreeState.NUMERAL, label: '2027' },
+  { id: TreeState.SNOWFLAKE, label: 'Snowflake' },
+  { id: TreeState.CUSTOM, label: 'Message' },
+  { id: TreeState.CHAOS, label: 'Chaos' },
+];
+
+// Everything but the scatter is an assembled shape (ornaments settle, the star bobs)
+export const isAssembled = (state: TreeState) => state !== TreeState.CHAOS;
+
+// The tree looks the same from every side; the other shapes have a front
+export const isFlatFormation = (state: TreeState) => state !== TreeState.CHAOS && state !== TreeState.FORMED;
+
+// Builds a record with one entry per formation
+export const mapFormations = <T>(fn: (state: TreeState) => T) =>
+  Object.fromEntries(Object.values(TreeState).map((state) => [state, fn(state)])) as Record<TreeState, T>;
+
+export const FORMATION_CENTER_Y = 6;
+
+export interface FormationShape {
+  // A point on the shape's body (foliage and ornaments)
+  sample: (random: Rng) => Vec3;
+  // Evenly spread points over the body / along the edge, when the shape can do better than `sample`
+  fill?: (count: number, random: Rng) => Vec3[];
+  outline?: (count: number, random: Rng) => Vec3[];
+  // Closed outline, around the shape, that photo frames line up on
+  photoPath: Vec2[];
+  star: Vec3;
+}
+
+// --- Sampling helpers ---
+
+const gaussian = (random: Rng) => {
+  const u = Math.max(random(), 1e-9);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const circle = (radius: number, segments = 64): Vec2[] =>
+  Array.from({ length: segments }, (_, i) => {
+    const a = (i / segments) * Math.PI * 2;
+    return [radius * Math.sin(a), FORMATION_CENTER_Y + radius * Math.cos(a)] as Vec2;
+  });
+
+const isInsidePolygon = (x: number, y: number, polygon: Vec2[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Uniform over the polygon's interior (rejection sampling in its bounding box)
+const polygonSampler = (polygon: Vec2[], depth: number) => {
+  const xs = polygon.map((p) => p[0]);
+  const ys = polygon.map((p) => p[1]);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+
+  return (random: Rng): Vec3 => {
+    for (;;) {
+      const x = minX + random() * (maxX - minX);
+      const y = minY + random() * (maxY - minY);
+      if (isInsidePolygon(x, y, polygon)) return [x, y, (random() - 0.5) * depth];
+    }
+  };
+};
+
+// Even density along a set of strokes (picked by length), thickened by `radius`
+const strokeSampler = (strokes: Vec2[][], radius: number, depth: number) => {
+  const segments: { from: Vec2; to: Vec2; end: number }[] = [];
+  let total = 0;
+  strokes.forEach((stroke) => {
+    for (let i = 1; i < stroke.length; i++) {
+      const [from, to] = [stroke[i - 1], stroke[i]];
+      total += Math.hypot(to[0] - from[0], to[1] - from[1]);
+      segments.push({ from, to, end: total });
+    }
+  });
+
+  return (random: Rng): Vec3 => {
+    const at = random() * total;
+    const segment = segments.find((s) => s.end >= at) ?? segments[segments.length - 1];
+    const t = random();
+    const r = Math.sqrt(random()) * radius;
+    const a = random() * Math.PI * 2;
+    return [
+      segment.from[0] + (segment.to[0] - segment.from[0]) * t + r * Math.cos(a),
+      segment.from[1] + (segment.to[1] - segment.from[1]) * t + r * Math.sin(a),
+      (random() - 0.5) * depth,
+    ];
+  };
+};
+
+/**
+ * `count` points spaced evenly along a closed path, starting `phase` (0..1) of the way round.
+ */
+export const pointsAlongPath = (path: Vec2[], count: number, phase = 0): Vec2[] => {
+  const lengths = path.map((p, i) => {
+    const next = path[(i + 1) % path.length];
+    return Math.hypot(next[0] - p[0], next[1] - p[1]);
+  });
+  const perimeter = lengths.reduce((a, b) => a + b, 0);
+  const points: Vec2[] = [];
+
+  let edge = 0;
+  let edgeStart = 0;
+  for (let k = 0; k < count; k++) {
+    const at = ((((phase + k / count) % 1) + 1) % 1) * perimeter;
+    if (at < edgeStart) {
+      edge = 0;
+      edgeStart = 0;
+    }
+    while (edge < path.length - 1 && edgeStart + lengths[edge] < at) {
+      edgeStart += lengths[edge];
+      edge++;
+    }
+    const t = lengths[edge] > 0 ? (at - edgeStart) / lengths[edge] : 0;
+    const [from, to] = [path[edge], path[(edge + 1) % path.length]];
+    points.push([from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+  }
+  return points;
+};
+
+export const pathLength = (path: Vec2[]) =>
+  path.reduce((sum, p, i) => {
+    const next = path[(i + 1) % path.length];
+    return sum + Math.hypot(next[0] - p[0], next[1] - p[1]);
+  }, 0);
+
+// --- Shapes ---
+
+// 1. Spiral galaxy: three arms winding out of a bright bulge
+const GALAXY_RADIUS = 5.6;
+const galaxy: FormationShape = {
+  sample: (random) => {
+    if (random() < 0.15) {
+      return [gaussian(random) * 0.7, FORMATION_CENTER_Y + gaussian(random) * 0.7, gaussian(random) * 0.4];
+    }
+    const arm = Math.floor(random() * 3);
+    const r = 0.6 + random() * (GALAXY_RADIUS - 0.6);
+    const angle = (arm * Math.PI * 2) / 3 + r * 0.8;
+    const spread = 0.2 + r * 0.08;
+    return [
+      r * Math.cos(angle) + gaussian(random) * spread,
+      FORMATION_CENTER_Y + r * Math.sin(angle) + gaussian(random) * spread,
+      gaussian(random) * 0.3 * (1 - r / (GALAXY_RADIUS + 1)),
+    ];
+  },
+  photoPath: circle(GALAXY_RADIUS + 1.6),
+  star: [0, FORMATION_CENTER_Y, 0.5],
+};
+
+// 2. Heart: the classic parametric curve, filled
+const HEART_SCALE = 0.32;
+const heartOutline = (scale: number): Vec2[] =>
+  Array.from({ length: 96 }, (_, i) => {
+    const t = (i / 96) * Math.PI * 2;
+    const x = 16 * Math.sin(t) ** 3;
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    // The curve's bounding box is centered on y = -2.5
+    return [x * scale, FORMATION_CENTER_Y + (y + 2.5) * scale] as Vec2;
+  });
+const heart: FormationShape = {
+  sample: polygonSampler(heartOutline(HEART_SCALE), 1.2),
+  photoPath: heartOutline(HEART_SCALE * 1.3),
+  // In the dip between the lobes
+  star: [0, FORMATION_CENTER_Y + 7.5 * HEART_SCALE, 0.5],
+};
+
+// 3. Wreath: a fat ring
+const WREATH_RADIUS = 4.5;
+const WREATH_THICKNESS = 1.1;
+const wreath: FormationShape = {
+  sample: (random) => {
+    const a = random() * Math.PI * 2;
+    const r = Math.sqrt(random()) * WREATH_THICKNESS;
+    const b = random() * Math.PI * 2;
+    const ring = WREATH_RADIUS + r * Math.cos(b);
+    return [ring * Math.sin(a), FORMATION_CENTER_Y + ring * Math.cos(a), r * Math.sin(b)];
+  },
+  photoPath: circle(WREATH_RADIUS + WREATH_THICKNESS + 1.2),
+  // Sits on top like a bow
+  star: [0, FORMATION_CENTER_Y + WREATH_RADIUS + WREATH_THICKNESS + 0.4, 0.3],
+};
+
+// 4. "2027": digits as strokes in a 1 x 2 cell
+const DIGIT_STROKES: Record<string, Vec2[][]> = {
+  '0': [[[0.2, 0], [0.8, 0], [1, 0.3], [1, 1.7], [0.8, 2], [0.2, 2], [0, 1.7], [0, 0.3], [0.2, 0]]],
+  '2': [[[0, 1.6], [0.2, 1.9], [0.8, 1.9], [1, 1.6], [1, 1.3], [0, 0], [1, 0]]],
+  '7': [[[0, 2], [1, 2], [0.35, 0]]],
+};
+const NUMERAL_TEXT = '2027';
+const NUMERAL_SCALE = 2;
+const NUMERAL_GAP = 0.55;
+const numeralWidth = (NUMERAL_TEXT.length * (1 + NUMERAL_GAP) - NUMERAL_GAP) * NUMERAL_SCALE;
+const numeralStrokes = NUMERAL_TEXT.split('').flatMap((digit, i) =>
+  DIGIT_STROKES[digit].map((stroke) =>
+    stroke.map(([x, y]) => [
+      (x + i * (1 + NUMERAL_GAP)) * NUMERAL_SCALE - numeralWidth / 2,
+      FORMATION_CENTER_Y + (y - 1) * NUMERAL_SCALE,
+    ] as Vec2)
+  )
+);
+const numeralFrame = { halfWidth: numeralWidth / 2 + 1.6, halfHeight: NUMERAL_SCALE + 2 };
+const numeral: FormationShape = {
+  sample: strokeSampler(numeralStrokes, 0.35, 0.8),
+  photoPath: [
+    [-numeralFrame.halfWidth, FORMATION_CENTER_Y + numeralFrame.halfHeight],
+    [numeralFrame.halfWidth, FORMATION_CENTER_Y + numeralFrame.halfHeight],
+    [numeralFrame.halfWidth, FORMATION_CENTER_Y - numeralFrame.halfHeight],
+    [-numeralFrame.halfWidth, FORMATION_CENTER_Y - numeralFrame.halfHeight],
+  ],
+  star: [0, FORMATION_CENTER_Y + numeralFrame.halfHeight + 1.8, 0],
+};
+
+// 5. Snowflake: six arms, each with two pairs of branches
+const SNOWFLAKE_ARM = 5.2;
+const snowflakeStrokes = Array.from({ length: 6 }, (_, i) => {
+  const a = (i / 6) * Math.PI * 2;
+  const point = (along: number, angle: number, length: number): Vec2 => [
+    along * Math.sin(a) + length * Math.sin(a + angle),
+    FORMATION_CENTER_Y + along * Math.cos(a) + length * Math.cos(a + angle),
+  ];
+  const branches: [number, number][] = [[0.4, 1.5], [0.7, 1.0]];
+  return [
+    [point(0, 0, 0), point(SNOWFLAKE_ARM, 0, 0)],
+    ...branches.flatMap(([at, length]) => [
+      [point(SNOWFLAKE_ARM * at, 0, 0), point(SNOWFLAKE_ARM * at, Math.PI / 3.5, length)],
+      [point(SNOWFLAKE_ARM * at, 0, 0), point(SNOWFLAKE_ARM * at, -Math.PI / 3.5, length)],
+    ]),
+  ];
+}).flat();
+const snowflake: FormationShape = {
+  sample: strokeSampler(snowflakeStrokes, 0.25, 0.6),
+  // Hexagon through the arm tips' directions
+  photoPath: circle(SNOWFLAKE_ARM + 1.6, 6),
+  star: [0, FORMATION_CENTER_Y, 0.5],
+};
+
+const SHAPES: Partial<Record<TreeState, FormationShape>> = {
+  [TreeState.SPIRAL]: galaxy,
+  [TreeState.HEART]: heart,
+  [TreeState.WREATH]: wreath,
+  [TreeState.NUMERAL]: numeral,
+  [TreeState.SNOWFLAKE]: snowflake,
+};
+
+// Shape of a built-in flat formation (undefined for the tree and the scatter, which layouts.ts
+// generates, and for CUSTOM, whose shape comes from the user; see silhouette.ts)
+export const getFormationShape = (state: TreeState) => SHAPES[state];
+
+export const getStarPosition = (state: TreeState, custom?: FormationShape): Vec3 => {
+  // Floats higher than the scatter's center
+  if (state === TreeState.CHAOS) return [0, 5, 0];
+  const shape = state === TreeState.CUSTOM ? custom : SHAPES[state];
+  return shape ? shape.star : [0, CONFIG.treeHeight + 0.5, 0];
+};
@@ -0,0 +1,134 @@
+import { CONFIG, GiftSurprise, LibraryPhoto, ScenePhoto, WrappedGift } from '../types';
+
+// Surprises hidden in the tree's gift boxes: checking them (they arrive in links and files),
+// editing the list, and remembering which ones this visitor has opened.
+
+export const MAX_GIFT_MESSAGE_LENGTH = 280;
+export const MAX_GIFT_LABEL_LENGTH = 60;
+
+export const GIFT_KINDS: { id: GiftSurprise['kind']; label: string }[] = [
+  { id: 'message', label: 'Message' },
+  { id: 'photo', label: 'Photo' },
+  { id: 'link', label: 'Link' },
+];
+
+// Only web addresses go in a gift, as links or photos (no javascript:, data:, blob: and the like)
+export const isWebUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// The surprise as it's safe to use, or null if it isn't one
+export const parseGiftSurprise = (raw: unknown): GiftSurprise | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  switch (value.kind) {
+    case 'message': {
+      const text = typeof value.text === 'string' ? value.text.trim().slice(0, MAX_GIFT_MESSAGE_LENGTH) : '';
+      return text ? { kind: 'message', text } : null;
+    }
+    case 'photo': {
+      const url = typeof value.url === 'string' && isWebUrl(value.url) ? value.url : undefined;
+      const libraryId = typeof value.libraryId === 'string' && value.libraryId !== '' ? value.libraryId : undefined;
+      if (!url && !libraryId) return null;
+      const caption = typeof value.caption === 'string' ? value.caption.slice(0, MAX_GIFT_LABEL_LENGTH) : '';
+      return { kind: 'photo', ...(url ? { url } : { libraryId }), ...(caption ? { caption } : {}) };
+    }
+    case 'link': {
+      if (typeof value.url !== 'string' || !isWebUrl(value.url)) return null;
+      const label = typeof value.label === 'string' ? value.label.trim().slice(0, MAX_GIFT_LABEL_LENGTH) : '';
+      return { kind: 'link', url: value.url, ...(label ? { label } : {}) };
+    }
+    default:
+      return null;
+  }
+};
+
+// The usable gifts from a list (one per box, at most `max`); anything malformed is dropped
+export const parseWrappedGifts = (raw: unknown): WrappedGift[] => {
+  if (!Array.isArray(raw)) return [];
+  const gifts: WrappedGift[] = [];
+  raw.forEach((entry) => {
+    if (!entry || typeof entry !== 'object' || gifts.length >= CONFIG.gifts.max) return;
+    const { box, surprise } = entry as Record<string, unknown>;
+    if (typeof box !== 'number' || !Number.isInteger(box) || box < 0 || gifts.some((g) => g.box === box)) return;
+    const parsed = parseGiftSurprise(surprise);
+    if (parsed) gifts.push({ box, surprise: parsed });
+  });
+  return gifts;
+};
+
+// Puts a surprise in a box (replacing what was there), or empties it with null
+export const wrapGift = (gifts: WrappedGift[], box: number, surprise: GiftSurprise | null): WrappedGift[] => {
+  const others = gifts.filter((g) => g.box !== box);
+  if (!surprise) return others;
+  if (others.length >= CONFIG.gifts.max) return gifts;
+  return [...others, { box, surprise }].sort((a, b) => a.box - b.box);
+};
+
+// A library photo goes in as a remote URL when it has one, otherwise by id
+export const photoSurprise = ({ id, url, caption }: ScenePhoto): GiftSurprise => ({
+  kind: 'photo',
+  ...(isWebUrl(url) ? { url } : { libraryId: id }),
+  ...(caption ? { caption: caption.slice(0, MAX_GIFT_LABEL_LENGTH) } : {}),
+});
+
+// Where a photo surprise can be shown from on this device, if anywhere
+export const giftPhotoUrl = (surprise: Extract<GiftSurprise, { kind: 'photo' }>, library: LibraryPhoto[]) =>
+  surprise.url ?? library.find((p) => p.id === surprise.libraryId)?.url ?? null;
+
+// Identifies a gift for "already opened": the same box with a different surprise counts as new
+export const giftKey = (seed: number, { box, surprise }: WrappedGift) => {
+  const text = JSON.stringify(surprise);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return `${seed}:${box}:${(hash >>> 0).toString(36)}`;
+};
+
+// --- Persistence ---
+
+const GIFTS_KEY = 'luxury-tree:gifts';
+const OPENED_KEY = 'luxury-tree:opened-gifts';
+// Oldest opened keys are forgotten past this many
+const MAX_OPENED = 200;
+
+export const loadGifts = (): WrappedGift[] => {
+  try {
+    return parseWrappedGifts(JSON.parse(localStorage.getItem(GIFTS_KEY) ?? '[]'));
+  } catch {
+    return [];
+  }
+};
+
+export const saveGifts = (gifts: WrappedGift[]) => {
+  try {
+    if (gifts.length > 0) localStorage.setItem(GIFTS_KEY, JSON.stringify(gifts));
+    else localStorage.removeItem(GIFTS_KEY);
+  } catch {
+    // Storage disabled - the gifts just won't persist
+  }
+};
+
+export const loadOpenedGifts = (): string[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(OPENED_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((key): key is string => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveOpenedGifts = (keys: string[]) => {
+  try {
+    localStorage.setItem(OPENED_KEY, JSON.stringify(keys.slice(-MAX_OPENED)));
+  } catch {
+    // Storage disabled - opened gifts will look new again next visit
+  }
+};
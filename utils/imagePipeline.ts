@@ -0,0 +1,101 @@
+import {
+  ImageProcessingOptions,
+  ProcessedImage,
+  ProcessingRequest,
+  ProcessingResponse,
+  canProcessImages,
+  processImage,
+} from './imageProcessing';
+
+export interface PipelineResult {
+  file: File;
+  processed?: ProcessedImage;
+  error?: string;
+}
+
+export type PipelineProgress = (index: number, update: { progress: number; error?: string; done?: boolean }) => void;
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/imageProcessor.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+const processOnWorker = (worker: Worker, files: File[], options: ImageProcessingOptions, onProgress: PipelineProgress) =>
+  new Promise<PipelineResult[]>((resolve) => {
+    const results: PipelineResult[] = files.map((file) => ({ file }));
+    let remaining = files.length;
+
+    const settle = (index: number, result: Partial<PipelineResult>) => {
+      if (results[index].processed || results[index].error) return;
+      Object.assign(results[index], result);
+      onProgress(index, { progress: 1, error: result.error, done: true });
+      if (--remaining === 0) resolve(results);
+    };
+
+    worker.onmessage = ({ data }: MessageEvent<ProcessingResponse>) => {
+      if (data.type === 'progress') {
+        onProgress(data.id, { progress: data.progress });
+      } else if (data.type === 'done') {
+        const { id, type, ...processed } = data;
+        settle(id, { processed });
+      } else {
+        settle(data.id, { error: data.message });
+      }
+    };
+
+    // A crashed worker fails every file it hadn't finished
+    worker.onerror = (event) => {
+      event.preventDefault();
+      results.forEach((_, i) => settle(i, { error: 'The image processor stopped unexpectedly.' }));
+    };
+
+    files.forEach((file, id) => worker.postMessage({ id, file, options } satisfies ProcessingRequest));
+  });
+
+const processOnMainThread = async (files: File[], options: ImageProcessingOptions, onProgress: PipelineProgress) => {
+  const results: PipelineResult[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    try {
+      const processed = await processImage(file, options, (progress) => onProgress(i, { progress }));
+      results.push({ file, processed });
+      onProgress(i, { progress: 1, done: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while processing the image.';
+      results.push({ file, error: message });
+      onProgress(i, { progress: 1, error: message, done: true });
+    }
+  }
+  return results;
+};
+
+/**
+ * Orients, squares, downscales and thumbnails uploads off the main thread.
+ * Falls back to the main thread without worker support, and to the untouched files
+ * (no thumbnails) in browsers without OffscreenCanvas.
+ */
+export const processImageFiles = async (
+  files: File[],
+  options: ImageProcessingOptions,
+  onProgress: PipelineProgress
+): Promise<PipelineResult[]> => {
+  if (files.length === 0) return [];
+
+  if (!canProcessImages()) {
+    files.forEach((_, i) => onProgress(i, { progress: 1, done: true }));
+    return files.map((file) => ({ file }));
+  }
+
+  const worker = createWorker();
+  if (!worker) return processOnMainThread(files, options, onProgress);
+
+  try {
+    return await processOnWorker(worker, files, options, onProgress);
+  } finally {
+    worker.terminate();
+  }
+};
@@ -0,0 +1,122 @@
+// Image preprocessing shared by the upload worker and the main-thread fallback.
+// Only uses APIs available in workers (createImageBitmap, OffscreenCanvas).
+
+export interface ImageProcessingOptions {
+  maxTextureSize: number;
+  thumbnailSize: number;
+  // crop: fill the square photo plane; letterbox: show the whole image on a background
+  fit: 'crop' | 'letterbox';
+  letterboxColor: string;
+  quality: number;
+}
+
+export interface ProcessedImage {
+  texture: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+export type ProcessingRequest = { id: number; file: File; options: ImageProcessingOptions };
+
+export type ProcessingResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | ({ id: number; type: 'done' } & ProcessedImage)
+  | { id: number; type: 'error'; message: string };
+
+// Formats browsers commonly can't decode, with a hint for the user
+const UNSUPPORTED_HINTS: Record<string, string> = {
+  'image/heic': 'HEIC photos are not supported by this browser. Export them as JPEG first.',
+  'image/heif': 'HEIF photos are not supported by this browser. Export them as JPEG first.',
+  'image/tiff': 'TIFF images are not supported. Convert them to JPEG or PNG first.',
+  'image/svg+xml': 'SVG files cannot be used as photos.',
+};
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+export const canProcessImages = () =>
+  typeof createImageBitmap === 'function' && typeof OffscreenCanvas === 'function';
+
+const getContext = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageProcessingError('Could not create a canvas to process the image.');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+};
+
+const encode = async (canvas: OffscreenCanvas, quality: number) => {
+  try {
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  } catch {
+    throw new ImageProcessingError('Could not encode the processed image.');
+  }
+};
+
+export const processImage = async (
+  file: File,
+  options: ImageProcessingOptions,
+  onProgress: (progress: number) => void = () => {}
+): Promise<ProcessedImage> => {
+  const hint = UNSUPPORTED_HINTS[file.type.toLowerCase()];
+  if (hint) throw new ImageProcessingError(hint);
+  if (file.type && !file.type.startsWith('image/')) {
+    throw new ImageProcessingError('Not an image file.');
+  }
+  if (file.size === 0) throw new ImageProcessingError('The file is empty.');
+
+  // 1. Decode. 'from-image' applies the EXIF orientation, so phone photos come out upright.
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageProcessingError('Could not decode the image. The file may be corrupt or in an unsupported format.');
+  }
+  onProgress(0.4);
+
+  try {
+    const { width, height } = bitmap;
+    if (width === 0 || height === 0) throw new ImageProcessingError('The image has no pixels.');
+
+    // 2. Fit into a square (the photo plane is 1:1), never upscaling
+    const isCrop = options.fit === 'crop';
+    const sourceSide = isCrop ? Math.min(width, height) : Math.max(width, height);
+    const size = Math.min(sourceSide, options.maxTextureSize);
+    const scale = size / sourceSide;
+
+    const canvas = new OffscreenCanvas(size, size);
+    const ctx = getContext(canvas);
+
+    if (isCrop) {
+      const sx = (width - sourceSide) / 2;
+      const sy = (height - sourceSide) / 2;
+      ctx.drawImage(bitmap, sx, sy, sourceSide, sourceSide, 0, 0, size, size);
+    } else {
+      ctx.fillStyle = options.letterboxColor;
+      ctx.fillRect(0, 0, size, size);
+      const dw = width * scale;
+      const dh = height * scale;
+      ctx.drawImage(bitmap, (size - dw) / 2, (size - dh) / 2, dw, dh);
+    }
+    onProgress(0.6);
+
+    const texture = await encode(canvas, options.quality);
+    onProgress(0.8);
+
+    // 3. Thumbnail from the already-fitted square
+    const thumbSize = Math.min(options.thumbnailSize, size);
+    const thumbCanvas = new OffscreenCanvas(thumbSize, thumbSize);
+    getContext(thumbCanvas).drawImage(canvas, 0, 0, thumbSize, thumbSize);
+    const thumbnail = await encode(thumbCanvas, options.quality);
+    onProgress(1);
+
+    return { texture, thumbnail, width: size, height: size };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,35 @@
+// Kiosk mode switch: `?kiosk` (or `?kiosk=1`) in the URL turns it on for that visit, `?kiosk=0`
+// turns it off; otherwise the saved setting applies.
+
+const KIOSK_KEY = 'luxury-tree:kiosk';
+
+export const kioskFromUrl = (search: string): boolean | null => {
+  const value = new URLSearchParams(search).get('kiosk');
+  if (value === null) return null;
+  return value !== '0' && value !== 'false';
+};
+
+export const loadKioskSetting = (): boolean => {
+  try {
+    return localStorage.getItem(KIOSK_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+export const saveKioskSetting = (enabled: boolean) => {
+  try {
+    if (enabled) localStorage.setItem(KIOSK_KEY, 'on');
+    else localStorage.removeItem(KIOSK_KEY);
+  } catch {
+    // Storage disabled - the setting just won't persist
+  }
+};
+
+// Fullscreen needs a user gesture in most browsers, so this is retried on input; failures are expected
+export const requestFullscreen = () => {
+  if (typeof document === 'undefined' || document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  document.documentElement.requestFullscreen().catch(() => {
+    // Not allowed yet (no gesture) - the next input tries again
+  });
+};
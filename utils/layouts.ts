@@ -0,0 +1,416 @@
+import { CONFIG, FormationPose, MorphTargets, PlacedOrnament, TreeState } from '../types';
+import { createRng } from './random';
+import { FORMATION_CENTER_Y, FormationShape, getFormationShape, mapFormations, pathLength, pointsAlongPath } from './formations';
+
+// Pure layout generators. Same seed => identical buffers, which keeps shared links
+// and screenshots reproducible.
+
+export interface FoliageLayout {
+  // xyz per particle, one buffer per formation
+  formations: Record<TreeState, Float32Array>;
+  scales: Float32Array;
+  randoms: Float32Array;
+}
+
+// Each flat formation draws from its own stream, so adding one never moves the tree or the scatter
+const sampleFlatFormation = (shape: FormationShape, state: TreeState, count: number, seed: number, salt: string) => {
+  const random = createRng(seed, `${salt}:${state}`);
+  return shape.fill ? shape.fill(count, random) : Array.from({ length: count }, () => shape.sample(random));
+};
+
+export const generateFoliageLayout = (count: number, seed: number): FoliageLayout => {
+  const random = createRng(seed, 'foliage');
+  const positions = new Float32Array(count * 3);
+  const targets = new Float32Array(count * 3);
+  const scales = new Float32Array(count);
+  const randoms = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    // 1. Chaos Position: Random Sphere
+    const r = Math.cbrt(random()) * 15; // uniform distribution in sphere
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+
+    const cx = r * Math.sin(phi) * Math.cos(theta);
+    const cy = r * Math.sin(phi) * Math.sin(theta) + 7; // Center sphere higher up
+    const cz = r * Math.cos(phi);
+
+    positions.set([cx, cy, cz], i * 3);
+
+    // 2. Target Position: Cone / Tree
+    // Spiral distribution
+    const h = CONFIG.treeHeight;
+    const y = random() * h;
+    const levelRadius = (1 - y / h) * CONFIG.treeRadius;
+    // Golden angle for nice distribution
+    const spiralAngle = i * 2.39996;
+
+    const tx = levelRadius * Math.cos(spiralAngle);
+    const ty = y; // from 0 to height
+    const tz = levelRadius * Math.sin(spiralAngle);
+
+    targets.set([tx, ty, tz], i * 3);
+
+    // Attributes
+    scales[i] = random() * 0.5 + 0.5; // Scale variation
+    randoms[i] = random();
+  }
+
+  // CUSTOM stands in as the tree until there's a shape (see generateCustomFoliage)
+  const formations = mapFormations((state) => {
+    if (state === TreeState.CHAOS) return positions;
+    const shape = getFormationShape(state);
+    return shape ? new Float32Array(sampleFlatFormation(shape, state, count, seed, 'foliage').flat()) : targets;
+  });
+
+  return { formations, scales, randoms };
+};
+
+// Foliage targets for the user's message / silhouette
+export const generateCustomFoliage = (count: number, seed: number, shape: FormationShape) =>
+  new Float32Array(sampleFlatFormation(shape, TreeState.CUSTOM, count, seed, 'foliage').flat());
+
+export type OrnamentPlacement = 'inner' | 'outer' | 'scatter';
+
+export interface OrnamentLayout {
+  positions: Record<TreeState, [number, number, number]>;
+  rotation: [number, number, number];
+  rotVelocity: [number, number, number];
+  mass: number;
+  phase: number;
+}
+
+// Inner ornaments sit behind a flat shape's surface, outer ones in front.
+// Shapes with an outline (messages, silhouettes) get their ornaments settled along it.
+const sampleOrnamentAnchors = (
+  shape: FormationShape,
+  state: TreeState,
+  count: number,
+  type: OrnamentPlacement,
+  seed: number,
+  salt: string
+) => {
+  const depth = type === 'inner' ? -0.5 : type === 'outer' ? 0.5 : 0;
+  const points = shape.outline
+    ? shape.outline(count, createRng(seed, `ornaments:${salt}:${state}`))
+    : sampleFlatFormation(shape, state, count, seed, `ornaments:${salt}`);
+  return points.map(([x, y, z]) => [x, y, z + depth] as [number, number, number]);
+};
+
+// Ornament anchors for the user's message / silhouette
+export const generateCustomOrnamentAnchors = (
+  count: number,
+  type: OrnamentPlacement,
+  seed: number,
+  salt: string,
+  shape: FormationShape
+) => sampleOrnamentAnchors(shape, TreeState.CUSTOM, count, type, seed, salt);
+
+// `salt` separates ornament groups that share a placement type (balls vs rings)
+export const generateOrnamentLayout = (
+  count: number,
+  type: OrnamentPlacement,
+  seed: number,
+  salt: string
+): OrnamentLayout[] => {
+  const random = createRng(seed, `ornaments:${salt}`);
+  const data: OrnamentLayout[] = [];
+  const flat = mapFormations((state) => {
+    const shape = getFormationShape(state);
+    return shape ? sampleOrnamentAnchors(shape, state, count, type, seed, salt) : [];
+  });
+
+  for (let i = 0; i < count; i++) {
+    // Chaos Position (Exploded state)
+    const r = Math.cbrt(random()) * 18 + 5; // Wide scatter
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+    const cx = r * Math.sin(phi) * Math.cos(theta);
+    const cy = r * Math.sin(phi) * Math.sin(theta);
+    const cz = r * Math.cos(phi);
+
+    // Target Position (Tree state)
+    const h = CONFIG.treeHeight;
+    const y = random() * h * 0.9;
+    let levelRadius = (1 - y / h) * CONFIG.treeRadius;
+
+    if (type === 'inner') levelRadius *= 0.5 + random() * 0.3;
+    if (type === 'outer') levelRadius *= 0.9 + random() * 0.2;
+
+    const angle = random() * Math.PI * 2;
+    const tx = levelRadius * Math.cos(angle);
+    const ty = y;
+    const tz = levelRadius * Math.sin(angle);
+
+    data.push({
+      positions: mapFormations((state) => {
+        if (state === TreeState.CHAOS) return [cx, cy, cz];
+        return flat[state][i] ?? [tx, ty, tz];
+      }),
+      rotation: [random() * Math.PI, random() * Math.PI, random() * Math.PI],
+      rotVelocity: [(random() - 0.5) * 0.2, (random() - 0.5) * 0.2, (random() - 0.5) * 0.2],
+      mass: 0.5 + random() * 1.5,
+      phase: random() * Math.PI * 2,
+    });
+  }
+
+  return data;
+};
+
+// A hand-placed ornament: its tree position is the user's, everything else is seeded by its id,
+// so it scatters and joins the flat formations just like the generated ones
+export const generatePlacedOrnamentLayout = (ornament: PlacedOrnament, seed: number): OrnamentLayout => {
+  const random = createRng(seed, `decoration:${ornament.id}`);
+
+  const r = Math.cbrt(random()) * 18 + 5;
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(2 * random() - 1);
+  const chaos: [number, number, number] = [
+    r * Math.sin(phi) * Math.cos(theta),
+    r * Math.sin(phi) * Math.sin(theta),
+    r * Math.cos(phi),
+  ];
+
+  return {
+    positions: mapFormations((state) => {
+      if (state === TreeState.CHAOS) return chaos;
+      const shape = getFormationShape(state);
+      if (!shape) return ornament.position;
+      // In front of the shape, like the generated 'outer' ornaments
+      const [x, y, z] = shape.sample(createRng(seed, `decoration:${ornament.id}:${state}`));
+      return [x, y, z + 0.5];
+    }),
+    rotation: [random() * Math.PI, random() * Math.PI, random() * Math.PI],
+    rotVelocity: [(random() - 0.5) * 0.2, (random() - 0.5) * 0.2, (random() - 0.5) * 0.2],
+    mass: 0.5 + random() * 1.5,
+    phase: random() * Math.PI * 2,
+  };
+};
+
+// Photo frames sit on horizontal tiers around the cone. A formed frame is ~1.5 x 1.9 units
+// (incl. its small tilt), so these spacings keep neighbours from touching.
+const PHOTO_TIER = {
+  firstY: 2,
+  spacingY: 2.1, // between tier centers
+  minChord: 1.8, // between neighbouring frame centers on a tier
+  maxTilt: 0.1,
+  standOff: 0.6, // distance outside the foliage
+};
+
+const photoTierRadius = (y: number) => (1 - y / CONFIG.treeHeight) * CONFIG.treeRadius + PHOTO_TIER.standOff;
+
+// How many frames fit on a ring of this radius without overlapping
+const ringCapacity = (radius: number) => {
+  const ratio = PHOTO_TIER.minChord / (2 * radius);
+  return ratio >= 1 ? 1 : Math.floor(Math.PI / Math.asin(ratio));
+};
+
+const getPhotoTiers = () => {
+  const tiers: { y: number; radius: number; capacity: number }[] = [];
+  for (let y = PHOTO_TIER.firstY; ; y += PHOTO_TIER.spacingY) {
+    const radius = photoTierRadius(y);
+    // Stop once a tier can't hold two frames side by side (the top is the star's)
+    if (ringCapacity(radius) < 2) break;
+    tiers.push({ y, radius, capacity: ringCapacity(radius) });
+  }
+  return tiers;
+};
+
+// Upper bound of frames the tree can hold without overlaps
+export const maxPhotoSlots = () => getPhotoTiers().reduce((sum, t) => sum + t.capacity, 0);
+
+// Splits `count` frames over the tiers in proportion to their capacity (largest remainder)
+const allocateToTiers = (count: number, capacities: number[]) => {
+  const total = capacities.reduce((a, b) => a + b, 0);
+  const shares = capacities.map((c) => (count * c) / total);
+  const counts = shares.map(Math.floor);
+  let remaining = count - counts.reduce((a, b) => a + b, 0);
+
+  const byRemainder = shares
+    .map((share, i) => ({ i, rest: share - Math.floor(share) }))
+    .sort((a, b) => b.rest - a.rest || a.i - b.i);
+  for (const { i } of byRemainder) {
+    if (remaining === 0) break;
+    if (counts[i] < capacities[i]) {
+      counts[i]++;
+      remaining--;
+    }
+  }
+  return counts;
+};
+
+// On flat formations frames line the shape's outline, facing the viewer in front of it.
+// Once an outline is full the rest go on wider copies of it (stretched sideways, where the screen has room).
+const FLAT_PHOTO = {
+  // Footprint of a formed frame (1.2 x 1.25/1.55, plus tilt and a little air)
+  width: 1.9,
+  height: 2.2,
+  growX: 0.4,  // each further outline is this much wider...
+  growY: 0.06, // ...and taller
+  z: 1.2,
+};
+
+const framesOverlap = (a: [number, number], b: [number, number]) =>
+  Math.abs(a[0] - b[0]) < FLAT_PHOTO.width && Math.abs(a[1] - b[1]) < FLAT_PHOTO.height;
+
+const generateFlatPhotoPoses = (shape: FormationShape, state: TreeState, count: number, seed: number) => {
+  const random = createRng(seed, `photos:${state}`);
+  const placed: [number, number][] = [];
+
+  for (let ring = 0; placed.length < count; ring++) {
+    const [sx, sy] = [1 + ring * FLAT_PHOTO.growX, 1 + ring * FLAT_PHOTO.growY];
+    const path = shape.photoPath.map(([x, y]) => [x * sx, FORMATION_CENTER_Y + (y - FORMATION_CENTER_Y) * sy] as [number, number]);
+    const phase = random();
+
+    // As many evenly spaced frames as fit without touching each other or the inner outlines
+    let n = Math.min(count - placed.length, Math.floor(pathLength(path) / FLAT_PHOTO.width));
+    for (; n > 0; n--) {
+      const points = pointsAlongPath(path, n, phase);
+      const clear = points.every((p, i) =>
+        points.every((q, j) => j <= i || !framesOverlap(p, q)) && placed.every((q) => !framesOverlap(p, q))
+      );
+      if (clear) {
+        placed.push(...points);
+        break;
+      }
+    }
+  }
+
+  return placed.map(([x, y]): FormationPose => ({
+    position: [x, y, FLAT_PHOTO.z],
+    rotation: [0, 0, (random() - 0.5) * 2 * PHOTO_TIER.maxTilt],
+  }));
+};
+
+/**
+ * Frames are spread evenly on tiers (bottom tiers hold more), each tier rotated by a seeded phase.
+ * Seeded jitter stays inside each frame's free arc, so frames never overlap.
+ * `count` is clamped to maxPhotoSlots(). Without a `custom` shape, CUSTOM poses are the tree's.
+ */
+export const generatePhotoLayout = (count: number, seed: number, custom?: FormationShape): MorphTargets[] => {
+  const random = createRng(seed, 'photos');
+  const tiers = getPhotoTiers();
+  const slots = Math.min(count, maxPhotoSlots());
+  const perTier = allocateToTiers(slots, tiers.map((t) => t.capacity));
+  const flat = mapFormations((state) => {
+    const shape = state === TreeState.CUSTOM ? custom : getFormationShape(state);
+    return shape ? generateFlatPhotoPoses(shape, state, slots, seed) : [];
+  });
+  const data: MorphTargets[] = [];
+
+  tiers.forEach((tier, t) => {
+    const n = perTier[t];
+    if (n === 0) return;
+
+    const step = (Math.PI * 2) / n;
+    const minAngle = 2 * Math.asin(Math.min(1, PHOTO_TIER.minChord / (2 * tier.radius)));
+    const freeAngle = Math.max(0, step - minAngle);
+    const phase = random() * step;
+
+    for (let k = 0; k < n; k++) {
+      // --- TARGET (Tree) ---
+      const angle = phase + k * step + (random() - 0.5) * freeAngle;
+
+      const tx = tier.radius * Math.cos(angle);
+      const ty = tier.y;
+      const tz = tier.radius * Math.sin(angle);
+
+      const rotTargetX = 0;
+      const rotTargetY = -angle + Math.PI / 2;
+      const rotTargetZ = (random() - 0.5) * 2 * PHOTO_TIER.maxTilt;
+
+      // --- CHAOS (Background Scatter) ---
+      // Push them further back so they don't clip with the featured one
+      const cx = (random() - 0.5) * 35;
+      const cy = random() * 15 - 5;
+      const cz = (random() - 0.5) * 35;
+
+      const rotChaosX = (random() - 0.5) * 1;
+      const rotChaosY = (random() - 0.5) * 1;
+      const rotChaosZ = (random() - 0.5) * 1;
+
+      const slot = data.length;
+      data.push(mapFormations((state) => {
+        if (state === TreeState.CHAOS) return { position: [cx, cy, cz], rotation: [rotChaosX, rotChaosY, rotChaosZ] };
+        return flat[state][slot] ?? { position: [tx, ty, tz], rotation: [rotTargetX, rotTargetY, rotTargetZ] };
+      }));
+    }
+  });
+
+  return data;
+};
+
+export interface SnowLayout {
+  // x and z across the snow area; y is how far into its fall the flake starts
+  positions: Float32Array;
+  speeds: Float32Array;
+  sizes: Float32Array;
+  phases: Float32Array; // Flutter and spin
+  variants: Float32Array; // 0 = soft puff, 1 = six-armed crystal, 2 = glint
+}
+
+export const generateSnowLayout = (count: number, seed: number): SnowLayout => {
+  const random = createRng(seed, 'snow');
+  const { area, fallSpeed, flakeSize } = CONFIG.snow;
+  const positions = new Float32Array(count * 3);
+  const speeds = new Float32Array(count);
+  const sizes = new Float32Array(count);
+  const phases = new Float32Array(count);
+  const variants = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = (random() - 0.5) * area.width;
+    positions[i * 3 + 1] = random() * (area.top - area.bottom);
+    positions[i * 3 + 2] = (random() - 0.5) * area.width;
+
+    // Bigger flakes fall a little faster
+    const size = random();
+    sizes[i] = flakeSize[0] + size * (flakeSize[1] - flakeSize[0]);
+    speeds[i] = fallSpeed[0] + (size * 0.5 + random() * 0.5) * (fallSpeed[1] - fallSpeed[0]);
+    phases[i] = random() * Math.PI * 2;
+    const kind = random();
+    variants[i] = kind < 0.6 ? 0 : kind < 0.9 ? 1 : 2;
+  }
+
+  return { positions, speeds, sizes, phases, variants };
+};
+
+export interface GarlandLayout {
+  // xyz per bulb, strand after strand
+  positions: Float32Array;
+  // 0..1 from the base to the top of its strand
+  along: Float32Array;
+  strands: Uint8Array;
+  randoms: Float32Array;
+}
+
+// Strands spiral up the cone just outside the foliage, evenly offset around it. Bulbs are spaced
+// evenly by height, so the wide lower turns get the same count per turn as the narrow top ones.
+export const generateGarlandLayout = (strandCount: number, bulbsPerStrand: number, seed: number): GarlandLayout => {
+  const random = createRng(seed, 'garlands');
+  const { turns, standOff } = CONFIG.garlands;
+  const count = strandCount * bulbsPerStrand;
+  const positions = new Float32Array(count * 3);
+  const along = new Float32Array(count);
+  const strands = new Uint8Array(count);
+  const randoms = new Float32Array(count);
+
+  for (let s = 0; s < strandCount; s++) {
+    for (let b = 0; b < bulbsPerStrand; b++) {
+      const i = s * bulbsPerStrand + b;
+      const t = bulbsPerStrand > 1 ? b / (bulbsPerStrand - 1) : 0;
+      const y = t * CONFIG.treeHeight * 0.92; // stop short of the star
+      const radius = (1 - y / CONFIG.treeHeight) * CONFIG.treeRadius + standOff;
+      const angle = t * turns * Math.PI * 2 + (s / strandCount) * Math.PI * 2;
+
+      positions[i * 3] = Math.cos(angle) * radius;
+      positions[i * 3 + 1] = y;
+      positions[i * 3 + 2] = Math.sin(angle) * radius;
+      along[i] = t;
+      strands[i] = s;
+      randoms[i] = random();
+    }
+  }
+
+  return { positions, along, strands, randoms };
+};
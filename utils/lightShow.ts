@@ -0,0 +1,267 @@
+import { CONFIG, LightPattern, LightStep } from '../types';
+
+// Garland light shows: a handful of patterns, and a small text format for sequencing them.
+//
+// A show is one step per line (or separated by `;`), looping forever:
+//
+//   # warm start, then a race round the tree
+//   steady 4s
+//   chase 8s speed=2 colors=#ff0000,#ffffff
+//   rainbow 10s speed=0.5
+//
+// Each step is a pattern, how long it runs (`8s`, or a bare number of seconds), and optionally
+// `speed=` (1 is the default pace) and `colors=` (#RRGGBB list). Neighbouring steps crossfade.
+
+export type Rgb = [number, number, number];
+
+// A bulb's place on its strand; `along` runs 0..1 from the base to the top
+export interface Bulb {
+  index: number;
+  along: number;
+  strand: number;
+  random: number;
+}
+
+export const LIGHT_PATTERNS: { id: LightPattern; label: string }[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'twinkle', label: 'Twinkle' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'alternate', label: 'Alternate' },
+  { id: 'rainbow', label: 'Rainbow' },
+];
+
+export class LightShowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LightShowError';
+  }
+}
+
+// --- Colors ---
+
+// sRGB hex to linear RGB, as three.js colors would hold it
+const hexToLinear = (hex: string): Rgb => {
+  const n = parseInt(hex.slice(1), 16);
+  const toLinear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  return [toLinear((n >> 16) & 255), toLinear((n >> 8) & 255), toLinear(n & 255)];
+};
+
+// Fully saturated hue (0..1) in linear RGB
+const hueToLinear = (hue: number): Rgb => {
+  const channel = (offset: number) => {
+    const k = (offset + hue * 6) % 6;
+    const v = 1 - Math.max(0, Math.min(1, Math.min(k, 4 - k)));
+    return v * v; // rough sRGB -> linear
+  };
+  return [channel(5), channel(3), channel(1)];
+};
+
+// --- Patterns ---
+
+const fract = (v: number) => v - Math.floor(v);
+
+type PatternFn = (bulb: Bulb, t: number, speed: number, palette: Rgb[], out: Rgb) => void;
+
+const paint = (out: Rgb, color: Rgb, intensity: number) => {
+  out[0] = color[0] * intensity;
+  out[1] = color[1] * intensity;
+  out[2] = color[2] * intensity;
+};
+
+const PATTERNS: Record<LightPattern, PatternFn> = {
+  // Every bulb on, colors in turn along the strand
+  steady: (bulb, _t, _speed, palette, out) => paint(out, palette[bulb.index % palette.length], 1),
+
+  // Each bulb flickers at its own rate: mostly glowing, with brief bright glints
+  twinkle: (bulb, t, speed, palette, out) => {
+    const wave = 0.5 + 0.5 * Math.sin(t * speed * (1.5 + bulb.random * 3) + bulb.random * 97);
+    paint(out, palette[bulb.index % palette.length], 0.25 + 0.75 * Math.pow(wave, 6));
+  },
+
+  // Marquee: every third bulb lit, the lit ones stepping up the strand
+  chase: (bulb, t, speed, palette, out) => {
+    const lit = (bulb.index + Math.floor(t * speed * 8)) % 3 === 0;
+    paint(out, palette[Math.floor(bulb.index / 3) % palette.length], lit ? 1 : 0.08);
+  },
+
+  // All bulbs breathe together; each breath moves the colors one place along
+  fade: (bulb, t, speed, palette, out) => {
+    const cycle = t * speed / 3;
+    const breath = 0.5 - 0.5 * Math.cos(fract(cycle) * Math.PI * 2);
+    paint(out, palette[(bulb.index + Math.floor(cycle)) % palette.length], 0.05 + 0.95 * breath);
+  },
+
+  // Odd and even bulbs take turns
+  alternate: (bulb, t, speed, palette, out) => {
+    const phase = Math.floor(t * speed * 1.5) % 2;
+    paint(out, palette[bulb.index % palette.length], bulb.index % 2 === phase ? 1 : 0.06);
+  },
+
+  // A rainbow sweeping up the tree (ignores the palette)
+  rainbow: (bulb, t, speed, _palette, out) => paint(out, hueToLinear(fract(bulb.along * 2 - t * speed * 0.25)), 1),
+};
+
+// --- Parsing ---
+
+const isPattern = (value: string): value is LightPattern => Object.hasOwn(PATTERNS, value);
+
+// Parses the text format above. Throws a LightShowError naming the line at fault.
+export const parseLightShow = (source: string): LightStep[] => {
+  const steps: LightStep[] = [];
+
+  source.split('\n').forEach((line, lineIndex) => {
+    // Comments start with a # at the line start or after a space (colors follow = or ,)
+    const content = line.replace(/(^|\s)#.*$/, '').trim();
+    content.split(';').map((part) => part.trim()).filter(Boolean).forEach((part) => {
+      const fail = (problem: string): never => {
+        throw new LightShowError(`Line ${lineIndex + 1}: ${problem}`);
+      };
+      const [name, duration, ...options] = part.split(/\s+/);
+
+      const pattern = name.toLowerCase();
+      if (!isPattern(pattern)) fail(`unknown pattern "${name}" (use ${LIGHT_PATTERNS.map((p) => p.id).join(', ')}).`);
+
+      const seconds = Number(duration?.replace(/s$/i, ''));
+      if (!duration || !Number.isFinite(seconds) || seconds <= 0) fail(`"${part}" needs a duration such as 5s.`);
+
+      const step: LightStep = { pattern: pattern as LightPattern, seconds, speed: 1 };
+      options.forEach((option) => {
+        const [key, value = ''] = option.split('=');
+        if (key === 'speed') {
+          const speed = Number(value);
+          if (!Number.isFinite(speed) || speed <= 0) fail(`speed should be a positive number, not "${value}".`);
+          step.speed = speed;
+        } else if (key === 'colors') {
+          const colors = value.split(',').filter(Boolean);
+          if (colors.length === 0 || !colors.every((c) => /^#[0-9a-fA-F]{6}$/.test(c))) {
+            fail(`colors should be a comma separated list of #RRGGBB colors, not "${value}".`);
+          }
+          step.colors = colors;
+        } else {
+          fail(`unknown option "${option}" (use speed= or colors=).`);
+        }
+      });
+      steps.push(step);
+    });
+  });
+
+  if (steps.length === 0) throw new LightShowError('The show has no steps yet.');
+  return steps;
+};
+
+// --- Playback ---
+
+interface CompiledStep {
+  pattern: PatternFn;
+  start: number;
+  seconds: number;
+  speed: number;
+  palette: Rgb[];
+}
+
+/**
+ * A parsed show ready to play: loops through its steps and crossfades into each next one
+ * over the last `CONFIG.garlands.blendSeconds` of a step.
+ */
+export class LightShow {
+  private steps: CompiledStep[];
+  readonly duration: number;
+  private scratch: Rgb = [0, 0, 0];
+
+  constructor(steps: LightStep[], colors: string[] = CONFIG.garlands.colors) {
+    let start = 0;
+    this.steps = steps.map((step) => {
+      const compiled = {
+        pattern: PATTERNS[step.pattern],
+        start,
+        seconds: step.seconds,
+        speed: step.speed,
+        palette: (step.colors ?? colors).map(hexToLinear),
+      };
+      start += step.seconds;
+      return compiled;
+    });
+    this.duration = start;
+  }
+
+  // Writes the bulb's linear RGB (before the emissive gain) at `time` seconds into `out`
+  sample(bulb: Bulb, time: number, out: Rgb) {
+    const t = ((time % this.duration) + this.duration) % this.duration;
+    let i = this.steps.length - 1;
+    while (i > 0 && this.steps[i].start > t) i--;
+    const step = this.steps[i];
+    const local = t - step.start;
+    step.pattern(bulb, local, step.speed, step.palette, out);
+
+    const blend = Math.min(CONFIG.garlands.blendSeconds, step.seconds / 2);
+    const remaining = step.seconds - local;
+    if (this.steps.length < 2 || remaining >= blend) return;
+
+    // Fading into the next step (which starts its own clock at 0)
+    const next = this.steps[(i + 1) % this.steps.length];
+    next.pattern(bulb, 0, next.speed, next.palette, this.scratch);
+    const k = 1 - remaining / blend;
+    for (let c = 0; c < 3; c++) out[c] += (this.scratch[c] - out[c]) * k;
+  }
+}
+
+// --- Presets and persistence ---
+
+export const CUSTOM_SHOW_ID = 'custom';
+
+export const LIGHT_SHOW_PRESETS: { id: string; label: string; source: string }[] = [
+  {
+    id: 'classic',
+    label: 'Classic Show',
+    source: 'steady 6s\ntwinkle 8s\nchase 8s speed=1.5\nfade 9s\nalternate 6s\nrainbow 10s speed=0.8',
+  },
+  ...LIGHT_PATTERNS.map(({ id, label }) => ({ id, label, source: `${id} 60s` })),
+];
+
+export const DEFAULT_CUSTOM_SHOW = '# One step per line: pattern, seconds, then speed= / colors=\nchase 6s speed=2 colors=#ff2e2e,#ffffff\ntwinkle 6s\nrainbow 8s';
+
+export interface LightSettings {
+  enabled: boolean;
+  showId: string;
+  customSource: string;
+}
+
+// The steps the settings call for. A stored custom show that no longer parses falls back to the classic one.
+export const resolveLightShow = (settings: LightSettings): LightStep[] => {
+  const preset = LIGHT_SHOW_PRESETS.find((p) => p.id === settings.showId);
+  if (preset) return parseLightShow(preset.source);
+  try {
+    return parseLightShow(settings.customSource);
+  } catch {
+    return parseLightShow(LIGHT_SHOW_PRESETS[0].source);
+  }
+};
+
+const LIGHTS_KEY = 'luxury-tree:lights';
+
+export const loadLightSettings = (): LightSettings => {
+  const defaults: LightSettings = { enabled: true, showId: 'classic', customSource: DEFAULT_CUSTOM_SHOW };
+  try {
+    const raw = JSON.parse(localStorage.getItem(LIGHTS_KEY) ?? 'null');
+    if (!raw || typeof raw !== 'object') return defaults;
+    return {
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : defaults.enabled,
+      showId: raw.showId === CUSTOM_SHOW_ID || LIGHT_SHOW_PRESETS.some((p) => p.id === raw.showId) ? raw.showId : defaults.showId,
+      customSource: typeof raw.customSource === 'string' ? raw.customSource : defaults.customSource,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveLightSettings = (settings: LightSettings) => {
+  try {
+    localStorage.setItem(LIGHTS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled - the settings just won't persist
+  }
+};
@@ -0,0 +1,119 @@
+// The bundled track: a music-box "Jingle Bells" synthesized with WebAudio, so no audio file ships.
+
+const NOTE_FREQ: Record<string, number> = {
+  G2: 98.0, C3: 130.81, D3: 146.83, F3: 174.61, G3: 196.0,
+  C5: 523.25, D5: 587.33, E5: 659.25, F5: 698.46, G5: 783.99,
+  C6: 1046.5, E6: 1318.51, G6: 1567.98,
+};
+
+// [note, beats]
+const MELODY: [string, number][] = [
+  ['E5', 1], ['E5', 1], ['E5', 2], ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['G5', 1], ['C5', 1.5], ['D5', 0.5], ['E5', 4],
+  ['F5', 1], ['F5', 1], ['F5', 1.5], ['F5', 0.5], ['F5', 1], ['E5', 1], ['E5', 1], ['E5', 0.5], ['E5', 0.5],
+  ['E5', 1], ['D5', 1], ['D5', 1], ['E5', 1], ['D5', 2], ['G5', 2],
+  ['E5', 1], ['E5', 1], ['E5', 2], ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['G5', 1], ['C5', 1.5], ['D5', 0.5], ['E5', 4],
+  ['F5', 1], ['F5', 1], ['F5', 1.5], ['F5', 0.5], ['F5', 1], ['E5', 1], ['E5', 1], ['E5', 0.5], ['E5', 0.5],
+  ['G5', 1], ['G5', 1], ['F5', 1], ['D5', 1], ['C5', 4],
+];
+
+// One root per bar, played on beats 1 and 3
+const BASS = ['C3', 'C3', 'C3', 'C3', 'F3', 'C3', 'G3', 'G2', 'C3', 'C3', 'C3', 'C3', 'F3', 'C3', 'G2', 'C3'];
+
+const BEAT = 0.5; // seconds (120 bpm)
+const LOOP_BEATS = 64;
+const LOOKAHEAD = 0.4; // seconds scheduled ahead
+const TICK_MS = 100;
+
+interface ScheduledNote {
+  beat: number;
+  freq: number;
+  duration: number;
+  bass: boolean;
+}
+
+const NOTES: ScheduledNote[] = (() => {
+  const notes: ScheduledNote[] = [];
+  let beat = 0;
+  MELODY.forEach(([note, beats]) => {
+    notes.push({ beat, freq: NOTE_FREQ[note], duration: 1.4, bass: false });
+    beat += beats;
+  });
+  BASS.forEach((note, bar) => {
+    notes.push({ beat: bar * 4, freq: NOTE_FREQ[note], duration: 0.9, bass: true });
+    notes.push({ beat: bar * 4 + 2, freq: NOTE_FREQ[note], duration: 0.9, bass: true });
+  });
+  return notes.sort((a, b) => a.beat - b.beat);
+})();
+
+const playNote = (ctx: AudioContext, output: AudioNode, note: ScheduledNote, when: number) => {
+  const env = ctx.createGain();
+  const peak = note.bass ? 0.5 : 0.22;
+  env.gain.setValueAtTime(0.0001, when);
+  env.gain.exponentialRampToValueAtTime(peak, when + 0.01);
+  env.gain.exponentialRampToValueAtTime(0.0001, when + note.duration);
+  env.connect(output);
+
+  // Music-box tine: a triangle plus a quiet octave partial; bass is a plain sine
+  const partials = note.bass ? [[1, 'sine', 1]] as const : [[1, 'triangle', 1], [2, 'sine', 0.3]] as const;
+  partials.forEach(([multiple, type, level]) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = note.freq * multiple;
+    gain.gain.value = level;
+    osc.connect(gain).connect(env);
+    osc.start(when);
+    osc.stop(when + note.duration + 0.05);
+  });
+};
+
+// A quick rising arpeggio on the same tines, to mark a formation settling into place
+export const playChime = (ctx: AudioContext, output: AudioNode) => {
+  const when = ctx.currentTime + 0.02;
+  ['C6', 'E6', 'G6'].forEach((note, i) => {
+    playNote(ctx, output, { beat: 0, freq: NOTE_FREQ[note], duration: 1.2, bass: false }, when + i * 0.08);
+  });
+};
+
+export class MusicBox {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private loopStart = 0;
+  private nextIndex = 0;
+
+  constructor(private ctx: AudioContext, private output: AudioNode) {}
+
+  get isPlaying() {
+    return this.timer !== null;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.loopStart = this.ctx.currentTime + 0.05;
+    this.nextIndex = 0;
+    this.schedule();
+    this.timer = setInterval(() => this.schedule(), TICK_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private schedule() {
+    const horizon = this.ctx.currentTime + LOOKAHEAD;
+    for (;;) {
+      if (this.nextIndex >= NOTES.length) {
+        this.nextIndex = 0;
+        this.loopStart += LOOP_BEATS * BEAT;
+      }
+      const note = NOTES[this.nextIndex];
+      const when = this.loopStart + note.beat * BEAT;
+      if (when > horizon) return;
+      // Notes that fell behind (e.g. background tab) are skipped rather than played in a burst
+      if (when >= this.ctx.currentTime) playNote(this.ctx, this.output, note, when);
+      this.nextIndex++;
+    }
+  }
+}
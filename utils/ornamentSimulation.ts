@@ -0,0 +1,397 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { CONFIG } from '../types';
+import { EASINGS, TRACK_GLSL, Transition, createTrackUniforms, heightTier, setTrackUniforms, timelineNow } from './timeline';
+
+// Ornament physics on the GPU: position, velocity and rotation of every ornament live in float
+// textures (one texel each) that ping-pong every frame. The instanced meshes read their pose straight
+// from those textures, so nothing per ornament runs on the CPU after setup. GPUs that can't render
+// into float (or half float) textures get the same physics on the CPU, filling the same textures.
+
+type Vec3 = [number, number, number];
+
+// Starting state and spring settings of one ornament
+export interface SimulatedOrnament {
+  position: Vec3;
+  rotation: Vec3;
+  rotVelocity: Vec3;
+  springK: number; // stiffness / mass
+  damping: number;
+  noise: number;
+  phase: number;
+}
+
+// What the ornament materials read. The same objects for the scene's whole life, so materials
+// compiled once keep working when the simulation is rebuilt (new seed, new counts).
+export interface OrnamentSimUniforms {
+  tSimPosition: THREE.IUniform<THREE.Texture | null>;
+  tSimRotation: THREE.IUniform<THREE.Texture | null>;
+  uSimSize: THREE.IUniform<number>;
+  uTime: THREE.IUniform<number>;
+  uWobble: THREE.IUniform<number>;
+}
+
+export const createOrnamentSimUniforms = (): OrnamentSimUniforms => ({
+  tSimPosition: { value: null },
+  tSimRotation: { value: null },
+  uSimSize: { value: 1 },
+  uTime: { value: 0 },
+  uWobble: { value: 0 },
+});
+
+// --- Simulation shaders ---
+
+// Shared by the velocity and position passes: the position pass re-derives this frame's velocity
+// (both passes only see last frame's textures), so it integrates exactly like the CPU version did.
+const INTEGRATE_GLSL = `
+  uniform sampler2D tAnchor;
+  uniform sampler2D tFrom;
+  uniform sampler2D tParams;
+  uniform float uTime;
+  uniform float uChaos;
+  ${TRACK_GLSL}
+
+  vec3 integrateVelocity(vec2 uv) {
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    vec4 params = texture2D(tParams, uv); // springK, damping, noise, phase
+    vec3 anchor = texture2D(tAnchor, uv).xyz;
+
+    // The spring's anchor slides from the pick-up point to the formation, higher tiers later
+    float tier = clamp(anchor.y / ${CONFIG.treeHeight.toFixed(1)}, 0.0, 1.0);
+    vec3 dest = mix(texture2D(tFrom, uv).xyz, anchor, trackProgress(tier));
+    velocity += (dest - position) * params.x;
+
+    // Chaos noise
+    if (uChaos > 0.5) {
+      float phase = params.w;
+      velocity += vec3(sin(uTime * 0.5 + phase), cos(uTime * 0.3 + phase * 2.0), sin(uTime * 0.7 + phase * 0.5)) * params.z;
+    }
+
+    return velocity * params.y;
+  }
+`;
+
+const VELOCITY_SHADER = `
+  ${INTEGRATE_GLSL}
+
+  void main() {
+    gl_FragColor = vec4(integrateVelocity(gl_FragCoord.xy / resolution.xy), 1.0);
+  }
+`;
+
+const POSITION_SHADER = `
+  uniform float uStep;
+  ${INTEGRATE_GLSL}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    gl_FragColor = vec4(texture2D(texturePosition, uv).xyz + integrateVelocity(uv) * uStep, 1.0);
+  }
+`;
+
+// Tumble in chaos, a slow turn about Y once assembled (per frame, like the original)
+const ROTATION_SHADER = `
+  uniform sampler2D tSpin;
+  uniform float uChaos;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 spin = uChaos > 0.5 ? texture2D(tSpin, uv).xyz : vec3(0.0, 0.01, 0.0);
+    gl_FragColor = vec4(mod(texture2D(textureRotation, uv).xyz + spin, 6.28318530718), 1.0);
+  }
+`;
+
+export class OrnamentSimulation {
+  readonly size: number;
+  private gpu: GPUComputationRenderer;
+  private position: Variable;
+  private rotation: Variable;
+  private from: THREE.WebGLRenderTarget;
+  private anchors: THREE.DataTexture;
+  private textures: THREE.DataTexture[];
+  private uniforms = {
+    tAnchor: { value: null as THREE.Texture | null },
+    tFrom: { value: null as THREE.Texture | null },
+    tParams: { value: null as THREE.Texture | null },
+    tSpin: { value: null as THREE.Texture | null },
+    uTime: { value: 0 },
+    uChaos: { value: 0 },
+    uStep: { value: 1 },
+    ...createTrackUniforms(),
+  };
+  private transition: Transition | null = null;
+
+  constructor(renderer: THREE.WebGLRenderer, ornaments: SimulatedOrnament[], dataType: THREE.TextureDataType = THREE.FloatType) {
+    this.size = Math.max(1, Math.ceil(Math.sqrt(ornaments.length)));
+    const gpu = new GPUComputationRenderer(this.size, this.size, renderer);
+    gpu.setDataType(dataType);
+
+    const fill = (texture: THREE.DataTexture, write: (ornament: SimulatedOrnament) => number[]) => {
+      const data = texture.image.data as Float32Array;
+      ornaments.forEach((ornament, i) => data.set(write(ornament), i * 4));
+      return texture;
+    };
+    const position0 = fill(gpu.createTexture(), (o) => [...o.position, 1]);
+    const rotation0 = fill(gpu.createTexture(), (o) => [...o.rotation, 1]);
+    const params = fill(gpu.createTexture(), (o) => [o.springK, o.damping, o.noise, o.phase]);
+    const spin = fill(gpu.createTexture(), (o) => [...o.rotVelocity, 0]);
+    this.anchors = fill(gpu.createTexture(), (o) => [...o.position, 1]);
+    this.textures = [params, spin, this.anchors];
+
+    this.position = gpu.addVariable('texturePosition', POSITION_SHADER, position0);
+    const velocity = gpu.addVariable('textureVelocity', VELOCITY_SHADER, gpu.createTexture());
+    this.rotation = gpu.addVariable('textureRotation', ROTATION_SHADER, rotation0);
+    gpu.setVariableDependencies(this.position, [this.position, velocity]);
+    gpu.setVariableDependencies(velocity, [this.position, velocity]);
+    gpu.setVariableDependencies(this.rotation, [this.rotation]);
+
+    // Every pass reads the same uniform objects
+    [this.position, velocity, this.rotation].forEach((variable) => Object.assign(variable.material.uniforms, this.uniforms));
+
+    const error = gpu.init();
+    if (error) {
+      gpu.dispose();
+      this.textures.forEach((texture) => texture.dispose());
+      throw new Error(`Ornament simulation: ${error}`);
+    }
+
+    this.from = gpu.createRenderTarget(
+      this.size, this.size, THREE.ClampToEdgeWrapping, THREE.ClampToEdgeWrapping, THREE.NearestFilter, THREE.NearestFilter
+    );
+    gpu.renderTexture(position0, this.from);
+    this.uniforms.tFrom.value = this.from.texture;
+    this.uniforms.tParams.value = params;
+    this.uniforms.tSpin.value = spin;
+    this.uniforms.tAnchor.value = this.anchors;
+    this.gpu = gpu;
+  }
+
+  // Anchors (x, y, z per ornament, in order) of the formation being shown
+  setAnchors(anchors: Float32Array) {
+    const data = this.anchors.image.data as Float32Array;
+    for (let i = 0; i < anchors.length / 3; i++) {
+      data[i * 4] = anchors[i * 3];
+      data[i * 4 + 1] = anchors[i * 3 + 1];
+      data[i * 4 + 2] = anchors[i * 3 + 2];
+    }
+    this.anchors.needsUpdate = true;
+  }
+
+  step(transition: Transition, isChaos: boolean, time: number, delta: number, output: OrnamentSimUniforms) {
+    // A new transition: every ornament sets off from wherever it is now
+    if (transition !== this.transition) {
+      this.transition = transition;
+      this.gpu.renderTexture(this.gpu.getCurrentRenderTarget(this.position).texture, this.from);
+      setTrackUniforms(this.uniforms, transition, 'ornaments');
+    }
+
+    this.uniforms.uElapsed.value = timelineNow() - transition.startTime;
+    this.uniforms.uTime.value = time;
+    this.uniforms.uChaos.value = isChaos ? 1 : 0;
+    this.uniforms.uStep.value = Math.min(delta, 0.1) * 60;
+    this.gpu.compute();
+
+    output.tSimPosition.value = this.gpu.getCurrentRenderTarget(this.position).texture;
+    output.tSimRotation.value = this.gpu.getCurrentRenderTarget(this.rotation).texture;
+    output.uSimSize.value = this.size;
+  }
+
+  dispose() {
+    this.gpu.dispose();
+    this.from.dispose();
+    this.textures.forEach((texture) => texture.dispose());
+  }
+}
+
+// --- Materials ---
+
+// Per-kind uniforms; also stable objects, their values change with the layout
+export interface OrnamentInstancing {
+  uniforms: {
+    uIndexOffset: THREE.IUniform<number>; // first texel of this kind
+    uScaleBase: THREE.IUniform<number>;
+    uPointDown: THREE.IUniform<number>; // icicles hang straight down once assembled
+  };
+  // For the mesh's material; poses each instance from the simulation
+  onBeforeCompile: (shader: THREE.WebGLProgramParametersWithUniforms) => void;
+  // Shadow pass with the same poses
+  depthMaterial: THREE.MeshDepthMaterial;
+}
+
+const INSTANCE_HEADER = `
+  uniform sampler2D tSimPosition;
+  uniform sampler2D tSimRotation;
+  uniform float uSimSize;
+  uniform float uTime;
+  uniform float uWobble;
+  uniform float uIndexOffset;
+  uniform float uScaleBase;
+  uniform float uPointDown;
+
+  // Same matrix as THREE.Euler's default XYZ order
+  mat3 eulerXYZ(vec3 r) {
+    float a = cos(r.x), b = sin(r.x), c = cos(r.y), d = sin(r.y), e = cos(r.z), f = sin(r.z);
+    return mat3(
+      c * e, a * f + b * e * d, b * f - a * e * d,
+      -c * f, a * e - b * f * d, b * e + a * f * d,
+      d, -b * c, a * c
+    );
+  }
+
+  vec2 simUv() {
+    float index = uIndexOffset + float(gl_InstanceID);
+    return (vec2(mod(index, uSimSize), floor(index / uSimSize)) + 0.5) / uSimSize;
+  }
+
+  mat3 simRotation() {
+    return eulerXYZ(uPointDown > 0.5 ? vec3(3.14159265, 0.0, 0.0) : texture2D(tSimRotation, simUv()).xyz);
+  }
+`;
+
+const INSTANCE_TRANSFORM = `
+  #include <begin_vertex>
+  transformed = simRotation() * (transformed * (uScaleBase + sin(uTime + float(gl_InstanceID)) * uWobble))
+    + texture2D(tSimPosition, simUv()).xyz;
+`;
+
+export const createOrnamentInstancing = (shared: OrnamentSimUniforms, scaleBase: number): OrnamentInstancing => {
+  const uniforms = {
+    uIndexOffset: { value: 0 },
+    uScaleBase: { value: scaleBase },
+    uPointDown: { value: 0 },
+  };
+
+  const patch = (shader: THREE.WebGLProgramParametersWithUniforms, withNormals: boolean) => {
+    Object.assign(shader.uniforms, shared, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${INSTANCE_HEADER}`)
+      .replace('#include <begin_vertex>', INSTANCE_TRANSFORM);
+    if (withNormals) {
+      shader.vertexShader = shader.vertexShader.replace(
+        '#include <beginnormal_vertex>',
+        '#include <beginnormal_vertex>\nobjectNormal = simRotation() * objectNormal;'
+      );
+    }
+  };
+
+  const depthMaterial = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+  depthMaterial.onBeforeCompile = (shader) => patch(shader, false);
+
+  return { uniforms, onBeforeCompile: (shader) => patch(shader, true), depthMaterial };
+};
+
+// Chaos noise of the ornament being stepped (reused, so a frame allocates nothing)
+const chaos = new Float32Array(3);
+
+// The same physics, integrated on the CPU into the textures the ornament materials read
+export class CpuOrnamentSimulation {
+  readonly size: number;
+  private ornaments: SimulatedOrnament[];
+  private positionTexture: THREE.DataTexture;
+  private rotationTexture: THREE.DataTexture;
+  private velocity: Float32Array;
+  private from: Float32Array;
+  private anchors: Float32Array;
+  private transition: Transition | null = null;
+  // The ornaments track's window (as in setTrackUniforms), worked out once per transition
+  private track = { start: 0, stagger: 0, length: 1, ease: EASINGS.linear };
+
+  constructor(ornaments: SimulatedOrnament[]) {
+    this.size = Math.max(1, Math.ceil(Math.sqrt(ornaments.length)));
+    this.ornaments = ornaments;
+
+    const texture = (write: (ornament: SimulatedOrnament) => number[]) => {
+      const data = new Float32Array(this.size * this.size * 4);
+      ornaments.forEach((ornament, i) => data.set(write(ornament), i * 4));
+      const result = new THREE.DataTexture(data, this.size, this.size, THREE.RGBAFormat, THREE.FloatType);
+      result.needsUpdate = true;
+      return result;
+    };
+    this.positionTexture = texture((o) => [...o.position, 1]);
+    this.rotationTexture = texture((o) => [...o.rotation, 1]);
+
+    this.velocity = new Float32Array(ornaments.length * 3);
+    this.from = new Float32Array(ornaments.flatMap((o) => o.position));
+    this.anchors = this.from.slice();
+  }
+
+  setAnchors(anchors: Float32Array) {
+    this.anchors.set(anchors.subarray(0, this.anchors.length));
+  }
+
+  step(transition: Transition, isChaos: boolean, time: number, delta: number, output: OrnamentSimUniforms) {
+    const position = this.positionTexture.image.data as Float32Array;
+    const rotation = this.rotationTexture.image.data as Float32Array;
+
+    const count = this.ornaments.length;
+
+    // A new transition: every ornament sets off from wherever it is now
+    if (transition !== this.transition) {
+      this.transition = transition;
+      const base = transition.window('ornaments', 0);
+      this.track = {
+        start: transition.startTime + base.start,
+        stagger: transition.window('ornaments', 1).start - base.start,
+        length: base.length,
+        ease: EASINGS[base.easing],
+      };
+      for (let i = 0; i < count; i++) {
+        for (let axis = 0; axis < 3; axis++) this.from[i * 3 + axis] = position[i * 4 + axis];
+      }
+    }
+
+    const now = timelineNow();
+    const step = Math.min(delta, 0.1) * 60;
+    const { start, stagger, length, ease } = this.track;
+    for (let i = 0; i < count; i++) {
+      const { springK, damping, noise, phase, rotVelocity } = this.ornaments[i];
+      const tier = heightTier(this.anchors[i * 3 + 1]);
+      const progress = ease(THREE.MathUtils.clamp((now - start - stagger * tier) / length, 0, 1));
+      chaos[0] = isChaos ? Math.sin(time * 0.5 + phase) : 0;
+      chaos[1] = isChaos ? Math.cos(time * 0.3 + phase * 2) : 0;
+      chaos[2] = isChaos ? Math.sin(time * 0.7 + phase * 0.5) : 0;
+      for (let axis = 0; axis < 3; axis++) {
+        const dest = THREE.MathUtils.lerp(this.from[i * 3 + axis], this.anchors[i * 3 + axis], progress);
+        const v = (this.velocity[i * 3 + axis] + (dest - position[i * 4 + axis]) * springK + chaos[axis] * noise) * damping;
+        this.velocity[i * 3 + axis] = v;
+        position[i * 4 + axis] += v * step;
+
+        // Tumble in chaos, a slow turn about Y once assembled
+        const spin = isChaos ? rotVelocity[axis] : axis === 1 ? 0.01 : 0;
+        rotation[i * 4 + axis] = THREE.MathUtils.euclideanModulo(rotation[i * 4 + axis] + spin, Math.PI * 2);
+      }
+    }
+    this.positionTexture.needsUpdate = true;
+    this.rotationTexture.needsUpdate = true;
+
+    output.tSimPosition.value = this.positionTexture;
+    output.tSimRotation.value = this.rotationTexture;
+    output.uSimSize.value = this.size;
+  }
+
+  dispose() {
+    this.positionTexture.dispose();
+    this.rotationTexture.dispose();
+  }
+}
+
+export type OrnamentSimulator = OrnamentSimulation | CpuOrnamentSimulation;
+
+// The simulation this GPU can run: full float render targets, then half float, then the CPU
+export const createOrnamentSimulation = (renderer: THREE.WebGLRenderer, ornaments: SimulatedOrnament[]): OrnamentSimulator => {
+  const { extensions } = renderer;
+  const dataType = extensions.has('EXT_color_buffer_float')
+    ? THREE.FloatType
+    : extensions.has('EXT_color_buffer_half_float')
+      ? THREE.HalfFloatType
+      : null;
+  if (dataType !== null) {
+    try {
+      return new OrnamentSimulation(renderer, ornaments, dataType);
+    } catch (error) {
+      console.warn('Falling back to CPU ornament physics:', error);
+    }
+  }
+  return new CpuOrnamentSimulation(ornaments);
+};
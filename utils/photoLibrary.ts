@@ -0,0 +1,149 @@
+import { PhotoMetaPatch, PhotoRecord } from '../types';
+import { createId } from './random';
+
+// Local photo library persisted in IndexedDB.
+// Falls back to an in-memory store when IndexedDB is unavailable (private browsing, old Safari),
+// so uploads still work for the session.
+
+const DB_NAME = 'luxury-tree';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+interface PhotoStore {
+  getAll: () => Promise<PhotoRecord[]>;
+  // Applies all writes atomically where the backend supports it
+  write: (ops: { clear?: boolean; put?: PhotoRecord[]; remove?: string[] }) => Promise<void>;
+}
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const createIndexedDbStore = (db: IDBDatabase): PhotoStore => ({
+  getAll: () => promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<PhotoRecord[]>),
+  write: ({ clear, put = [], remove = [] }) =>
+    new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      if (clear) store.clear();
+      remove.forEach((id) => store.delete(id));
+      put.forEach((record) => store.put(record));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('Photo library transaction aborted'));
+    }),
+});
+
+const createMemoryStore = (): PhotoStore => {
+  const records = new Map<string, PhotoRecord>();
+  return {
+    getAll: async () => Array.from(records.values()),
+    write: async ({ clear, put = [], remove = [] }) => {
+      if (clear) records.clear();
+      remove.forEach((id) => records.delete(id));
+      put.forEach((record) => records.set(record.id, record));
+    },
+  };
+};
+
+let storePromise: Promise<PhotoStore> | null = null;
+
+const getStore = () => {
+  if (!storePromise) {
+    storePromise = openDatabase()
+      .then(createIndexedDbStore)
+      .catch((error) => {
+        console.warn('Photo library will not persist across reloads:', error);
+        return createMemoryStore();
+      });
+  }
+  return storePromise;
+};
+
+const byOrder = (a: PhotoRecord, b: PhotoRecord) => a.order - b.order || a.addedAt - b.addedAt;
+
+// --- Public API (every mutation resolves with the updated, ordered library) ---
+
+export const loadPhotoLibrary = async (): Promise<PhotoRecord[]> => {
+  const store = await getStore();
+  return (await store.getAll()).sort(byOrder);
+};
+
+export type PhotoImportMode = 'add' | 'replace';
+
+// An upload plus its preprocessed versions, when preprocessing was possible
+export interface ImportedPhoto {
+  file: File;
+  texture?: Blob;
+  thumbnail?: Blob;
+}
+
+export const importPhotos = async (items: ImportedPhoto[], mode: PhotoImportMode): Promise<PhotoRecord[]> => {
+  const store = await getStore();
+  const existing = mode === 'replace' ? [] : (await store.getAll()).sort(byOrder);
+  const firstOrder = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0;
+  const now = Date.now();
+
+  const added: PhotoRecord[] = items.map(({ file, texture, thumbnail }, i) => ({
+    id: createId(),
+    blob: file,
+    textureBlob: texture,
+    thumbnailBlob: thumbnail,
+    name: file.name,
+    order: firstOrder + i,
+    caption: '',
+    addedAt: now,
+  }));
+
+  await store.write({ clear: mode === 'replace', put: added });
+  return [...existing, ...added];
+};
+
+export const deletePhoto = async (id: string): Promise<PhotoRecord[]> => {
+  const store = await getStore();
+  await store.write({ remove: [id] });
+  return loadPhotoLibrary();
+};
+
+// Persists a new order; ids missing from the list keep their relative order after the listed ones
+export const reorderPhotos = async (orderedIds: string[]): Promise<PhotoRecord[]> => {
+  const store = await getStore();
+  const records = (await store.getAll()).sort(byOrder);
+  const rank = new Map(orderedIds.map((id, i) => [id, i]));
+  const reordered = [...records]
+    .sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity))
+    .map((record, i) => ({ ...record, order: i }));
+
+  await store.write({ put: reordered });
+  return reordered;
+};
+
+export const updatePhoto = async (
+  id: string,
+  patch: PhotoMetaPatch
+): Promise<PhotoRecord[]> => {
+  const store = await getStore();
+  const records = await store.getAll();
+  const record = records.find((r) => r.id === id);
+  if (record) await store.write({ put: [{ ...record, ...patch }] });
+  return loadPhotoLibrary();
+};
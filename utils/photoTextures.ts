@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { CONFIG } from '../types';
+
+// Photo textures, loaded once and shared by every frame showing the same photo. The slideshow
+// loads the next step ahead of time, and a frame only changes picture once the new one is ready.
+
+const loader = new THREE.TextureLoader();
+// Oldest first; a hit moves the entry to the end
+const cache = new Map<string, Promise<THREE.Texture>>();
+const loaded = new Map<string, THREE.Texture>();
+// How many frames show (or are about to show) each photo. Those are never evicted, so a big library
+// can't dispose a texture on screen and have it uploaded again on the next draw.
+const users = new Map<string, number>();
+
+const evict = () => {
+  let excess = cache.size - CONFIG.slideshow.textureCacheSize;
+  for (const [url, promise] of cache) {
+    if (excess <= 0) break;
+    if (users.has(url)) continue;
+    cache.delete(url);
+    loaded.delete(url);
+    promise.then((texture) => texture.dispose(), () => {});
+    excess--;
+  }
+};
+
+// Keeps the photo's texture cached until the returned release is called
+export const retainPhotoTexture = (url: string) => {
+  users.set(url, (users.get(url) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (users.get(url) ?? 1) - 1;
+    if (count > 0) users.set(url, count);
+    else users.delete(url);
+    evict();
+  };
+};
+
+export const loadPhotoTexture = (url: string): Promise<THREE.Texture> => {
+  const cached = cache.get(url);
+  if (cached) {
+    cache.delete(url);
+    cache.set(url, cached);
+    return cached;
+  }
+
+  const promise = loader.loadAsync(url).then((texture) => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.minFilter = THREE.LinearFilter;
+    texture.generateMipmaps = false;
+    loaded.set(url, texture);
+    return texture;
+  });
+  // Failures aren't kept, so the photo is retried next time it comes round
+  promise.catch(() => {
+    if (cache.get(url) === promise) cache.delete(url);
+  });
+  cache.set(url, promise);
+  evict();
+  return promise;
+};
+
+// Starts loading without waiting on (or failing with) the result
+export const preloadPhotoTexture = (url: string) => {
+  loadPhotoTexture(url).catch(() => {});
+};
+
+// The texture if it's already loaded, so a remounted frame can show it straight away
+export const getLoadedPhotoTexture = (url: string) => loaded.get(url) ?? null;
@@ -0,0 +1,181 @@
+import { CONFIG, QualityPreset, QualitySetting, QualityTier } from '../types';
+
+// Rendering quality: fixed presets plus an automatic governor that steps between them
+// based on the frame rate actually measured.
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra', 'max'];
+
+export const QUALITY_PRESETS: Record<QualityTier, QualityPreset> = {
+  low: {
+    label: 'Low',
+    particleCount: 3000,
+    ornamentScale: 0.5,
+    snowCount: 600,
+    stars: 1500,
+    dpr: [1, 1],
+    shadows: false,
+    contactShadowResolution: 0,
+    postprocessing: 'none',
+    multisampling: 0,
+    physicalMaterials: false,
+    sphereSegments: 12,
+  },
+  medium: {
+    label: 'Medium',
+    particleCount: 5000,
+    ornamentScale: 0.75,
+    snowCount: 1000,
+    stars: 3000,
+    dpr: [1, 1.5],
+    shadows: false,
+    contactShadowResolution: 128,
+    postprocessing: 'bloom',
+    multisampling: 0,
+    physicalMaterials: false,
+    sphereSegments: 20,
+  },
+  // The original look
+  high: {
+    label: 'High',
+    particleCount: CONFIG.particleCount,
+    ornamentScale: 1,
+    snowCount: 1500,
+    stars: 5000,
+    dpr: [1, 2],
+    shadows: true,
+    contactShadowResolution: 256,
+    postprocessing: 'full',
+    multisampling: 8,
+    physicalMaterials: true,
+    sphereSegments: 32,
+  },
+  ultra: {
+    label: 'Ultra',
+    particleCount: 12000,
+    ornamentScale: 1,
+    snowCount: 2500,
+    stars: 8000,
+    dpr: [1.5, 2],
+    shadows: true,
+    contactShadowResolution: 512,
+    postprocessing: 'full',
+    multisampling: 8,
+    physicalMaterials: true,
+    sphereSegments: 48,
+  },
+  // Tens of thousands of (smaller) ornaments, for machines with GPU to spare. Only picked by hand.
+  max: {
+    label: 'Max',
+    particleCount: 12000,
+    ornamentScale: 60,
+    snowCount: 2500,
+    stars: 8000,
+    dpr: [1.5, 2],
+    shadows: true,
+    contactShadowResolution: 512,
+    postprocessing: 'full',
+    multisampling: 8,
+    physicalMaterials: true,
+    sphereSegments: 16,
+  },
+};
+
+// The highest tier Auto climbs to
+const AUTO_CEILING = QUALITY_TIERS.indexOf('ultra');
+
+export const isQualitySetting = (value: unknown): value is QualitySetting =>
+  value === 'auto' || QUALITY_TIERS.includes(value as QualityTier);
+
+// Touch devices start lower; the governor climbs from there if the frame rate allows
+export const initialAutoTier = (): QualityTier =>
+  typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches ? 'medium' : 'high';
+
+// --- Auto governor ---
+
+const WINDOW = 2; // seconds of frames per measurement
+const DOWN_FPS = 45; // below this, a window counts against the tier
+const UP_FPS = 57; // above this, a window counts toward the next tier
+const DOWN_WINDOWS = 2; // consecutive slow windows before stepping down
+const UP_WINDOWS = 4; // consecutive fast windows before stepping up (climbing is more cautious)
+const SETTLE = 3; // seconds ignored after a change (layouts rebuild, shaders compile)
+const MAX_DELTA = 0.25; // longer frames are a hidden tab or a hitch, not the steady rate
+
+/**
+ * Steps the tier down when frames run slow and back up when they run fast. The gap between the two
+ * thresholds, the window counts and the settle time keep it from flickering between tiers; a tier
+ * that had to be left right after climbing into it becomes the ceiling.
+ */
+export class QualityGovernor {
+  private elapsed = 0;
+  private frames = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private settle = SETTLE;
+  private ceiling = AUTO_CEILING;
+  private lastStep: 'up' | 'down' | null = null;
+
+  constructor(private tier: QualityTier) {}
+
+  get current() {
+    return this.tier;
+  }
+
+  // Feeds one frame; returns the new tier when it changes
+  sample(delta: number): QualityTier | null {
+    if (delta > MAX_DELTA) return null;
+    if (this.settle > 0) {
+      this.settle -= delta;
+      return null;
+    }
+
+    this.elapsed += delta;
+    this.frames++;
+    if (this.elapsed < WINDOW) return null;
+
+    const fps = this.frames / this.elapsed;
+    this.elapsed = 0;
+    this.frames = 0;
+    this.slowWindows = fps < DOWN_FPS ? this.slowWindows + 1 : 0;
+    this.fastWindows = fps > UP_FPS ? this.fastWindows + 1 : 0;
+
+    const index = QUALITY_TIERS.indexOf(this.tier);
+    if (this.slowWindows >= DOWN_WINDOWS && index > 0) {
+      if (this.lastStep === 'up') this.ceiling = index - 1;
+      return this.step(index - 1, 'down');
+    }
+    if (this.fastWindows >= UP_WINDOWS && index < this.ceiling) {
+      return this.step(index + 1, 'up');
+    }
+    return null;
+  }
+
+  private step(index: number, direction: 'up' | 'down') {
+    this.tier = QUALITY_TIERS[index];
+    this.lastStep = direction;
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+    this.settle = SETTLE;
+    return this.tier;
+  }
+}
+
+// --- Persistence (the setting is per device, so it stays out of shared links) ---
+
+const QUALITY_KEY = 'luxury-tree:quality';
+
+export const loadQualitySetting = (): QualitySetting => {
+  try {
+    const saved = localStorage.getItem(QUALITY_KEY);
+    return isQualitySetting(saved) ? saved : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+export const saveQualitySetting = (setting: QualitySetting) => {
+  try {
+    localStorage.setItem(QUALITY_KEY, setting);
+  } catch {
+    // Storage disabled - the setting just won't persist
+  }
+};
@@ -0,0 +1,37 @@
+// Seedable PRNG so every generated layout is reproducible from a single number.
+
+export type Rng = () => number;
+
+// FNV-1a over the salt, mixed with the seed. Gives each generator its own independent stream.
+const hashSeed = (seed: number, salt: string) => {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < salt.length; i++) {
+    h ^= salt.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h;
+};
+
+// mulberry32 - small, fast and good enough for visual layouts
+const mulberry32 = (a: number): Rng => () => {
+  a = (a + 0x6d2b79f5) >>> 0;
+  let t = a;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createRng = (seed: number, salt = ''): Rng => mulberry32(hashSeed(seed >>> 0, salt));
+
+export const MAX_SEED = 0xffffffff;
+
+export const normalizeSeed = (value: number) => (Number.isFinite(value) ? Math.abs(Math.floor(value)) % (MAX_SEED + 1) : 0);
+
+// Only used to roll a *new* seed; everything derived from it is deterministic
+export const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+// Unique ids for things the user creates (library photos, hand-placed ornaments)
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.floor(Math.random() * 1e9).toString(36)}`;
@@ -0,0 +1,370 @@
+import { CONFIG, CameraPose, CaptionStyle, LibraryPhoto, OrnamentKind, PlacedOrnament, ScenePhoto, SnowDensity, Theme, TreeState, WrappedGift } from '../types';
+import { MAX_CAPTION_LENGTH, isCaptionFontId } from './captions';
+import { ORNAMENT_KINDS, clampToTree } from './decorations';
+import { createId, normalizeSeed } from './random';
+import { DEFAULT_THEME, isPresetTheme, parseTheme } from './themes';
+import { MAX_MESSAGE_LENGTH } from './silhouette';
+import { parseGiftSurprise } from './gifts';
+import { SharedPhoto, isShareablePhotoUrl } from './sceneUrl';
+
+// A composed tree saved as a file (`.tree.json`). Unlike a share link it can hold the hand-placed
+// ornaments and references to local photos. Every document carries a version; older ones are
+// migrated forward step by step before they're validated.
+//
+// Version history:
+//   1 - the share-link scene (utils/sceneUrl.ts) as plain JSON, without a `version` field
+//   2 - nested tree / theme / snow sections, tree dimensions, hand-placed ornaments by type,
+//       local photo references
+//   3 - gift boxes with surprises in them
+
+export const SCENE_DOCUMENT_FORMAT = 'luxury-tree-scene';
+export const SCENE_DOCUMENT_VERSION = 3;
+export const SCENE_DOCUMENT_EXTENSION = '.tree.json';
+
+type Vec3 = [number, number, number];
+
+// A hand-placed ornament in a document; its kind is the list it's in
+export interface DocumentOrnament {
+  color: string;
+  position: Vec3;
+}
+
+// A remote photo (`url`) or one from the author's local library (`libraryId`, with its file name
+// so a missing one can be named). Local photos only resolve on a device that has them.
+export interface DocumentPhoto extends CaptionStyle {
+  url?: string;
+  libraryId?: string;
+  name?: string;
+  caption: string;
+}
+
+export interface SceneDocument {
+  format: typeof SCENE_DOCUMENT_FORMAT;
+  version: typeof SCENE_DOCUMENT_VERSION;
+  // Dimensions the ornament positions were placed against (CONFIG at the time)
+  tree: {
+    height: number;
+    radius: number;
+    seed: number;
+    formation: TreeState;
+    message?: string;
+  };
+  // Presets travel by id; user-defined themes in full
+  theme: { id: string; custom?: Theme };
+  ornaments: Record<OrnamentKind, DocumentOrnament[]>;
+  // Empty: whatever the loading device shows by default (its library, else the default photos)
+  photos: DocumentPhoto[];
+  photoOffset: number;
+  snow: { enabled: boolean; density: SnowDensity };
+  camera?: CameraPose;
+  // Surprises by generated box index; photo surprises may point into the author's library
+  gifts: WrappedGift[];
+}
+
+export class SceneDocumentError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `${problems.length} problems: ${problems.join('; ')}`);
+    this.name = 'SceneDocumentError';
+  }
+}
+
+// --- Writing ---
+
+export interface SceneDocumentInput {
+  seed: number;
+  formation: TreeState;
+  message?: string;
+  theme: Theme;
+  decorations: PlacedOrnament[];
+  photos: DocumentPhoto[];
+  photoOffset: number;
+  snowEnabled: boolean;
+  snowDensity: SnowDensity;
+  camera?: CameraPose;
+  gifts: WrappedGift[];
+}
+
+export const createSceneDocument = (input: SceneDocumentInput): SceneDocument => ({
+  format: SCENE_DOCUMENT_FORMAT,
+  version: SCENE_DOCUMENT_VERSION,
+  tree: {
+    height: CONFIG.treeHeight,
+    radius: CONFIG.treeRadius,
+    seed: input.seed,
+    formation: input.formation,
+    ...(input.message ? { message: input.message } : {}),
+  },
+  theme: isPresetTheme(input.theme.id) ? { id: input.theme.id } : { id: input.theme.id, custom: input.theme },
+  ornaments: Object.fromEntries(ORNAMENT_KINDS.map(({ id }) => [
+    id,
+    input.decorations.filter((o) => o.kind === id).map(({ color, position }) => ({ color, position })),
+  ])) as Record<OrnamentKind, DocumentOrnament[]>,
+  photos: input.photos,
+  photoOffset: input.photoOffset,
+  snow: { enabled: input.snowEnabled, density: input.snowDensity },
+  ...(input.camera ? { camera: input.camera } : {}),
+  gifts: input.gifts,
+});
+
+// Remote photos are saved by URL; library photos by id (the image itself stays on this device)
+export const toDocumentPhoto = ({ id, url, caption, captionFont, captionColor }: ScenePhoto, library: LibraryPhoto[]): DocumentPhoto => ({
+  ...(isShareablePhotoUrl(url) ? { url } : { libraryId: id, name: library.find((p) => p.id === id)?.name }),
+  caption,
+  ...(captionFont ? { captionFont } : {}),
+  ...(captionColor ? { captionColor } : {}),
+});
+
+export const serializeSceneDocument = (document: SceneDocument) => JSON.stringify(document, null, 2);
+
+export const sceneDocumentFileName = (date = new Date()) =>
+  `luxury-tree-${date.toISOString().slice(0, 10)}${SCENE_DOCUMENT_EXTENSION}`;
+
+// --- Migrations (each takes a document of version N to N + 1) ---
+
+type RawDocument = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const MIGRATIONS: Record<number, (raw: RawDocument) => RawDocument> = {
+  1: (raw) => ({
+    format: SCENE_DOCUMENT_FORMAT,
+    version: 2,
+    // Version 1 had no dimensions; it could only describe the tree as it was then
+    tree: {
+      height: CONFIG.treeHeight,
+      radius: CONFIG.treeRadius,
+      seed: raw.seed ?? CONFIG.seed,
+      // A custom formation without a message was an uploaded silhouette, which never travelled
+      formation: raw.treeState === TreeState.CUSTOM && !raw.message ? TreeState.FORMED : raw.treeState ?? TreeState.FORMED,
+      ...(raw.message !== undefined ? { message: raw.message } : {}),
+    },
+    theme: {
+      id: raw.themeId ?? (isObject(raw.customTheme) ? raw.customTheme.id : undefined) ?? DEFAULT_THEME.id,
+      ...(raw.customTheme !== undefined ? { custom: raw.customTheme } : {}),
+    },
+    ornaments: Object.fromEntries(ORNAMENT_KINDS.map(({ id }) => [id, []])),
+    // Links carried bare URLs for uncaptioned photos
+    photos: Array.isArray(raw.photos)
+      ? raw.photos.map((p: unknown) => (typeof p === 'string' ? { url: p, caption: '' } : { caption: '', ...(p as object) }))
+      : [],
+    photoOffset: raw.photoOffset ?? 0,
+    snow: { enabled: raw.snowEnabled ?? true, density: raw.snowDensity ?? 'normal' },
+    ...(raw.camera !== undefined ? { camera: raw.camera } : {}),
+  }),
+  2: (raw) => ({ ...raw, version: 3, gifts: [] }),
+};
+
+const documentVersion = (raw: RawDocument) => (raw.version === undefined && 'treeState' in raw ? 1 : raw.version);
+
+export const migrateSceneDocument = (raw: RawDocument): RawDocument => {
+  const saved = documentVersion(raw);
+  if (typeof saved !== 'number' || !Number.isInteger(saved) || saved < 1) {
+    throw new SceneDocumentError(['This file has no valid version number.']);
+  }
+  if (saved > SCENE_DOCUMENT_VERSION) {
+    throw new SceneDocumentError([
+      `This file was saved by a newer version of the app (format version ${saved}; this app reads up to ${SCENE_DOCUMENT_VERSION}).`,
+    ]);
+  }
+
+  let version = saved;
+  let migrated = raw;
+  while (version < SCENE_DOCUMENT_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+  }
+  return migrated;
+};
+
+// --- Validation ---
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isVec3 = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+const isHexColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-fA-F]{6}$/.test(v);
+const isSnowDensity = (v: unknown): v is SnowDensity => typeof v === 'string' && Object.hasOwn(CONFIG.snow.density, v);
+
+// Ornament positions are rescaled when the document's tree was a different size than this one
+const rescaleToTree = ([x, y, z]: Vec3, height: number, radius: number): Vec3 => {
+  const sy = CONFIG.treeHeight / height;
+  const sr = CONFIG.treeRadius / radius;
+  return clampToTree([x * sr, y * sy, z * sr]);
+};
+
+// A document that passed the checks below: the right shape, with values not yet normalized
+type CheckedDocument = Omit<SceneDocument, 'format' | 'version' | 'gifts'> & { gifts: { box: number; surprise: unknown }[] };
+
+// Checks a current-version document, collecting every problem (with where it is) rather than
+// stopping at the first one
+const validateSceneDocument = (raw: RawDocument): SceneDocument => {
+  const problems: string[] = [];
+  const check = (ok: boolean, problem: string) => {
+    if (!ok) problems.push(problem);
+    return ok;
+  };
+
+  check(raw.format === SCENE_DOCUMENT_FORMAT, `"format" should be "${SCENE_DOCUMENT_FORMAT}".`);
+
+  if (check(isObject(raw.tree), '"tree" is missing.')) {
+    const tree = raw.tree as Record<string, unknown>;
+    check(isFiniteNumber(tree.height) && tree.height > 0, '"tree.height" should be a positive number.');
+    check(isFiniteNumber(tree.radius) && tree.radius > 0, '"tree.radius" should be a positive number.');
+    check(isFiniteNumber(tree.seed), '"tree.seed" should be a number.');
+    check(Object.values(TreeState).includes(tree.formation as TreeState), `"tree.formation" should be one of ${Object.values(TreeState).join(', ')}.`);
+    if (tree.message !== undefined) {
+      check(typeof tree.message === 'string' && tree.message.length <= MAX_MESSAGE_LENGTH,
+        `"tree.message" should be text of at most ${MAX_MESSAGE_LENGTH} characters.`);
+    }
+    if (tree.formation === TreeState.CUSTOM) {
+      check(typeof tree.message === 'string' && tree.message.trim() !== '',
+        `"tree.formation" ${TreeState.CUSTOM} needs the "tree.message" it spells.`);
+    }
+  }
+
+  if (check(isObject(raw.theme), '"theme" is missing.')) {
+    const theme = raw.theme as Record<string, unknown>;
+    check(typeof theme.id === 'string' && theme.id !== '', '"theme.id" should be a theme name.');
+    if (theme.custom !== undefined) {
+      const custom = parseTheme(theme.custom);
+      check(custom !== null, '"theme.custom" is not a complete theme (every color must be #RRGGBB).');
+      if (custom) check(custom.id === theme.id, `"theme.id" should be the id of "theme.custom" ("${custom.id}").`);
+    } else if (typeof theme.id === 'string') {
+      check(isPresetTheme(theme.id), `"theme.id" "${theme.id}" is not a built-in theme, and the file doesn't include its colors.`);
+    }
+  }
+
+  if (check(isObject(raw.ornaments), '"ornaments" is missing.')) {
+    const ornaments = raw.ornaments as Record<string, unknown>;
+    let total = 0;
+    Object.keys(ornaments).forEach((kind) => {
+      check(ORNAMENT_KINDS.some((k) => k.id === kind), `"ornaments.${kind}" is not an ornament type (expected ${ORNAMENT_KINDS.map((k) => k.id).join(', ')}).`);
+    });
+    ORNAMENT_KINDS.forEach(({ id }) => {
+      if (!check(Array.isArray(ornaments[id] ?? []), `"ornaments.${id}" should be a list.`)) return;
+      const list = (ornaments[id] ?? []) as unknown[];
+      total += list.length;
+      list.forEach((o, i) => {
+        const at = `ornaments.${id}[${i}]`;
+        if (!check(isObject(o), `"${at}" should be an object.`)) return;
+        const ornament = o as Record<string, unknown>;
+        check(isHexColor(ornament.color), `"${at}.color" should be a #RRGGBB color.`);
+        check(isVec3(ornament.position), `"${at}.position" should be three numbers.`);
+      });
+    });
+    check(total <= CONFIG.decorating.maxPlaced, `The file has ${total} hand-placed ornaments; a tree holds at most ${CONFIG.decorating.maxPlaced}.`);
+  }
+
+  if (check(Array.isArray(raw.photos), '"photos" should be a list.')) {
+    (raw.photos as unknown[]).forEach((p, i) => {
+      const at = `photos[${i}]`;
+      if (!check(isObject(p), `"${at}" should be an object.`)) return;
+      const photo = p as Record<string, unknown>;
+      const hasUrl = typeof photo.url === 'string' && /^https?:\/\//i.test(photo.url);
+      check(hasUrl || (typeof photo.libraryId === 'string' && photo.libraryId !== ''),
+        `"${at}" needs either an http(s) "url" or a "libraryId".`);
+      check(photo.caption === undefined || typeof photo.caption === 'string', `"${at}.caption" should be text.`);
+      check(photo.captionFont === undefined || isCaptionFontId(photo.captionFont), `"${at}.captionFont" is not a known caption font.`);
+      check(photo.captionColor === undefined || isHexColor(photo.captionColor), `"${at}.captionColor" should be a #RRGGBB color.`);
+    });
+  }
+
+  check(isFiniteNumber(raw.photoOffset) && raw.photoOffset >= 0, '"photoOffset" should be a number of at least 0.');
+
+  if (check(isObject(raw.snow), '"snow" is missing.')) {
+    const snow = raw.snow as Record<string, unknown>;
+    check(typeof snow.enabled === 'boolean', '"snow.enabled" should be true or false.');
+    check(isSnowDensity(snow.density), `"snow.density" should be one of ${Object.keys(CONFIG.snow.density).join(', ')}.`);
+  }
+
+  if (raw.camera !== undefined) {
+    const camera = raw.camera;
+    check(isObject(camera) && isVec3(camera.position) && isVec3(camera.target),
+      '"camera" should have a "position" and a "target" of three numbers each.');
+  }
+
+  if (check(Array.isArray(raw.gifts), '"gifts" should be a list.')) {
+    const gifts = raw.gifts as unknown[];
+    const boxes = new Set<number>();
+    gifts.forEach((g, i) => {
+      const at = `gifts[${i}]`;
+      if (!check(isObject(g), `"${at}" should be an object.`)) return;
+      const gift = g as Record<string, unknown>;
+      if (check(typeof gift.box === 'number' && Number.isInteger(gift.box) && gift.box >= 0, `"${at}.box" should be a box number of at least 0.`)) {
+        check(!boxes.has(gift.box as number), `"${at}.box" ${gift.box} already has a surprise.`);
+        boxes.add(gift.box as number);
+      }
+      check(parseGiftSurprise(gift.surprise) !== null,
+        `"${at}.surprise" should be a message, a photo (http(s) "url" or "libraryId") or an http(s) link.`);
+    });
+    check(gifts.length <= CONFIG.gifts.max, `The file has ${gifts.length} surprises; a tree holds at most ${CONFIG.gifts.max}.`);
+  }
+
+  if (problems.length > 0) throw new SceneDocumentError(problems);
+  const { tree, theme, ornaments, photos, photoOffset, snow, camera, gifts } = raw as CheckedDocument;
+
+  return {
+    format: SCENE_DOCUMENT_FORMAT,
+    version: SCENE_DOCUMENT_VERSION,
+    tree: {
+      height: tree.height,
+      radius: tree.radius,
+      seed: normalizeSeed(tree.seed),
+      formation: tree.formation,
+      ...(tree.message?.trim() ? { message: tree.message.trim() } : {}),
+    },
+    theme: theme.custom !== undefined ? { id: theme.id, custom: parseTheme(theme.custom)! } : { id: theme.id },
+    ornaments: Object.fromEntries(ORNAMENT_KINDS.map(({ id }) => [
+      id,
+      (ornaments[id] ?? []).map(({ color, position }) => ({
+        color,
+        position: rescaleToTree(position, tree.height, tree.radius),
+      })),
+    ])) as Record<OrnamentKind, DocumentOrnament[]>,
+    photos: photos.map(({ url, libraryId, name, caption, captionFont, captionColor }) => ({
+      ...(typeof url === 'string' && /^https?:\/\//i.test(url) ? { url } : { libraryId }),
+      ...(typeof name === 'string' ? { name } : {}),
+      caption: (caption ?? '').slice(0, MAX_CAPTION_LENGTH),
+      ...(captionFont ? { captionFont } : {}),
+      ...(captionColor ? { captionColor } : {}),
+    })),
+    photoOffset: Math.floor(photoOffset),
+    snow: { enabled: snow.enabled, density: snow.density },
+    ...(camera ? { camera: { position: camera.position, target: camera.target } } : {}),
+    gifts: gifts.map(({ box, surprise }) => ({ box, surprise: parseGiftSurprise(surprise)! })),
+  };
+};
+
+// Parses a `.tree.json` file's text: JSON, then migration, then validation.
+// Throws a SceneDocumentError listing what's wrong, in words meant for the person loading it.
+export const parseSceneDocument = (text: string): SceneDocument => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SceneDocumentError(['This file is not valid JSON.']);
+  }
+  if (!isObject(raw)) throw new SceneDocumentError(['This file does not contain a scene.']);
+  return validateSceneDocument(migrateSceneDocument(raw));
+};
+
+// The document's hand-placed ornaments as decorations (with fresh ids)
+export const documentDecorations = (document: SceneDocument): PlacedOrnament[] =>
+  ORNAMENT_KINDS.flatMap(({ id: kind }) =>
+    document.ornaments[kind].map(({ color, position }) => ({ id: createId(), kind, color, position }))
+  );
+
+// The document's photos as this device can show them. `photos` is null when the device's own
+// photos should show (none saved, or exactly its library); `missing` names local photos it lacks.
+export const resolveDocumentPhotos = (document: SceneDocument, library: LibraryPhoto[]) => {
+  const isWholeLibrary =
+    document.photos.length === library.length && document.photos.every((p, i) => p.libraryId === library[i].id);
+  if (document.photos.length === 0 || isWholeLibrary) return { photos: null, missing: [] as string[] };
+
+  const photos: SharedPhoto[] = [];
+  const missing: string[] = [];
+  document.photos.forEach(({ url, libraryId, name, caption, captionFont, captionColor }) => {
+    const local = libraryId ? library.find((p) => p.id === libraryId) : undefined;
+    if (url || local) photos.push({ url: url ?? local!.url, caption, captionFont, captionColor });
+    else missing.push(name ?? 'Unnamed photo');
+  });
+  return { photos: photos.length > 0 ? photos : null, missing };
+};
@@ -0,0 +1,166 @@
+import { CONFIG, CameraPose, CaptionStyle, ScenePhoto, SnowDensity, Theme, TreeState, WrappedGift } from '../types';
+import { MAX_CAPTION_LENGTH, isCaptionFontId } from './captions';
+import { normalizeSeed } from './random';
+import { isPresetTheme, parseTheme } from './themes';
+import { parseWrappedGifts } from './gifts';
+import { MAX_MESSAGE_LENGTH } from './silhouette';
+
+// A remote photo in a link, with its caption
+export interface SharedPhoto extends CaptionStyle {
+  url: string;
+  caption?: string;
+}
+
+// Everything needed to rebuild a scene from a link.
+export interface SceneSnapshot {
+  treeState: TreeState;
+  snowEnabled: boolean;
+  snowDensity?: SnowDensity;
+  photoOffset: number;
+  seed?: number;
+  // Only remote (http/https) photos can travel in a link; blob: URLs are local to this tab.
+  photos?: SharedPhoto[];
+  camera?: CameraPose;
+  themeId?: string;
+  // User-defined themes only exist on the author's machine, so they travel in full
+  customTheme?: Theme;
+  // Text of the custom formation (uploaded silhouettes stay local)
+  message?: string;
+  // Surprises in the gift boxes (photo surprises only with a remote URL, like the photos)
+  gifts?: WrappedGift[];
+}
+
+const HASH_KEY = 'scene';
+
+// --- Base64url helpers (unicode safe, no padding) ---
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// --- Validation helpers ---
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+// Own keys only: `constructor` and friends are on every object
+const isSnowDensity = (v: unknown): v is SnowDensity => typeof v === 'string' && Object.hasOwn(CONFIG.snow.density, v);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isVec3 = (v: unknown): v is [number, number, number] =>
+  Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+export const isShareablePhotoUrl = (url: string) => /^https?:\/\//i.test(url);
+
+export const toScenePhotos = (shared: SharedPhoto[]): ScenePhoto[] =>
+  shared.map(({ url, caption, captionFont, captionColor }, i) => ({
+    id: `link-${i}-${url}`,
+    url,
+    caption: caption ?? '',
+    captionFont,
+    captionColor,
+  }));
+
+export const toSharedPhoto = ({ url, caption, captionFont, captionColor }: ScenePhoto): SharedPhoto => ({
+  url,
+  ...(caption ? { caption } : {}),
+  ...(captionFont ? { captionFont } : {}),
+  ...(captionColor ? { captionColor } : {}),
+});
+
+export const roundCameraPose = (pose: CameraPose): CameraPose => ({
+  position: pose.position.map(round) as [number, number, number],
+  target: pose.target.map(round) as [number, number, number],
+});
+
+const isHexColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-fA-F]{6}$/.test(v);
+
+const parseSharedPhoto = (raw: unknown): SharedPhoto | null => {
+  if (typeof raw === 'string') return isShareablePhotoUrl(raw) ? { url: raw } : null;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { url, caption, captionFont, captionColor } = raw as Record<string, unknown>;
+  if (typeof url !== 'string' || !isShareablePhotoUrl(url)) return null;
+
+  const photo: SharedPhoto = { url };
+  if (typeof caption === 'string') photo.caption = caption.slice(0, MAX_CAPTION_LENGTH);
+  if (isCaptionFontId(captionFont)) photo.captionFont = captionFont;
+  if (isHexColor(captionColor)) photo.captionColor = captionColor;
+  return photo;
+};
+
+export const encodeSceneHash = (snapshot: SceneSnapshot): string => {
+  // Wire format: bare URLs for uncaptioned photos keep links short
+  const payload: Omit<SceneSnapshot, 'photos'> & { photos?: (string | SharedPhoto)[] } = {
+    treeState: snapshot.treeState,
+    snowEnabled: snapshot.snowEnabled,
+    photoOffset: snapshot.photoOffset,
+  };
+  if (snapshot.snowDensity && snapshot.snowDensity !== 'normal') payload.snowDensity = snapshot.snowDensity;
+  if (snapshot.seed !== undefined) payload.seed = snapshot.seed;
+  const photos = snapshot.photos?.filter((p) => isShareablePhotoUrl(p.url));
+  if (photos && photos.length > 0) {
+    payload.photos = photos.map(({ url, caption, captionFont, captionColor }) =>
+      caption || captionFont || captionColor ? { url, caption, captionFont, captionColor } : url
+    );
+  }
+  if (snapshot.camera) payload.camera = roundCameraPose(snapshot.camera);
+  if (snapshot.themeId) payload.themeId = snapshot.themeId;
+  if (snapshot.customTheme && !isPresetTheme(snapshot.customTheme.id)) payload.customTheme = snapshot.customTheme;
+  if (snapshot.message) payload.message = snapshot.message;
+  const gifts = snapshot.gifts?.filter(({ surprise }) => surprise.kind !== 'photo' || surprise.url !== undefined);
+  if (gifts && gifts.length > 0) payload.gifts = gifts;
+
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(payload))}`;
+};
+
+// Returns null for anything that isn't a valid scene hash (missing, truncated, tampered).
+export const decodeSceneHash = (hash: string): SceneSnapshot | null => {
+  const match = hash.match(new RegExp(`^#?${HASH_KEY}=([A-Za-z0-9_-]+)$`));
+  if (!match) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(match[1]));
+  } catch {
+    return null;
+  }
+  if (!isObject(raw)) return null;
+
+  const treeState = Object.values(TreeState).includes(raw.treeState as TreeState) ? (raw.treeState as TreeState) : TreeState.FORMED;
+  const snapshot: SceneSnapshot = {
+    treeState,
+    snowEnabled: typeof raw.snowEnabled === 'boolean' ? raw.snowEnabled : true,
+    photoOffset: isFiniteNumber(raw.photoOffset) && raw.photoOffset >= 0 ? Math.floor(raw.photoOffset) : 0,
+  };
+
+  if (Array.isArray(raw.photos)) {
+    const photos = raw.photos.map(parseSharedPhoto).filter((p): p is SharedPhoto => p !== null);
+    if (photos.length > 0) snapshot.photos = photos;
+  }
+
+  const { camera } = raw;
+  if (isObject(camera) && isVec3(camera.position) && isVec3(camera.target)) {
+    snapshot.camera = { position: camera.position, target: camera.target };
+  }
+
+  if (isSnowDensity(raw.snowDensity)) snapshot.snowDensity = raw.snowDensity;
+  if (isFiniteNumber(raw.seed)) snapshot.seed = normalizeSeed(raw.seed);
+  if (typeof raw.themeId === 'string') snapshot.themeId = raw.themeId;
+  const customTheme = parseTheme(raw.customTheme);
+  if (customTheme && !isPresetTheme(customTheme.id)) snapshot.customTheme = customTheme;
+  if (typeof raw.message === 'string' && raw.message.trim()) snapshot.message = raw.message.trim().slice(0, MAX_MESSAGE_LENGTH);
+  const gifts = parseWrappedGifts(raw.gifts);
+  if (gifts.length > 0) snapshot.gifts = gifts;
+
+  return snapshot;
+};
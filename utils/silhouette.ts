@@ -0,0 +1,294 @@
+import { Rng } from './random';
+import { FORMATION_CENTER_Y, FormationShape } from './formations';
+
+// Custom formations: a typed message or an uploaded silhouette (SVG/PNG), rasterized to a mask
+// and sampled into particle targets.
+
+type Vec3 = [number, number, number];
+
+export const MAX_MESSAGE_LENGTH = 40;
+
+// 1 = inside the shape
+export interface ShapeMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type SilhouetteSource = { kind: 'text'; text: string } | { kind: 'image'; name: string };
+
+export interface Silhouette {
+  source: SilhouetteSource;
+  shape: FormationShape;
+}
+
+export class SilhouetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SilhouetteError';
+  }
+}
+
+// World-space box the shape is fitted into (flat, facing the viewer)
+const FIT = { width: 12, height: 8, depth: 0.8 };
+// Longest side of an uploaded image's mask, in pixels
+const IMAGE_MASK_SIZE = 512;
+const TEXT_FONT_SIZE = 160;
+const TEXT_MAX_LINE_WIDTH = 1400;
+
+// --- Sampling ---
+
+const isInside = (mask: ShapeMask, x: number, y: number) => {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  return px >= 0 && py >= 0 && px < mask.width && py < mask.height && mask.data[py * mask.width + px] === 1;
+};
+
+// Pixels on the edge of the shape (inside, with a 4-neighbour outside)
+const findOutline = (mask: ShapeMask) => {
+  const outline: number[] = [];
+  const { width, height, data } = mask;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!data[i]) continue;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1 || !data[i - 1] || !data[i + 1] || !data[i - width] || !data[i + width]) {
+        outline.push(i);
+      }
+    }
+  }
+  return outline;
+};
+
+// Trims or tops up a stratified sample to exactly `count` points without clumping:
+// extras are dropped at random, missing ones drawn uniformly from `fallback`.
+const fitCount = (points: [number, number][], count: number, random: Rng, fallback: () => [number, number]) => {
+  for (let i = points.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [points[i], points[j]] = [points[j], points[i]];
+  }
+  points.length = Math.min(points.length, count);
+  while (points.length < count) points.push(fallback());
+  return points;
+};
+
+/**
+ * `count` points spread evenly over the inside of the mask, in mask pixels.
+ * Jittered grid: the cell size is chosen so the cells that land inside number about `count`,
+ * so density is the same whatever the particle count or the shape's area.
+ */
+export const sampleMaskInterior = (mask: ShapeMask, count: number, random: Rng): [number, number][] => {
+  const inside: number[] = [];
+  mask.data.forEach((v, i) => {
+    if (v) inside.push(i);
+  });
+  if (inside.length === 0 || count === 0) return [];
+
+  const cell = Math.sqrt(inside.length / count);
+  const points: [number, number][] = [];
+  for (let gy = 0; gy < mask.height; gy += cell) {
+    for (let gx = 0; gx < mask.width; gx += cell) {
+      const x = gx + random() * cell;
+      const y = gy + random() * cell;
+      if (isInside(mask, x, y)) points.push([x, y]);
+    }
+  }
+
+  return fitCount(points, count, random, () => {
+    const i = inside[Math.floor(random() * inside.length)];
+    return [(i % mask.width) + random(), Math.floor(i / mask.width) + random()];
+  });
+};
+
+// `count` points spread evenly along the shape's edge, in mask pixels
+export const sampleMaskOutline = (mask: ShapeMask, count: number, random: Rng): [number, number][] => {
+  const outline = findOutline(mask);
+  if (outline.length === 0 || count === 0) return [];
+
+  // The edge is ~1px wide, so a grid of this size crosses it about `count` times
+  const cell = Math.max(1, outline.length / count);
+  const cells = new Map<string, number[]>();
+  outline.forEach((i) => {
+    const key = `${Math.floor((i % mask.width) / cell)}:${Math.floor(Math.floor(i / mask.width) / cell)}`;
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(i);
+    else cells.set(key, [i]);
+  });
+
+  const toPoint = (i: number): [number, number] => [(i % mask.width) + 0.5, Math.floor(i / mask.width) + 0.5];
+  const points = Array.from(cells.values(), (bucket) => toPoint(bucket[Math.floor(random() * bucket.length)]));
+  return fitCount(points, count, random, () => toPoint(outline[Math.floor(random() * outline.length)]));
+};
+
+// --- Mask -> formation ---
+
+const getBounds = (mask: ShapeMask) => {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (!mask.data[y * mask.width + x]) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x + 1);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y + 1);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+/**
+ * Fits the mask into the formation box (keeping its aspect) and wraps it as a flat formation:
+ * foliage fills the inside, ornaments settle along the outline, frames line a box around it.
+ */
+export const maskToFormation = (mask: ShapeMask): FormationShape => {
+  const bounds = getBounds(mask);
+  if (!Number.isFinite(bounds.minX)) throw new SilhouetteError('The shape is empty.');
+
+  const scale = Math.min(FIT.width / (bounds.maxX - bounds.minX), FIT.height / (bounds.maxY - bounds.minY));
+  const cx = (bounds.minX + bounds.maxX) / 2;
+  const cy = (bounds.minY + bounds.maxY) / 2;
+  const toWorld = ([x, y]: [number, number], random: Rng): Vec3 => [
+    (x - cx) * scale,
+    FORMATION_CENTER_Y - (y - cy) * scale, // mask rows run downwards
+    (random() - 0.5) * FIT.depth,
+  ];
+
+  const inside: number[] = [];
+  mask.data.forEach((v, i) => {
+    if (v) inside.push(i);
+  });
+
+  const halfWidth = ((bounds.maxX - bounds.minX) * scale) / 2 + 1.6;
+  const halfHeight = ((bounds.maxY - bounds.minY) * scale) / 2 + 2;
+
+  return {
+    sample: (random) => {
+      const i = inside[Math.floor(random() * inside.length)];
+      return toWorld([(i % mask.width) + random(), Math.floor(i / mask.width) + random()], random);
+    },
+    fill: (count, random) => sampleMaskInterior(mask, count, random).map((p) => toWorld(p, random)),
+    outline: (count, random) => sampleMaskOutline(mask, count, random).map((p) => toWorld(p, random)),
+    photoPath: [
+      [-halfWidth, FORMATION_CENTER_Y + halfHeight],
+      [halfWidth, FORMATION_CENTER_Y + halfHeight],
+      [halfWidth, FORMATION_CENTER_Y - halfHeight],
+      [-halfWidth, FORMATION_CENTER_Y - halfHeight],
+    ],
+    star: [0, FORMATION_CENTER_Y + halfHeight + 1.8, 0],
+  };
+};
+
+// --- Rasterizing ---
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new SilhouetteError('Could not create a canvas to draw the shape.');
+  return ctx;
+};
+
+const readAlphaMask = (ctx: CanvasRenderingContext2D): ShapeMask => {
+  const { width, height } = ctx.canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4 + 3] >= 128 ? 1 : 0;
+  return { width, height, data };
+};
+
+// Greedy word wrap against the canvas' measured widths
+const wrapText = (ctx: CanvasRenderingContext2D, text: string) => {
+  const lines: string[] = [];
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && ctx.measureText(`${last} ${word}`).width <= TEXT_MAX_LINE_WIDTH) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+  return lines;
+};
+
+export const silhouetteFromText = async (input: string): Promise<Silhouette> => {
+  const text = input.trim().slice(0, MAX_MESSAGE_LENGTH);
+  if (!text) throw new SilhouetteError('Type a message first.');
+
+  const font = `700 ${TEXT_FONT_SIZE}px Cinzel, "Times New Roman", serif`;
+  // The display font comes from a stylesheet; make sure it's ready before drawing with it
+  await document.fonts?.load(font, text).catch(() => undefined);
+
+  const measure = createContext(1, 1);
+  measure.font = font;
+  const lines = wrapText(measure, text);
+  const lineHeight = TEXT_FONT_SIZE * 1.15;
+  const width = Math.ceil(Math.max(...lines.map((line) => measure.measureText(line).width))) + 40;
+  const height = Math.ceil(lines.length * lineHeight) + 40;
+
+  const ctx = createContext(width, height);
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#000';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, 20 + lineHeight * (i + 0.5)));
+
+  return { source: { kind: 'text', text }, shape: maskToFormation(readAlphaMask(ctx)) };
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new SilhouetteError('Could not read that image. Use an SVG or PNG file.'));
+    };
+    image.src = url;
+  });
+
+export const isSilhouetteFile = (file: File) =>
+  file.type === 'image/svg+xml' || file.type === 'image/png' || /\.(svg|png)$/i.test(file.name);
+
+/**
+ * Transparent images (most logos) use their alpha as the shape. Opaque ones, e.g. a logo
+ * on a white background, use their darker-than-average pixels instead.
+ */
+export const silhouetteFromImage = async (file: File): Promise<Silhouette> => {
+  if (!isSilhouetteFile(file)) throw new SilhouetteError('Use an SVG or PNG file.');
+  const image = await loadImage(file);
+
+  // SVGs without a width/height report 0; draw them at the mask size
+  const naturalWidth = image.naturalWidth || IMAGE_MASK_SIZE;
+  const naturalHeight = image.naturalHeight || IMAGE_MASK_SIZE;
+  const fit = IMAGE_MASK_SIZE / Math.max(naturalWidth, naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * fit));
+  const height = Math.max(1, Math.round(naturalHeight * fit));
+
+  const ctx = createContext(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const data = new Uint8Array(width * height);
+
+  let transparent = 0;
+  let luminanceSum = 0;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    if (pixels[i * 4 + 3] < 128) transparent++;
+    luminance[i] = 0.2126 * pixels[i * 4] + 0.7152 * pixels[i * 4 + 1] + 0.0722 * pixels[i * 4 + 2];
+    luminanceSum += luminance[i];
+  }
+
+  if (transparent > data.length * 0.01) {
+    for (let i = 0; i < data.length; i++) data[i] = pixels[i * 4 + 3] >= 128 ? 1 : 0;
+  } else {
+    const threshold = luminanceSum / data.length;
+    for (let i = 0; i < data.length; i++) data[i] = luminance[i] < threshold ? 1 : 0;
+  }
+
+  return { source: { kind: 'image', name: file.name }, shape: maskToFormation({ width, height, data }) };
+};
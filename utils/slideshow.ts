@@ -0,0 +1,59 @@
+import { CONFIG, PhotoTransition, SlideshowSettings } from '../types';
+import { createRng } from './random';
+
+export const PHOTO_TRANSITIONS: { id: PhotoTransition; label: string }[] = [
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'flip', label: 'Flip Card' },
+  { id: 'shimmer', label: 'Shimmer' },
+];
+
+export const isPhotoTransition = (value: unknown): value is PhotoTransition =>
+  PHOTO_TRANSITIONS.some((t) => t.id === value);
+
+// Play order for shuffle: a permutation of the library, a new one each time round (seeded, so a
+// given seed always shuffles the same way)
+export const shuffledOrder = (count: number, seed: number, round: number) => {
+  const random = createRng(seed, `slideshow:${round}`);
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// --- Persistence ---
+
+const SLIDESHOW_KEY = 'luxury-tree:slideshow';
+
+export const DEFAULT_SLIDESHOW: SlideshowSettings = {
+  playing: false,
+  intervalSeconds: 8,
+  shuffle: false,
+  loop: true,
+  transition: 'crossfade',
+};
+
+export const loadSlideshowSettings = (): SlideshowSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SLIDESHOW_KEY) ?? 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_SLIDESHOW;
+    return {
+      playing: typeof raw.playing === 'boolean' ? raw.playing : DEFAULT_SLIDESHOW.playing,
+      intervalSeconds: CONFIG.slideshow.intervals.includes(raw.intervalSeconds) ? raw.intervalSeconds : DEFAULT_SLIDESHOW.intervalSeconds,
+      shuffle: typeof raw.shuffle === 'boolean' ? raw.shuffle : DEFAULT_SLIDESHOW.shuffle,
+      loop: typeof raw.loop === 'boolean' ? raw.loop : DEFAULT_SLIDESHOW.loop,
+      transition: isPhotoTransition(raw.transition) ? raw.transition : DEFAULT_SLIDESHOW.transition,
+    };
+  } catch {
+    return DEFAULT_SLIDESHOW;
+  }
+};
+
+export const saveSlideshowSettings = (settings: SlideshowSettings) => {
+  try {
+    localStorage.setItem(SLIDESHOW_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled - the settings just won't persist
+  }
+};
@@ -0,0 +1,207 @@
+import { CONFIG, Theme } from '../types';
+
+export const CLASSIC_EMERALD: Theme = {
+  id: 'classic-emerald',
+  name: 'Classic Emerald',
+  foliage: { base: '#004D1A', tip: CONFIG.colors.gold },
+  ornaments: {
+    balls: [CONFIG.colors.red, CONFIG.colors.gold, '#B8860B'],
+    boxes: ['#003311', CONFIG.colors.gold],
+    diamonds: '#E0FFFF',
+    rings: CONFIG.colors.gold,
+    icicles: '#FFFFFF',
+  },
+  star: { color: CONFIG.colors.gold, emissive: '#FFAA00', light: CONFIG.colors.gold },
+  frame: { trim: CONFIG.colors.gold, trimEmissive: '#B8860B', paper: '#F8F8FF', caption: '#004020' },
+  lights: { ambient: '#002010', spot: CONFIG.colors.gold, fill: '#00ff88' },
+  background: { top: '#001005', bottom: '#002010' },
+  ui: { accent: CONFIG.colors.gold, accentLight: '#FFF8C6', ink: '#004020' },
+};
+
+export const SILVER_FROST: Theme = {
+  id: 'silver-frost',
+  name: 'Silver Frost',
+  foliage: { base: '#1B3A4B', tip: '#E8F4FF' },
+  ornaments: {
+    balls: ['#C0C0C0', '#E8F4FF', '#7FA7C9'],
+    boxes: ['#2B3F52', '#C0C0C0'],
+    diamonds: '#E0FFFF',
+    rings: '#D8D8E0',
+    icicles: '#FFFFFF',
+  },
+  star: { color: '#E8F4FF', emissive: '#9FC5E8', light: '#DDEEFF' },
+  frame: { trim: '#C0C0C0', trimEmissive: '#7F8C99', paper: '#F8F8FF', caption: '#1B3A4B' },
+  lights: { ambient: '#0A1420', spot: '#DDEEFF', fill: '#66AACC' },
+  background: { top: '#02060C', bottom: '#0A1624' },
+  ui: { accent: '#D8E6F0', accentLight: '#F4FAFF', ink: '#0A1624' },
+};
+
+export const ROSE_GOLD: Theme = {
+  id: 'rose-gold',
+  name: 'Rose Gold',
+  foliage: { base: '#4A1E2A', tip: '#F4C2A1' },
+  ornaments: {
+    balls: ['#B76E79', '#F4C2A1', '#8E4B5A'],
+    boxes: ['#5A2333', '#E8B4A0'],
+    diamonds: '#FFE4E1',
+    rings: '#E8B4A0',
+    icicles: '#FFF0F5',
+  },
+  star: { color: '#F4C2A1', emissive: '#E0917A', light: '#FFD1BA' },
+  frame: { trim: '#E8B4A0', trimEmissive: '#B76E79', paper: '#FFF8F5', caption: '#5A2333' },
+  lights: { ambient: '#200A10', spot: '#FFD1BA', fill: '#FF88AA' },
+  background: { top: '#10050A', bottom: '#24101A' },
+  ui: { accent: '#F4C2A1', accentLight: '#FFE8DC', ink: '#24101A' },
+};
+
+export const MIDNIGHT_BLUE: Theme = {
+  id: 'midnight-blue',
+  name: 'Midnight Blue',
+  foliage: { base: '#0B1E4A', tip: '#C9D6FF' },
+  ornaments: {
+    balls: ['#1E3A8A', '#C9D6FF', CONFIG.colors.gold],
+    boxes: ['#0B1E4A', '#C9D6FF'],
+    diamonds: '#E0FFFF',
+    rings: '#C9D6FF',
+    icicles: '#FFFFFF',
+  },
+  star: { color: '#FFF4C0', emissive: '#FFD27F', light: '#FFF4C0' },
+  frame: { trim: '#C9D6FF', trimEmissive: '#4A5E9A', paper: '#F8F8FF', caption: '#0B1E4A' },
+  lights: { ambient: '#050A20', spot: '#AFC4FF', fill: '#3355FF' },
+  background: { top: '#01030C', bottom: '#050F2A' },
+  ui: { accent: '#C9D6FF', accentLight: '#EEF2FF', ink: '#050F2A' },
+};
+
+export const THEME_PRESETS: Theme[] = [CLASSIC_EMERALD, SILVER_FROST, ROSE_GOLD, MIDNIGHT_BLUE];
+
+export const DEFAULT_THEME = CLASSIC_EMERALD;
+
+export const isPresetTheme = (id: string) => THEME_PRESETS.some((t) => t.id === id);
+
+export const findTheme = (id: string, customThemes: Theme[] = []): Theme | undefined =>
+  THEME_PRESETS.find((t) => t.id === id) ?? customThemes.find((t) => t.id === id);
+
+// --- User-defined themes ---
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const isHex = (v: unknown): v is string => typeof v === 'string' && HEX_COLOR.test(v);
+const isHexList = (v: unknown): v is string[] => Array.isArray(v) && v.length > 0 && v.every(isHex);
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'theme';
+
+const mixHex = (a: string, b: string, t: number) => {
+  const pa = parseInt(a.slice(1), 16);
+  const pb = parseInt(b.slice(1), 16);
+  const channel = (shift: number) =>
+    Math.round(((pa >> shift) & 255) * (1 - t) + ((pb >> shift) & 255) * t);
+  return `#${((channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).padStart(6, '0').toUpperCase()}`;
+};
+
+export interface CustomThemeInput {
+  name: string;
+  // Dominant tree color
+  primary: string;
+  // Metallic color for tips, trim, rings and the star
+  metal: string;
+  // Third ornament color
+  highlight: string;
+}
+
+// Expands three picked colors into a full theme
+export const createCustomTheme = ({ name, primary, metal, highlight }: CustomThemeInput): Theme => {
+  const dark = mixHex(primary, '#000000', 0.7);
+  const light = mixHex(metal, '#FFFFFF', 0.7);
+
+  return {
+    id: `custom-${slugify(name)}`,
+    name,
+    foliage: { base: primary, tip: metal },
+    ornaments: {
+      balls: [highlight, metal, mixHex(metal, '#000000', 0.3)],
+      boxes: [mixHex(primary, '#000000', 0.3), metal],
+      diamonds: '#E0FFFF',
+      rings: metal,
+      icicles: '#FFFFFF',
+    },
+    star: { color: metal, emissive: mixHex(metal, highlight, 0.3), light: metal },
+    frame: { trim: metal, trimEmissive: mixHex(metal, '#000000', 0.3), paper: '#F8F8FF', caption: dark },
+    lights: { ambient: dark, spot: metal, fill: mixHex(primary, '#FFFFFF', 0.4) },
+    background: { top: mixHex(primary, '#000000', 0.9), bottom: dark },
+    ui: { accent: metal, accentLight: light, ink: dark },
+  };
+};
+
+// Returns null unless every color of the theme is a #RRGGBB string
+export const parseTheme = (raw: unknown): Theme | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+
+  const { foliage, ornaments: o, star, frame, lights, background, ui } = raw;
+  if (
+    !isRecord(foliage) || !isRecord(o) || !isRecord(star) || !isRecord(frame) ||
+    !isRecord(lights) || !isRecord(background) || !isRecord(ui)
+  ) {
+    return null;
+  }
+
+  if (!(
+    isHex(foliage.base) && isHex(foliage.tip) &&
+    isHexList(o.balls) && isHexList(o.boxes) &&
+    isHex(o.diamonds) && isHex(o.rings) && isHex(o.icicles) &&
+    isHex(star.color) && isHex(star.emissive) && isHex(star.light) &&
+    isHex(frame.trim) && isHex(frame.trimEmissive) && isHex(frame.paper) && isHex(frame.caption) &&
+    isHex(lights.ambient) && isHex(lights.spot) && isHex(lights.fill) &&
+    isHex(background.top) && isHex(background.bottom) &&
+    isHex(ui.accent) && isHex(ui.accentLight) && isHex(ui.ink)
+  )) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    foliage: { base: foliage.base, tip: foliage.tip },
+    ornaments: { balls: [...o.balls], boxes: [...o.boxes], diamonds: o.diamonds, rings: o.rings, icicles: o.icicles },
+    star: { color: star.color, emissive: star.emissive, light: star.light },
+    frame: { trim: frame.trim, trimEmissive: frame.trimEmissive, paper: frame.paper, caption: frame.caption },
+    lights: { ambient: lights.ambient, spot: lights.spot, fill: lights.fill },
+    background: { top: background.top, bottom: background.bottom },
+    ui: { accent: ui.accent, accentLight: ui.accentLight, ink: ui.ink },
+  };
+};
+
+const CUSTOM_THEMES_KEY = 'luxury-tree:custom-themes';
+
+export const loadCustomThemes = (): Theme[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.map(parseTheme).filter((t): t is Theme => t !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: Theme[]) => {
+  try {
+    localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+  } catch {
+    // Storage full or disabled (private mode) - themes just won't persist
+  }
+};
+
+// --- UI accents ---
+// Tailwind's luxury-* colors read these variables (see index.html), as space separated RGB channels
+
+const toRgbChannels = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+};
+
+export const applyThemeCssVariables = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  root.style.setProperty('--luxury-gold', toRgbChannels(theme.ui.accent));
+  root.style.setProperty('--luxury-gold-light', toRgbChannels(theme.ui.accentLight));
+  root.style.setProperty('--luxury-green', toRgbChannels(theme.ui.ink));
+  root.style.setProperty('--luxury-bg', theme.background.top);
+};
@@ -0,0 +1,234 @@
+import { CONFIG, EasingName, TimelineConfig, TimelineSettings, TimelineTrack } from '../types';
+
+// One choreography for every formation change: each element (track) gets a window inside the total
+// duration, optionally staggered by tier (0 = base, 1 = top), and an easing curve.
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutQuint: (t) => 1 - Math.pow(1 - t, 5),
+  // Overshoots a little before settling, for things that "pop" into place
+  easeOutBack: (t) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+};
+
+// The same curves for shaders, picked by index
+export const EASING_INDEX: Record<EasingName, number> = {
+  linear: 0,
+  easeOutCubic: 1,
+  easeInOutCubic: 2,
+  easeOutQuint: 3,
+  easeOutBack: 4,
+};
+
+export const EASING_GLSL = `
+  float applyEasing(int mode, float t) {
+    if (mode == 1) return 1.0 - pow(1.0 - t, 3.0);
+    if (mode == 2) return t < 0.5 ? 4.0 * t * t * t : 1.0 - pow(-2.0 * t + 2.0, 3.0) / 2.0;
+    if (mode == 3) return 1.0 - pow(1.0 - t, 5.0);
+    if (mode == 4) return 1.0 + 2.70158 * pow(t - 1.0, 3.0) + 1.70158 * pow(t - 1.0, 2.0);
+    return t;
+  }
+`;
+
+// Shader side of Transition.trackProgress(): one track's window as uniforms, driven by
+// createTrackUniforms() / setTrackUniforms() below
+export const TRACK_GLSL = `
+  uniform float uElapsed;
+  uniform float uTrackStart;
+  uniform float uTrackStagger;
+  uniform float uTrackLength;
+  uniform int uEasing;
+  ${EASING_GLSL}
+  float trackProgress(float tier) {
+    return applyEasing(uEasing, clamp((uElapsed - uTrackStart - uTrackStagger * tier) / uTrackLength, 0.0, 1.0));
+  }
+`;
+
+export const createTrackUniforms = () => ({
+  uElapsed: { value: 0 },
+  uTrackStart: { value: 0 },
+  uTrackStagger: { value: 0 },
+  uTrackLength: { value: 1 },
+  uEasing: { value: 0 },
+});
+
+export type TrackUniforms = ReturnType<typeof createTrackUniforms>;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Tier of a point by its height on the tree (other formations use the same scale)
+export const heightTier = (y: number) => clamp01(y / CONFIG.treeHeight);
+
+// Timeline clock, in seconds. Shared by the scene and the UI.
+export const timelineNow = () => performance.now() / 1000;
+
+let nextTransitionId = 1;
+
+/**
+ * One run of the choreography. Immutable, so an element interrupted mid-way can still work out
+ * where the previous run had taken it.
+ */
+export class Transition {
+  readonly id = nextTransitionId++;
+
+  constructor(readonly config: TimelineConfig, readonly startTime: number) {}
+
+  // Where a track's window sits, in seconds after the start
+  window(track: TimelineTrack, tier = 0) {
+    const timing = this.config.tracks[track];
+    return {
+      start: (timing.delay + timing.stagger * clamp01(tier)) * this.config.duration,
+      length: Math.max(timing.duration * this.config.duration, 1e-3),
+      easing: timing.easing ?? this.config.easing,
+    };
+  }
+
+  // Eased 0..1 progress of an element of `track` at `tier`
+  trackProgress(track: TimelineTrack, tier = 0, time = timelineNow()) {
+    const { start, length, easing } = this.window(track, tier);
+    return EASINGS[easing](clamp01((time - this.startTime - start) / length));
+  }
+
+  // Linear 0..1 progress of the whole run
+  progress(time = timelineNow()) {
+    return clamp01((time - this.startTime) / this.config.duration);
+  }
+}
+
+// Points the uniforms at `track` of a transition (uElapsed is then advanced every frame)
+export const setTrackUniforms = (uniforms: TrackUniforms, transition: Transition, track: TimelineTrack) => {
+  const base = transition.window(track, 0);
+  uniforms.uTrackStart.value = base.start;
+  uniforms.uTrackStagger.value = transition.window(track, 1).start - base.start;
+  uniforms.uTrackLength.value = base.length;
+  uniforms.uEasing.value = EASING_INDEX[base.easing];
+};
+
+export type TimelineEvent =
+  | { type: 'start'; transition: Transition }
+  | { type: 'progress'; transition: Transition; progress: number }
+  | { type: 'complete'; transition: Transition };
+
+export interface TimelineSnapshot {
+  isRunning: boolean;
+  progress: number; // rounded to 1%, so UI subscribers don't re-render every frame
+}
+
+/**
+ * Starts transitions and reports on them. A transition is created while rendering (create() has no
+ * side effects) and started once it's committed; the scene calls tick() once per frame and events
+ * fire from there.
+ */
+export class SceneTimeline {
+  private config: TimelineConfig;
+  private transition: Transition;
+  private announced: Transition | null = null;
+  private isComplete = false;
+  private snapshot: TimelineSnapshot = { isRunning: true, progress: 0 };
+  private listeners = new Set<(event: TimelineEvent) => void>();
+
+  constructor(config: TimelineConfig = CONFIG.timeline) {
+    this.config = config;
+    this.transition = new Transition(config, timelineNow());
+  }
+
+  get current() {
+    return this.transition;
+  }
+
+  // Applies from the next transition on
+  configure(patch: Partial<TimelineConfig>) {
+    this.config = { ...this.config, ...patch };
+  }
+
+  // A new run with the current config; nothing reports on it until it's started
+  create(time = timelineNow()) {
+    return new Transition(this.config, time);
+  }
+
+  start(transition: Transition) {
+    this.transition = transition;
+  }
+
+  tick(time = timelineNow()) {
+    const transition = this.transition;
+    if (this.announced !== transition) {
+      this.announced = transition;
+      this.isComplete = false;
+      this.emit({ type: 'start', transition });
+    }
+    if (this.isComplete) return;
+
+    const progress = transition.progress(time);
+    this.emit({ type: 'progress', transition, progress });
+    if (progress >= 1) {
+      this.isComplete = true;
+      this.emit({ type: 'complete', transition });
+    }
+  }
+
+  subscribe = (listener: (event: TimelineEvent) => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  private emit(event: TimelineEvent) {
+    const isRunning = event.type !== 'complete';
+    const progress = event.type === 'progress' ? Math.round(event.progress * 100) / 100 : isRunning ? 0 : 1;
+    if (isRunning !== this.snapshot.isRunning || progress !== this.snapshot.progress) {
+      this.snapshot = { isRunning, progress };
+    }
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+// --- Viewer settings ---
+
+export const TIMELINE_DURATIONS = [2.5, 4.5, 7];
+
+export const TIMELINE_EASINGS: { id: EasingName; label: string }[] = [
+  { id: 'easeInOutCubic', label: 'Smooth' },
+  { id: 'easeOutCubic', label: 'Gentle' },
+  { id: 'easeOutQuint', label: 'Swift' },
+  { id: 'easeOutBack', label: 'Bouncy' },
+  { id: 'linear', label: 'Linear' },
+];
+
+export const isEasingName = (value: unknown): value is EasingName => TIMELINE_EASINGS.some((e) => e.id === value);
+
+const TIMELINE_KEY = 'luxury-tree:timeline';
+
+export const DEFAULT_TIMELINE_SETTINGS: TimelineSettings = {
+  duration: CONFIG.timeline.duration,
+  easing: CONFIG.timeline.easing,
+};
+
+export const loadTimelineSettings = (): TimelineSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TIMELINE_KEY) ?? 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_TIMELINE_SETTINGS;
+    return {
+      duration: TIMELINE_DURATIONS.includes(raw.duration) ? raw.duration : DEFAULT_TIMELINE_SETTINGS.duration,
+      easing: isEasingName(raw.easing) ? raw.easing : DEFAULT_TIMELINE_SETTINGS.easing,
+    };
+  } catch {
+    return DEFAULT_TIMELINE_SETTINGS;
+  }
+};
+
+export const saveTimelineSettings = (settings: TimelineSettings) => {
+  try {
+    localStorage.setItem(TIMELINE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled - the settings just won't persist
+  }
+};
+
+// One timeline for the whole app: the scene starts and ticks it, the UI and audio listen. It starts
+// with the saved settings, so even the first formation runs at the viewer's pace.
+export const sceneTimeline = new SceneTimeline({ ...CONFIG.timeline, ...loadTimelineSettings() });
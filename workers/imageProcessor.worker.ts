@@ -0,0 +1,24 @@
+import { ProcessingRequest, ProcessingResponse, processImage } from '../utils/imageProcessing';
+
+// Minimal worker scope typing (the project compiles against the DOM lib)
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProcessingRequest>) => void) | null;
+  postMessage: (message: ProcessingResponse) => void;
+};
+
+// Requests are handled one at a time so only one full-size bitmap is in memory
+let queue = Promise.resolve();
+
+scope.onmessage = ({ data: { id, file, options } }) => {
+  queue = queue.then(async () => {
+    try {
+      const result = await processImage(file, options, (progress) =>
+        scope.postMessage({ id, type: 'progress', progress })
+      );
+      scope.postMessage({ id, type: 'done', ...result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while processing the image.';
+      scope.postMessage({ id, type: 'error', message });
+    }
+  });
+};